@@ -0,0 +1,65 @@
+import {
+  createLiveFirestore,
+  createLiveDrive,
+  createLiveChat,
+  createLiveClickUp,
+  createLivePubSub
+} from './live.js';
+import type {
+  Adapters,
+  FirestoreAdapter,
+  DriveAdapter,
+  ChatAdapter,
+  ClickUpAdapter,
+  PubSubAdapter
+} from './types.js';
+
+export type * from './types.js';
+
+// Adapters injected with setAdapters() (e.g. the in-memory ones for local runs)
+const overrides: Partial<Adapters> = {};
+
+// Live clients, created on first use so importing a service never needs GCP credentials
+let liveFirestore: FirestoreAdapter | null = null;
+let liveDrive: DriveAdapter | null = null;
+let liveChat: ChatAdapter | null = null;
+let livePubSub: PubSubAdapter | null = null;
+
+/**
+ * Replace some or all external services. Unset adapters keep using the live clients.
+ */
+export function setAdapters(adapters: Partial<Adapters>): void {
+  Object.assign(overrides, adapters);
+}
+
+/**
+ * Drop all injected adapters and go back to the live clients.
+ */
+export function resetAdapters(): void {
+  for (const key of Object.keys(overrides) as Array<keyof Adapters>) {
+    delete overrides[key];
+  }
+}
+
+export function getFirestore(): FirestoreAdapter {
+  return overrides.firestore ?? (liveFirestore ??= createLiveFirestore());
+}
+
+export function getDrive(): DriveAdapter {
+  return overrides.drive ?? (liveDrive ??= createLiveDrive());
+}
+
+export function getChat(): ChatAdapter {
+  return overrides.chat ?? (liveChat ??= createLiveChat());
+}
+
+/**
+ * ClickUp client. The live one is built per call so a rotated API key is picked up.
+ */
+export function getClickUp(): ClickUpAdapter {
+  return overrides.clickup ?? createLiveClickUp();
+}
+
+export function getPubSub(): PubSubAdapter {
+  return overrides.pubsub ?? (livePubSub ??= createLivePubSub());
+}
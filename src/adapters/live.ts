@@ -0,0 +1,165 @@
+import { google, drive_v3 } from 'googleapis';
+import { Firestore } from '@google-cloud/firestore';
+import axios from 'axios';
+import { getClickUpApiKey } from '../config/index.js';
+import type { DriveFileMetadata } from '../types/index.js';
+import type {
+  FirestoreAdapter,
+  DriveAdapter,
+  ChatAdapter,
+  ClickUpAdapter,
+  PubSubAdapter
+} from './types.js';
+
+const CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
+const FILE_FIELDS = 'id,name,mimeType,createdTime,modifiedTime,parents,owners,webViewLink,description';
+
+/**
+ * Firestore client using application default credentials.
+ */
+export function createLiveFirestore(): FirestoreAdapter {
+  return new Firestore();
+}
+
+/**
+ * Drive client with default credentials.
+ */
+export function createLiveDrive(): DriveAdapter {
+  const auth = new google.auth.GoogleAuth({
+    scopes: [
+      'https://www.googleapis.com/auth/drive.readonly',
+      'https://www.googleapis.com/auth/drive.metadata.readonly'
+    ]
+  });
+  const drive = google.drive({ version: 'v3', auth });
+
+  return {
+    async getFileMetadata(fileId) {
+      const response = await drive.files.get({ fileId, fields: FILE_FIELDS });
+      return toFileMetadata(response.data);
+    },
+
+    async downloadFile(fileId) {
+      const response = await drive.files.get({
+        fileId,
+        alt: 'media'
+      }, {
+        responseType: 'arraybuffer'
+      });
+      return Buffer.from(response.data as ArrayBuffer);
+    },
+
+    async exportFile(fileId, mimeType) {
+      const response = await drive.files.export({ fileId, mimeType });
+      return response.data as string;
+    },
+
+    async listFolderFiles(folderId, maxResults) {
+      const response = await drive.files.list({
+        q: `'${folderId}' in parents and trashed = false`,
+        fields: `files(${FILE_FIELDS})`,
+        orderBy: 'createdTime desc',
+        pageSize: maxResults
+      });
+      return (response.data.files || []).map(toFileMetadata);
+    },
+
+    async watchFolder(folderId, channel) {
+      const response = await drive.files.watch({
+        fileId: folderId,
+        requestBody: {
+          id: channel.id,
+          type: 'web_hook',
+          address: channel.address,
+          expiration: String(channel.expiration)
+        }
+      });
+      return { resourceId: response.data.resourceId || undefined };
+    },
+
+    async stopChannel(channelId, resourceId) {
+      await drive.channels.stop({
+        requestBody: { id: channelId, resourceId }
+      });
+    }
+  };
+}
+
+function toFileMetadata(file: drive_v3.Schema$File): DriveFileMetadata {
+  return {
+    id: file.id!,
+    name: file.name!,
+    mimeType: file.mimeType!,
+    createdTime: file.createdTime!,
+    modifiedTime: file.modifiedTime!,
+    parents: file.parents || undefined,
+    owners: file.owners?.map(o => ({
+      emailAddress: o.emailAddress!,
+      displayName: o.displayName || undefined
+    })),
+    webViewLink: file.webViewLink || undefined,
+    description: file.description || undefined
+  };
+}
+
+/**
+ * Chat client authenticated as the bot.
+ */
+export function createLiveChat(): ChatAdapter {
+  const auth = new google.auth.GoogleAuth({
+    scopes: [
+      'https://www.googleapis.com/auth/chat.bot',
+      'https://www.googleapis.com/auth/chat.spaces',
+      'https://www.googleapis.com/auth/chat.spaces.create',
+      'https://www.googleapis.com/auth/chat.messages',
+      'https://www.googleapis.com/auth/chat.messages.create'
+    ]
+  });
+  const chat = google.chat({ version: 'v1', auth });
+
+  return {
+    async createMessage(parent, message) {
+      await chat.spaces.messages.create({
+        parent,
+        requestBody: message
+      });
+    },
+
+    async findDirectMessage(userName) {
+      const response = await chat.spaces.findDirectMessage({ name: userName });
+      return (response.data as any)?.name || null;
+    }
+  };
+}
+
+/**
+ * Axios instance for the ClickUp API.
+ */
+export function createLiveClickUp(): ClickUpAdapter {
+  return axios.create({
+    baseURL: CLICKUP_API_BASE,
+    headers: {
+      'Authorization': getClickUpApiKey(),
+      'Content-Type': 'application/json'
+    }
+  });
+}
+
+/**
+ * Pub/Sub publisher (the client library is loaded on first publish).
+ */
+export function createLivePubSub(): PubSubAdapter {
+  let client: import('@google-cloud/pubsub').PubSub | null = null;
+
+  return {
+    async publish(topic, data) {
+      if (!client) {
+        const { PubSub } = await import('@google-cloud/pubsub');
+        client = new PubSub();
+      }
+      return client.topic(topic).publishMessage({
+        data: Buffer.from(JSON.stringify(data))
+      });
+    }
+  };
+}
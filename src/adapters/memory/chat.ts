@@ -0,0 +1,36 @@
+import type { ChatAdapter } from '../types.js';
+
+export interface SentChatMessage {
+  parent: string;
+  message: any;
+  sentAt: string;
+}
+
+export interface MemoryChat extends ChatAdapter {
+  /** Every message the bot has sent, oldest first */
+  readonly sent: SentChatMessage[];
+  /** Called for each message as it is sent */
+  onMessage?: (sent: SentChatMessage) => void;
+}
+
+/**
+ * In-memory Chat that records outgoing messages.
+ * Every user gets a DM space (`spaces/dm-<user>`), as if they had already messaged the bot.
+ */
+export function createMemoryChat(): MemoryChat {
+  const chat: MemoryChat = {
+    sent: [],
+
+    async createMessage(parent, message) {
+      const sent = { parent, message: structuredClone(message), sentAt: new Date().toISOString() };
+      chat.sent.push(sent);
+      chat.onMessage?.(sent);
+    },
+
+    async findDirectMessage(userName) {
+      return `spaces/dm-${userName.replace(/^users\//, '')}`;
+    }
+  };
+
+  return chat;
+}
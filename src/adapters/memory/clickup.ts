@@ -0,0 +1,207 @@
+import axios, { AxiosError } from 'axios';
+import type { InternalAxiosRequestConfig, AxiosResponse } from 'axios';
+import type { ClickUpMember } from '../../types/index.js';
+import type { ClickUpAdapter } from '../types.js';
+
+const PRIORITY_NAMES: Record<number, string> = { 1: 'urgent', 2: 'high', 3: 'normal', 4: 'low' };
+
+export interface MemoryClickUpState {
+  members: ClickUpMember[];
+  lists: Map<string, { id: string; name: string; customFields: Array<{ id: string; name: string; type: string }> }>;
+  tasks: Map<string, any>;
+  comments: Array<{ taskId: string; text: string }>;
+}
+
+export interface MemoryClickUp {
+  /** Axios instance to inject as the ClickUp adapter */
+  client: ClickUpAdapter;
+  state: MemoryClickUpState;
+  addList(id: string, name: string): void;
+  addTask(listId: string, task: { name: string; description?: string; status?: string }): any;
+}
+
+type RouteHandler = (
+  match: RegExpMatchArray,
+  body: any,
+  params: Record<string, any>
+) => any;
+
+/**
+ * In-memory ClickUp API. Requests go through a real axios instance whose
+ * transport is replaced, so clickupService's error handling (404s, rate limits)
+ * behaves as it does against the live API.
+ */
+export function createMemoryClickUp(options: {
+  workspaceId: string;
+  members?: ClickUpMember[];
+}): MemoryClickUp {
+  const state: MemoryClickUpState = {
+    members: options.members || [],
+    lists: new Map(),
+    tasks: new Map(),
+    comments: []
+  };
+  let nextTaskId = 1;
+  let nextChecklistId = 1;
+
+  function addList(id: string, name: string): void {
+    state.lists.set(id, { id, name, customFields: [] });
+  }
+
+  function addTask(listId: string, payload: any): any {
+    const id = `local${nextTaskId++}`;
+    const toUsers = (memberIds: number[] = []) => memberIds
+      .map(memberId => state.members.find(m => m.id === memberId))
+      .filter((m): m is ClickUpMember => !!m)
+      .map(m => ({ id: m.id, username: m.username, email: m.email }));
+
+    const task = {
+      id,
+      name: payload.name,
+      description: payload.description,
+      status: { status: payload.status || 'to do' },
+      priority: payload.priority
+        ? { id: String(payload.priority), priority: PRIORITY_NAMES[payload.priority], color: '' }
+        : null,
+      assignees: toUsers(payload.assignees),
+      due_date: payload.due_date ? String(payload.due_date) : null,
+      due_date_time: !!payload.due_date_time,
+      list: { id: listId },
+      parent: payload.parent || null,
+      url: `https://app.clickup.com/t/${id}`,
+      custom_fields: [] as Array<{ id: string; value: unknown }>,
+      checklists: [] as Array<{ id: string; name: string; items: Array<{ id: string; name: string }> }>
+    };
+
+    state.tasks.set(id, task);
+    return task;
+  }
+
+  function requireTask(taskId: string): any {
+    const task = state.tasks.get(taskId);
+    if (!task) {
+      throw notFound(`Task not found: ${taskId}`);
+    }
+    return task;
+  }
+
+  const routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [
+    {
+      method: 'get',
+      pattern: /^\/team\/([^/]+)$/,
+      handler: () => ({
+        team: {
+          id: options.workspaceId,
+          members: state.members.map(user => ({ user }))
+        }
+      })
+    },
+    {
+      method: 'get',
+      pattern: /^\/list\/([^/]+)$/,
+      handler: ([, listId]) => {
+        const list = state.lists.get(listId);
+        if (!list) {
+          throw notFound(`List not found: ${listId}`);
+        }
+        return { id: list.id, name: list.name, folder: { custom_fields: list.customFields } };
+      }
+    },
+    {
+      method: 'get',
+      pattern: /^\/list\/([^/]+)\/task$/,
+      handler: ([, listId], _body, params) => ({
+        // Like ClickUp, subtasks are only listed on request
+        tasks: [...state.tasks.values()].filter(t => t.list.id === listId && (!t.parent || params.subtasks)),
+        last_page: true
+      })
+    },
+    {
+      method: 'post',
+      pattern: /^\/list\/([^/]+)\/task$/,
+      handler: ([, listId], body) => addTask(listId, body)
+    },
+    {
+      method: 'get',
+      pattern: /^\/task\/([^/]+)$/,
+      handler: ([, taskId]) => requireTask(taskId)
+    },
+    {
+      method: 'post',
+      pattern: /^\/task\/([^/]+)\/comment$/,
+      handler: ([, taskId], body) => {
+        requireTask(taskId);
+        state.comments.push({ taskId, text: body.comment_text });
+        return { id: String(state.comments.length) };
+      }
+    },
+    {
+      method: 'post',
+      pattern: /^\/task\/([^/]+)\/checklist$/,
+      handler: ([, taskId], body) => {
+        const checklist = { id: `checklist${nextChecklistId++}`, name: body.name, items: [] };
+        requireTask(taskId).checklists.push(checklist);
+        return { checklist };
+      }
+    },
+    {
+      method: 'post',
+      pattern: /^\/checklist\/([^/]+)\/checklist_item$/,
+      handler: ([, checklistId], body) => {
+        const checklist = [...state.tasks.values()]
+          .flatMap(t => t.checklists)
+          .find(c => c.id === checklistId);
+        if (!checklist) {
+          throw notFound(`Checklist not found: ${checklistId}`);
+        }
+        checklist.items.push({ id: `${checklistId}-${checklist.items.length + 1}`, name: body.name });
+        return { checklist };
+      }
+    },
+    {
+      method: 'post',
+      pattern: /^\/task\/([^/]+)\/field\/([^/]+)$/,
+      handler: ([, taskId, fieldId], body) => {
+        requireTask(taskId).custom_fields.push({ id: fieldId, value: body.value });
+        return {};
+      }
+    }
+  ];
+
+  const client = axios.create({
+    baseURL: 'https://api.clickup.com/api/v2',
+    adapter: async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const method = (config.method || 'get').toLowerCase();
+      const path = (config.url || '').replace(/\?.*$/, '');
+      const body = typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+
+      const route = routes.find(r => r.method === method && r.pattern.test(path));
+
+      try {
+        if (!route) {
+          throw notFound(`No in-memory ClickUp route for ${method.toUpperCase()} ${path}`);
+        }
+        const data = route.handler(path.match(route.pattern)!, body || {}, config.params || {});
+        return { data: structuredClone(data), status: 200, statusText: 'OK', headers: {}, config };
+      } catch (error) {
+        if ((error as any)?.notFound) {
+          const response: AxiosResponse = {
+            data: { err: (error as Error).message, ECODE: 'ITEM_015' },
+            status: 404,
+            statusText: 'Not Found',
+            headers: {},
+            config
+          };
+          throw new AxiosError((error as Error).message, AxiosError.ERR_BAD_REQUEST, config, null, response);
+        }
+        throw error;
+      }
+    }
+  });
+
+  return { client, state, addList, addTask };
+}
+
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { notFound: true });
+}
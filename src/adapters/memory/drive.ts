@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import type { DriveFileMetadata } from '../../types/index.js';
+import type { DriveAdapter } from '../types.js';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.vtt': 'text/vtt',
+  '.srt': 'application/x-subrip',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.doc': 'application/msword',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json'
+};
+
+export interface MemoryDrive extends DriveAdapter {
+  /** Drop a file into a folder, as if a meeting recorder had saved it there */
+  addFile(file: {
+    folderId: string;
+    name: string;
+    content: Buffer | string;
+    mimeType?: string;
+    ownerEmail?: string;
+    createdTime?: string;
+  }): DriveFileMetadata;
+  /** Active watch channels, keyed by channel ID */
+  readonly channels: Map<string, { folderId: string; address: string; resourceId: string }>;
+}
+
+/**
+ * In-memory Drive holding files dropped in with addFile().
+ */
+export function createMemoryDrive(): MemoryDrive {
+  const files = new Map<string, { metadata: DriveFileMetadata; content: Buffer }>();
+  const channels = new Map<string, { folderId: string; address: string; resourceId: string }>();
+
+  function getStoredFile(fileId: string) {
+    const file = files.get(fileId);
+    if (!file) {
+      throw Object.assign(new Error(`File not found: ${fileId}`), { code: 404 });
+    }
+    return file;
+  }
+
+  return {
+    channels,
+
+    addFile({ folderId, name, content, mimeType, ownerEmail, createdTime }) {
+      const id = `local-${randomUUID().slice(0, 8)}`;
+      const now = new Date().toISOString();
+      const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+
+      const metadata: DriveFileMetadata = {
+        id,
+        name,
+        mimeType: mimeType || MIME_TYPES_BY_EXTENSION[extension] || 'text/plain',
+        createdTime: createdTime || now,
+        modifiedTime: createdTime || now,
+        parents: [folderId],
+        owners: ownerEmail ? [{ emailAddress: ownerEmail }] : undefined,
+        webViewLink: `https://drive.google.com/file/d/${id}/view`
+      };
+
+      files.set(id, {
+        metadata,
+        content: typeof content === 'string' ? Buffer.from(content, 'utf-8') : content
+      });
+      return metadata;
+    },
+
+    async getFileMetadata(fileId) {
+      return structuredClone(getStoredFile(fileId).metadata);
+    },
+
+    async downloadFile(fileId) {
+      return Buffer.from(getStoredFile(fileId).content);
+    },
+
+    async exportFile(fileId) {
+      return getStoredFile(fileId).content.toString('utf-8');
+    },
+
+    async listFolderFiles(folderId, maxResults) {
+      return [...files.values()]
+        .map(f => f.metadata)
+        .filter(m => m.parents?.includes(folderId))
+        .sort((a, b) => b.createdTime.localeCompare(a.createdTime))
+        .slice(0, maxResults)
+        .map(m => structuredClone(m));
+    },
+
+    async watchFolder(folderId, channel) {
+      const resourceId = `resource-${folderId}`;
+      channels.set(channel.id, { folderId, address: channel.address, resourceId });
+      return { resourceId };
+    },
+
+    async stopChannel(channelId) {
+      channels.delete(channelId);
+    }
+  };
+}
@@ -0,0 +1,233 @@
+import { FieldValue } from '@google-cloud/firestore';
+import type { DocumentData, WhereFilterOp, OrderByDirection } from '@google-cloud/firestore';
+import type {
+  FirestoreAdapter,
+  FirestoreCollection,
+  FirestoreQuery,
+  FirestoreDocumentRef,
+  FirestoreDocumentSnapshot,
+  FirestoreQuerySnapshot
+} from '../types.js';
+
+interface QueryState {
+  filters: Array<{ field: string; op: WhereFilterOp; value: unknown }>;
+  order: Array<{ field: string; direction: OrderByDirection }>;
+  limit?: number;
+}
+
+export interface MemoryFirestore extends FirestoreAdapter {
+  /** Snapshot of every stored document, keyed by collection then document ID */
+  dump(): Record<string, Record<string, DocumentData>>;
+}
+
+/**
+ * In-memory Firestore covering the queries the services run:
+ * equality/range filters, single-field ordering, limits, transactions and batches.
+ * Transactions run directly against the store (there is no contention locally).
+ */
+export function createMemoryFirestore(): MemoryFirestore {
+  const collections = new Map<string, Map<string, DocumentData>>();
+
+  function getCollection(path: string): Map<string, DocumentData> {
+    let docs = collections.get(path);
+    if (!docs) {
+      docs = new Map();
+      collections.set(path, docs);
+    }
+    return docs;
+  }
+
+  function docRef(path: string, id: string): FirestoreDocumentRef {
+    const ref: FirestoreDocumentRef = {
+      id,
+      async get() {
+        return snapshot(ref, getCollection(path).get(id));
+      },
+      async set(data, options) {
+        const docs = getCollection(path);
+        const base = options?.merge ? docs.get(id) || {} : {};
+        docs.set(id, applyFields(base, data));
+      },
+      async update(data) {
+        const docs = getCollection(path);
+        const existing = docs.get(id);
+        if (!existing) {
+          throw new Error(`No document to update: ${path}/${id}`);
+        }
+        docs.set(id, applyFields(existing, data));
+      },
+      async delete() {
+        getCollection(path).delete(id);
+      }
+    };
+    return ref;
+  }
+
+  function query(path: string, state: QueryState): FirestoreQuery {
+    return {
+      where(field, op, value) {
+        return query(path, { ...state, filters: [...state.filters, { field, op, value }] });
+      },
+      orderBy(field, direction = 'asc') {
+        return query(path, { ...state, order: [...state.order, { field, direction }] });
+      },
+      limit(limit) {
+        return query(path, { ...state, limit });
+      },
+      async get() {
+        return runQuery(path, state);
+      }
+    };
+  }
+
+  function runQuery(path: string, state: QueryState): FirestoreQuerySnapshot {
+    let entries = [...getCollection(path).entries()]
+      .filter(([, data]) => state.filters.every(f => matchesFilter(getField(data, f.field), f.op, f.value)));
+
+    for (const { field, direction } of [...state.order].reverse()) {
+      // Firestore drops documents that lack an ordered field
+      entries = entries
+        .filter(([, data]) => getField(data, field) !== undefined)
+        .sort(([, a], [, b]) => {
+          const diff = compareValues(getField(a, field), getField(b, field));
+          return direction === 'desc' ? -diff : diff;
+        });
+    }
+
+    if (state.limit !== undefined) {
+      entries = entries.slice(0, state.limit);
+    }
+
+    const docs = entries.map(([id, data]) => snapshot(docRef(path, id), data));
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+
+  return {
+    collection(path): FirestoreCollection {
+      return {
+        ...query(path, { filters: [], order: [] }),
+        doc: (id: string) => docRef(path, id)
+      };
+    },
+
+    async runTransaction(updateFunction) {
+      return updateFunction({
+        get: (ref) => ref.get(),
+        update: (ref, data) => ref.update(data)
+      });
+    },
+
+    batch() {
+      const pending: Array<() => Promise<unknown>> = [];
+      return {
+        delete(ref) {
+          pending.push(() => ref.delete());
+        },
+        async commit() {
+          for (const op of pending) {
+            await op();
+          }
+        }
+      };
+    },
+
+    dump() {
+      const result: Record<string, Record<string, DocumentData>> = {};
+      for (const [path, docs] of collections) {
+        result[path] = Object.fromEntries([...docs].map(([id, data]) => [id, structuredClone(data)]));
+      }
+      return result;
+    }
+  };
+}
+
+function snapshot(ref: FirestoreDocumentRef, data: DocumentData | undefined): FirestoreDocumentSnapshot {
+  return {
+    id: ref.id,
+    exists: data !== undefined,
+    ref,
+    data: () => (data === undefined ? undefined : structuredClone(data))
+  };
+}
+
+/**
+ * Merge top-level fields into a document, resolving FieldValue sentinels.
+ */
+function applyFields(base: DocumentData, data: DocumentData): DocumentData {
+  const result = structuredClone(base);
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof FieldValue && value.isEqual(FieldValue.delete())) {
+      delete result[key];
+    } else {
+      result[key] = resolveValue(value);
+    }
+  }
+
+  return result;
+}
+
+function resolveValue(value: unknown): unknown {
+  if (value instanceof FieldValue) {
+    if (value.isEqual(FieldValue.serverTimestamp())) {
+      return new Date();
+    }
+    throw new Error('Unsupported FieldValue in the in-memory Firestore');
+  }
+  if (Array.isArray(value)) {
+    return value.map(resolveValue);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveValue(v)]));
+  }
+  return structuredClone(value);
+}
+
+function getField(data: DocumentData, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], data);
+}
+
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof (value as any).toMillis === 'function') return (value as any).toMillis();
+  return value;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const x = toComparable(a) as any;
+  const y = toComparable(b) as any;
+  if (x === y) return 0;
+  return x < y ? -1 : 1;
+}
+
+function matchesFilter(fieldValue: unknown, op: WhereFilterOp, value: unknown): boolean {
+  if (fieldValue === undefined) {
+    return false;
+  }
+
+  switch (op) {
+    case '==':
+      return compareValues(fieldValue, value) === 0;
+    case '!=':
+      return compareValues(fieldValue, value) !== 0;
+    case '<':
+      return compareValues(fieldValue, value) < 0;
+    case '<=':
+      return compareValues(fieldValue, value) <= 0;
+    case '>':
+      return compareValues(fieldValue, value) > 0;
+    case '>=':
+      return compareValues(fieldValue, value) >= 0;
+    case 'in':
+      return (value as unknown[]).some(v => compareValues(fieldValue, v) === 0);
+    case 'not-in':
+      return !(value as unknown[]).some(v => compareValues(fieldValue, v) === 0);
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.some(v => compareValues(v, value) === 0);
+    case 'array-contains-any':
+      return Array.isArray(fieldValue) &&
+        fieldValue.some(v => (value as unknown[]).some(w => compareValues(v, w) === 0));
+    default:
+      throw new Error(`Unsupported filter operator in the in-memory Firestore: ${op}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { createMemoryFirestore, type MemoryFirestore } from './firestore.js';
+import { createMemoryDrive, type MemoryDrive } from './drive.js';
+import { createMemoryChat, type MemoryChat } from './chat.js';
+import { createMemoryClickUp, type MemoryClickUp } from './clickup.js';
+import { createMemoryPubSub, type MemoryPubSub } from './pubsub.js';
+import type { ClickUpMember } from '../../types/index.js';
+import type { Adapters } from '../types.js';
+
+export { createMemoryFirestore, createMemoryDrive, createMemoryChat, createMemoryClickUp, createMemoryPubSub };
+export type { MemoryFirestore, MemoryDrive, MemoryChat, MemoryClickUp, MemoryPubSub };
+
+export interface MemoryEnvironment {
+  /** Pass to setAdapters() */
+  adapters: Adapters;
+  firestore: MemoryFirestore;
+  drive: MemoryDrive;
+  chat: MemoryChat;
+  clickup: MemoryClickUp;
+  pubsub: MemoryPubSub;
+}
+
+/**
+ * Create a full set of in-memory adapters sharing no state with any other set.
+ */
+export function createMemoryEnvironment(options: {
+  workspaceId: string;
+  members?: ClickUpMember[];
+}): MemoryEnvironment {
+  const firestore = createMemoryFirestore();
+  const drive = createMemoryDrive();
+  const chat = createMemoryChat();
+  const clickup = createMemoryClickUp(options);
+  const pubsub = createMemoryPubSub();
+
+  return {
+    adapters: { firestore, drive, chat, clickup: clickup.client, pubsub },
+    firestore,
+    drive,
+    chat,
+    clickup,
+    pubsub
+  };
+}
@@ -0,0 +1,37 @@
+import type { PubSubAdapter } from '../types.js';
+
+type Subscriber = (data: object) => Promise<void> | void;
+
+export interface MemoryPubSub extends PubSubAdapter {
+  /** Deliver every message published to a topic to the handler */
+  subscribe(topic: string, handler: Subscriber): void;
+  readonly published: Array<{ topic: string; messageId: string; data: object }>;
+}
+
+/**
+ * In-memory Pub/Sub. Delivery is synchronous: publish() resolves once all
+ * subscribers have handled the message, so local runs finish deterministically.
+ */
+export function createMemoryPubSub(): MemoryPubSub {
+  const subscribers = new Map<string, Subscriber[]>();
+  const published: Array<{ topic: string; messageId: string; data: object }> = [];
+
+  return {
+    published,
+
+    subscribe(topic, handler) {
+      subscribers.set(topic, [...(subscribers.get(topic) || []), handler]);
+    },
+
+    async publish(topic, data) {
+      const messageId = String(published.length + 1);
+      published.push({ topic, messageId, data });
+
+      for (const handler of subscribers.get(topic) || []) {
+        await handler(data);
+      }
+
+      return messageId;
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import type { AxiosInstance } from 'axios';
+import type { DocumentData, WhereFilterOp, OrderByDirection } from '@google-cloud/firestore';
+import type { DriveFileMetadata } from '../types/index.js';
+
+/**
+ * The subset of the Firestore client the services use.
+ * The real `Firestore` class satisfies this structurally.
+ */
+export interface FirestoreAdapter {
+  collection(path: string): FirestoreCollection;
+  runTransaction<T>(updateFunction: (transaction: FirestoreTransaction) => Promise<T>): Promise<T>;
+  batch(): FirestoreBatch;
+}
+
+export interface FirestoreQuery {
+  where(fieldPath: string, opStr: WhereFilterOp, value: unknown): FirestoreQuery;
+  orderBy(fieldPath: string, directionStr?: OrderByDirection): FirestoreQuery;
+  limit(limit: number): FirestoreQuery;
+  get(): Promise<FirestoreQuerySnapshot>;
+}
+
+export interface FirestoreCollection extends FirestoreQuery {
+  doc(documentPath: string): FirestoreDocumentRef;
+}
+
+export interface FirestoreDocumentRef {
+  readonly id: string;
+  get(): Promise<FirestoreDocumentSnapshot>;
+  set(data: DocumentData, options?: { merge?: boolean }): Promise<unknown>;
+  update(data: DocumentData): Promise<unknown>;
+  delete(): Promise<unknown>;
+}
+
+export interface FirestoreDocumentSnapshot {
+  readonly id: string;
+  readonly exists: boolean;
+  readonly ref: FirestoreDocumentRef;
+  data(): DocumentData | undefined;
+}
+
+export interface FirestoreQuerySnapshot {
+  readonly docs: FirestoreDocumentSnapshot[];
+  readonly empty: boolean;
+  readonly size: number;
+}
+
+export interface FirestoreTransaction {
+  get(documentRef: FirestoreDocumentRef): Promise<FirestoreDocumentSnapshot>;
+  update(documentRef: FirestoreDocumentRef, data: DocumentData): unknown;
+}
+
+export interface FirestoreBatch {
+  delete(documentRef: FirestoreDocumentRef): unknown;
+  commit(): Promise<unknown>;
+}
+
+/**
+ * Drive operations used by driveService.
+ */
+export interface DriveAdapter {
+  getFileMetadata(fileId: string): Promise<DriveFileMetadata>;
+  /** Download a binary/text file's raw bytes */
+  downloadFile(fileId: string): Promise<Buffer>;
+  /** Export a Google Workspace document to the given MIME type */
+  exportFile(fileId: string, mimeType: string): Promise<string>;
+  /** List non-trashed files in a folder, newest first */
+  listFolderFiles(folderId: string, maxResults: number): Promise<DriveFileMetadata[]>;
+  watchFolder(folderId: string, channel: {
+    id: string;
+    address: string;
+    expiration: number;
+  }): Promise<{ resourceId?: string }>;
+  stopChannel(channelId: string, resourceId?: string): Promise<void>;
+}
+
+/**
+ * Google Chat operations used by chatService.
+ */
+export interface ChatAdapter {
+  createMessage(parent: string, message: any): Promise<void>;
+  /** Returns the DM space name, or null when there is no DM with the user */
+  findDirectMessage(userName: string): Promise<string | null>;
+}
+
+/**
+ * Pub/Sub publishing used by the Drive watcher functions.
+ */
+export interface PubSubAdapter {
+  publish(topic: string, data: object): Promise<string>;
+}
+
+/**
+ * ClickUp is reached through an axios instance, so the in-memory version
+ * only needs to swap the axios transport.
+ */
+export type ClickUpAdapter = AxiosInstance;
+
+export interface Adapters {
+  firestore: FirestoreAdapter;
+  drive: DriveAdapter;
+  chat: ChatAdapter;
+  clickup: ClickUpAdapter;
+  pubsub: PubSubAdapter;
+}
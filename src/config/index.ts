@@ -1,13 +1,21 @@
 import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import type { AppConfig, FoldersConfiguration } from '../types/index.js';
+import type { AppConfig, FoldersConfiguration, LLMProviderName } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Resolve a path relative to the config/ directory (e.g. a holiday calendar file).
+ * Absolute paths are returned unchanged.
+ */
+export function getConfigPath(filename: string): string {
+  return resolve(__dirname, '../../config', filename);
+}
+
 function loadJsonConfig<T>(filename: string): T {
-  const configPath = join(__dirname, '../../config', filename);
+  const configPath = getConfigPath(filename);
   const content = readFileSync(configPath, 'utf-8');
   return JSON.parse(content) as T;
 }
@@ -41,6 +49,23 @@ export function getOpenAIApiKey(): string {
   return getEnvVar('OPENAI_API_KEY');
 }
 
+/**
+ * Get the API key for an LLM provider.
+ * OpenAI-compatible local endpoints often need no key, so it defaults to empty.
+ */
+export function getLLMApiKey(provider: LLMProviderName): string {
+  switch (provider) {
+    case 'azure-openai':
+      return getEnvVar('AZURE_OPENAI_API_KEY');
+    case 'anthropic':
+      return getEnvVar('ANTHROPIC_API_KEY');
+    case 'openai-compatible':
+      return getEnvVar('LLM_API_KEY', '');
+    default:
+      return getOpenAIApiKey();
+  }
+}
+
 export function getClickUpApiKey(): string {
   return getEnvVar('CLICKUP_API_KEY');
 }
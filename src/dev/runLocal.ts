@@ -0,0 +1,343 @@
+/**
+ * Local pipeline harness - runs the whole bot without GCP, ClickUp or an LLM key.
+ *
+ * Drops a transcript file into an in-memory Drive folder, publishes it to an
+ * in-memory Pub/Sub topic (which runs processTranscript), prints the approval
+ * cards that would have been sent to Chat, then reads commands from stdin to
+ * simulate button clicks and messages against handleChatInteraction.
+ *
+ * Usage:
+ *   npm run dev:local -- <transcript-file> [--folder <folderId>] [--owner <email>] [--members <file.json>]
+ *
+ * Extraction uses LLM replay mode unless LLM_MODE is set.
+ */
+import { readFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline';
+import type { Request, Response } from 'express';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { setAdapters } from '../adapters/index.js';
+import { createMemoryEnvironment, type MemoryEnvironment } from '../adapters/memory/index.js';
+import { processTranscript } from '../functions/processTranscript.js';
+import { handleChatInteraction } from '../functions/handleChatInteraction.js';
+import { getAllFolderConfigs } from '../utils/folderConfigResolver.js';
+import { appConfig, foldersConfig } from '../config/index.js';
+import type { ClickUpMember } from '../types/index.js';
+
+// Workspace members used when no --members file is given.
+// Names match the speakers in the sample transcripts under test/fixtures.
+const DEMO_MEMBERS: ClickUpMember[] = [
+  { id: 1001, username: 'Ahmed Khan', email: 'ahmed@example.com' },
+  { id: 1002, username: 'Sara Ali', email: 'sara@example.com' },
+  { id: 1003, username: 'Fahad Malik', email: 'fahad@example.com' },
+  { id: 1004, username: 'Local Developer', email: 'dev@example.com' }
+];
+
+const HELP_TEXT = `Commands:
+  buttons              List the buttons on the current card
+  click <n>            Click button n (sends CARD_CLICKED with the card's form values)
+  set <input> <value>  Change a form input before clicking, e.g. "set title_0 Ship the release"
+  inputs               Show the form values that will be sent with the next click
+  say <text>           Send a chat message to the bot, e.g. "say status" or "say tasks"
+  card                 Print the current card JSON
+  clickup              Show tasks and comments in the in-memory ClickUp
+  firestore            Dump the in-memory Firestore
+  help                 Show this help
+  quit                 Exit (end of input also exits)`;
+
+interface CardButton {
+  label: string;
+  parameters: Record<string, string>;
+}
+
+type FormInputs = Record<string, { stringInputs: { value: string[] } }>;
+
+interface HarnessOptions {
+  transcriptPath: string;
+  folderId: string;
+  ownerEmail: string;
+  members: ClickUpMember[];
+}
+
+function parseArgs(argv: string[]): HarnessOptions {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      flags[argv[i].slice(2)] = argv[++i] ?? '';
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  if (!positional[0]) {
+    console.error('Usage: npm run dev:local -- <transcript-file> [--folder <folderId>] [--owner <email>] [--members <file.json>]');
+    process.exit(1);
+  }
+
+  return {
+    transcriptPath: resolve(positional[0]),
+    folderId: flags.folder || getAllFolderConfigs()[0]?.id || 'local-folder',
+    ownerEmail: flags.owner || 'dev@example.com',
+    members: flags.members
+      ? JSON.parse(readFileSync(resolve(flags.members), 'utf-8')) as ClickUpMember[]
+      : DEMO_MEMBERS
+  };
+}
+
+/**
+ * Register every configured ClickUp list so list lookups and task creation succeed.
+ */
+function seedClickUpLists(env: MemoryEnvironment): void {
+  env.clickup.addList(foldersConfig.clickupListId, 'Meeting Tasks');
+
+  for (const rule of foldersConfig.routingRules || []) {
+    env.clickup.addList(rule.clickupListId, rule.name);
+  }
+
+  for (const folder of getAllFolderConfigs()) {
+    if (folder.clickupListId) {
+      env.clickup.addList(folder.clickupListId, folder.name);
+    }
+    for (const rule of folder.routingRules || []) {
+      env.clickup.addList(rule.clickupListId, rule.name);
+    }
+  }
+}
+
+/**
+ * Build the CloudEvent Eventarc delivers for a Pub/Sub message.
+ */
+function toPubSubCloudEvent(data: object): CloudEvent<{ message: { data: string } }> {
+  return {
+    specversion: '1.0',
+    id: randomUUID(),
+    source: `//pubsub.googleapis.com/projects/local/topics/${appConfig.gcp.pubsubTopic}`,
+    type: 'google.cloud.pubsub.topic.v1.messagePublished',
+    data: {
+      message: { data: Buffer.from(JSON.stringify(data)).toString('base64') }
+    }
+  } as unknown as CloudEvent<{ message: { data: string } }>;
+}
+
+/**
+ * Call handleChatInteraction with a fake request and capture the JSON response.
+ */
+async function sendChatEvent(body: object): Promise<any> {
+  let responseBody: any;
+
+  const res = {
+    setHeader: () => res,
+    status: () => res,
+    json: (payload: any) => { responseBody = payload; return res; },
+    send: (payload: any) => { responseBody = payload; return res; }
+  };
+
+  await handleChatInteraction(
+    { body, headers: {}, query: {} } as unknown as Request,
+    res as unknown as Response
+  );
+
+  return responseBody;
+}
+
+/**
+ * Unwrap the Workspace Add-ons response to the Chat message inside it.
+ */
+function unwrapMessage(response: any): any {
+  return response?.hostAppDataAction?.chatDataAction?.createMessageAction?.message ?? response;
+}
+
+/**
+ * Collect the action buttons on a card, in display order.
+ */
+function findButtons(node: any, buttons: CardButton[] = []): CardButton[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findButtons(child, buttons));
+  } else if (node && typeof node === 'object') {
+    const parameters = node.onClick?.action?.parameters;
+    if (typeof node.text === 'string' && Array.isArray(parameters)) {
+      buttons.push({
+        label: node.text,
+        parameters: Object.fromEntries(parameters.map((p: any) => [p.key, p.value]))
+      });
+    }
+    Object.values(node).forEach(child => findButtons(child, buttons));
+  }
+  return buttons;
+}
+
+/**
+ * Read the initial form values off a card, as Chat would submit them.
+ */
+function findFormInputs(node: any, inputs: FormInputs = {}): FormInputs {
+  if (Array.isArray(node)) {
+    node.forEach(child => findFormInputs(child, inputs));
+  } else if (node && typeof node === 'object') {
+    const { textInput, selectionInput, dateTimePicker } = node;
+
+    if (textInput?.name && textInput.value !== undefined) {
+      inputs[textInput.name] = { stringInputs: { value: [String(textInput.value)] } };
+    }
+    if (selectionInput?.name) {
+      const selected = (selectionInput.items || []).filter((i: any) => i.selected).map((i: any) => String(i.value));
+      if (selected.length > 0) {
+        inputs[selectionInput.name] = { stringInputs: { value: selected } };
+      }
+    }
+    if (dateTimePicker?.name && dateTimePicker.valueMsEpoch !== undefined) {
+      inputs[dateTimePicker.name] = { stringInputs: { value: [String(dateTimePicker.valueMsEpoch)] } };
+    }
+
+    Object.values(node).forEach(child => findFormInputs(child, inputs));
+  }
+  return inputs;
+}
+
+function printJson(label: string, value: unknown): void {
+  console.log(`\n===== ${label} =====`);
+  console.log(JSON.stringify(value, null, 2));
+}
+
+async function main(): Promise<void> {
+  process.env.LLM_MODE ??= 'replay';
+  process.env.CHAT_FUNCTION_URL ??= 'http://localhost:8080/handleChatInteraction';
+
+  const options = parseArgs(process.argv.slice(2));
+  const env = createMemoryEnvironment({
+    workspaceId: appConfig.clickup.workspaceId,
+    members: options.members
+  });
+  setAdapters(env.adapters);
+  seedClickUpLists(env);
+
+  env.pubsub.subscribe(appConfig.gcp.pubsubTopic, data => processTranscript(toPubSubCloudEvent(data)));
+
+  // Drop the transcript into the watched folder and publish it, as driveWebhook would
+  const file = env.drive.addFile({
+    folderId: options.folderId,
+    name: basename(options.transcriptPath),
+    content: readFileSync(options.transcriptPath),
+    ownerEmail: options.ownerEmail
+  });
+  console.log(`Added ${file.name} to folder ${options.folderId} as ${file.id} (LLM mode: ${process.env.LLM_MODE})`);
+
+  await env.pubsub.publish(appConfig.gcp.pubsubTopic, { fileId: file.id, folderId: options.folderId });
+
+  if (env.chat.sent.length === 0) {
+    console.log('\nNo approval cards were sent (see the log above for why).');
+  }
+  for (const sent of env.chat.sent) {
+    printJson(`Card sent to ${sent.parent}`, sent.message);
+  }
+
+  // The card a user would be looking at: the approval card sent to the owner, or the latest one
+  let currentCard = (env.chat.sent.find(s => s.parent.endsWith(options.ownerEmail)) ?? env.chat.sent.at(-1))?.message;
+  let formInputs: FormInputs = findFormInputs(currentCard);
+  const spaceName = `spaces/dm-${options.ownerEmail}`;
+  const user = { name: `users/${options.ownerEmail}`, email: options.ownerEmail, displayName: 'Local Developer' };
+
+  const showResponse = (response: any): void => {
+    const message = unwrapMessage(response);
+    printJson('Response', response);
+    // Chat keeps the original card; only move to a new one if it has its own actions
+    if (message?.cardsV2 && findButtons(message).length > 0) {
+      currentCard = message;
+      formInputs = findFormInputs(currentCard);
+    }
+  };
+
+  console.log(`\n${HELP_TEXT}\n`);
+
+  const rl = createInterface({ input: process.stdin, terminal: false });
+
+  for await (const line of rl) {
+    const [command, ...rest] = line.trim().split(/\s+/);
+    const argText = line.trim().slice(command.length).trim();
+
+    switch (command) {
+      case '':
+        break;
+
+      case 'buttons':
+        findButtons(currentCard).forEach((b, i) =>
+          console.log(`  [${i}] ${b.label}  ${JSON.stringify(b.parameters)}`));
+        break;
+
+      case 'click': {
+        const button = findButtons(currentCard)[parseInt(rest[0], 10)];
+        if (!button) {
+          console.log('No such button. Type "buttons" to list them.');
+          break;
+        }
+        console.log(`> Clicking "${button.label}"`);
+        showResponse(await sendChatEvent({
+          chat: {
+            user,
+            buttonClickedPayload: { space: { name: spaceName, type: 'DM' }, message: currentCard }
+          },
+          commonEventObject: { parameters: button.parameters, formInputs }
+        }));
+        break;
+      }
+
+      case 'set': {
+        const [name, ...valueParts] = rest;
+        if (!name) {
+          console.log('Usage: set <input> <value>');
+          break;
+        }
+        formInputs[name] = { stringInputs: { value: [valueParts.join(' ')] } };
+        console.log(`${name} = ${valueParts.join(' ')}`);
+        break;
+      }
+
+      case 'inputs':
+        printJson('Form inputs', Object.fromEntries(
+          Object.entries(formInputs).map(([name, input]) => [name, input.stringInputs.value])
+        ));
+        break;
+
+      case 'say':
+        showResponse(await sendChatEvent({
+          chat: {
+            user,
+            messagePayload: { space: { name: spaceName, type: 'DM' }, message: { text: argText } }
+          }
+        }));
+        break;
+
+      case 'card':
+        printJson('Current card', currentCard);
+        break;
+
+      case 'clickup':
+        printJson('ClickUp tasks', [...env.clickup.state.tasks.values()]);
+        printJson('ClickUp comments', env.clickup.state.comments);
+        break;
+
+      case 'firestore':
+        printJson('Firestore', env.firestore.dump());
+        break;
+
+      case 'help':
+        console.log(HELP_TEXT);
+        break;
+
+      case 'quit':
+      case 'exit':
+        rl.close();
+        return;
+
+      default:
+        console.log(`Unknown command: ${command}. Type "help" for the list.`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Local run failed:', error);
+  process.exit(1);
+});
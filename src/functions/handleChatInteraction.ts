@@ -3,16 +3,58 @@ import {
   getPendingTasks,
   updateTaskDetails,
   markTaskAsCreated,
+  markTaskAsLinked,
   markTaskAsDismissed,
   updatePendingTasksStatus,
   getUserPendingTasks,
-  getPendingTasksStats
+  getPendingTasksStats,
+  saveLearnedAlias,
+  saveSpeakerMapping,
+  markMeetingItemAsCreated,
+  isTaskResolved
 } from '../services/firestoreService.js';
-import { createTask, getListDetails } from '../services/clickupService.js';
-import { cacheDMSpace } from '../services/chatService.js';
-import { getAllFolderConfigs } from '../utils/folderConfigResolver.js';
+import {
+  createTask,
+  getListDetails,
+  getTask,
+  addTaskComment,
+  getWorkspaceMembers
+} from '../services/clickupService.js';
+import {
+  cacheDMSpace,
+  buildTaskApprovalMessage,
+  buildMeetingItemSections,
+  hasUnconvertedMeetingItems
+} from '../services/chatService.js';
+import {
+  getAllFolderConfigs,
+  getClickUpListId,
+  getUserTimezone,
+  getStepsMode,
+  hasUserTimezones,
+  resolveClickUpList
+} from '../utils/folderConfigResolver.js';
 import { getChatFunctionUrl } from '../config/index.js';
-import type { ChatCardInteraction, TaskPriority } from '../types/index.js';
+import { formatRecurrence, parseRecurrenceValue } from '../utils/recurrence.js';
+import { buildTeamDirectory, findTeamMember, normalizeName } from '../utils/teamDirectory.js';
+import { recheckUnknownAssignees } from '../utils/sourceVerifier.js';
+import type {
+  ChatCardInteraction,
+  TaskPriority,
+  PendingTasksData,
+  ClickUpMember,
+  AssigneeResolution,
+  ExtractedTaskWithConfig,
+  SpeakerMapping,
+  MeetingItem,
+  MeetingItemKind
+} from '../types/index.js';
+
+// Meeting items a reviewer can turn into a task, and how their tasks are titled and prioritized
+const CONVERTIBLE_ITEMS: Partial<Record<MeetingItemKind, { label: string; titlePrefix: string; priority: TaskPriority }>> = {
+  blockers: { label: 'Blocker', titlePrefix: 'Unblock:', priority: 'high' },
+  open_questions: { label: 'Open question', titlePrefix: 'Answer:', priority: 'normal' }
+};
 
 /**
  * Wrap a message in the Google Workspace Add-ons response format.
@@ -195,8 +237,24 @@ async function handleStatusCommand(res: Response): Promise<void> {
     const folders = getAllFolderConfigs();
     const stats = await getPendingTasksStats();
 
+    // Resolve list names once per distinct list (several folders may share one)
+    const listIds = [...new Set(folders.map(f => getClickUpListId(f)))];
+    const listNames = new Map<string, string>();
+    await Promise.all(listIds.map(async listId => {
+      try {
+        const details = await getListDetails(listId);
+        listNames.set(listId, details.name);
+      } catch (error) {
+        console.warn(`Could not load ClickUp list ${listId}:`, error instanceof Error ? error.message : error);
+      }
+    }));
+
     const folderList = folders
-      .map(f => `• 📁 *${f.name}* — prefix: \`${f.taskPrefix || '(none)'}\``)
+      .map(f => {
+        const listId = getClickUpListId(f);
+        const listLabel = listNames.has(listId) ? `${listNames.get(listId)} (\`${listId}\`)` : `\`${listId}\``;
+        return `• 📁 *${f.name}* — prefix: \`${f.taskPrefix || '(none)'}\` → list: ${listLabel}`;
+      })
       .join('\n');
 
     const statusText = [
@@ -239,15 +297,17 @@ async function handleRecentCommand(res: Response): Promise<void> {
 
     const meetingLines = pendingTasks.map(ts => {
       const totalTasks = ts.tasks.length;
-      const created = ts.tasks.filter((t: any) => t.clickupTaskId).length;
-      const dismissed = ts.tasks.filter((t: any) => t.dismissed).length;
-      const pending = totalTasks - created - dismissed;
+      const created = ts.tasks.filter(t => t.clickupTaskId).length;
+      const linked = ts.tasks.filter(t => t.linkedTaskId).length;
+      const dismissed = ts.tasks.filter(t => t.dismissed).length;
+      const pending = totalTasks - created - linked - dismissed;
 
       let statusEmoji = '⏳';
       if (pending === 0) statusEmoji = '✅';
-      else if (created > 0 || dismissed > 0) statusEmoji = '🔄';
+      else if (created > 0 || linked > 0 || dismissed > 0) statusEmoji = '🔄';
 
-      return `${statusEmoji} *${ts.meetingInfo.title}*\n   📁 ${ts.folderConfig.name} • ${totalTasks} tasks (${created} created, ${dismissed} dismissed, ${pending} pending)`;
+      const linkedText = linked > 0 ? `, ${linked} commented` : '';
+      return `${statusEmoji} *${ts.meetingInfo.title}*\n   📁 ${ts.folderConfig.name} • ${totalTasks} tasks (${created} created${linkedText}, ${dismissed} dismissed, ${pending} pending)`;
     });
 
     res.setHeader('Content-Type', 'application/json');
@@ -278,23 +338,24 @@ async function showPendingTasks(
       return false;
     }
 
-    // Find the first pending task set that has active (non-dismissed, non-created) tasks
+    // Find the first pending task set that has active (non-dismissed, non-created) tasks,
+    // or blockers and open questions that can still be turned into tasks
     let mostRecent: (typeof pendingTasks)[0] | null = null;
-    let activeTasks: any[] = [];
+    let activeTasks: Array<ExtractedTaskWithConfig & { _originalIndex: number }> = [];
 
     for (const taskSet of pendingTasks) {
       const active = taskSet.tasks
-        .map((t: any, originalIndex: number) => ({ ...t, _originalIndex: originalIndex }))
-        .filter((t: any) => !t.dismissed && !t.clickupTaskId);
+        .map((t, originalIndex) => ({ ...t, _originalIndex: originalIndex }))
+        .filter(t => !isTaskResolved(t));
 
-      if (active.length > 0) {
+      if (active.length > 0 || hasUnconvertedMeetingItems(taskSet.analysis)) {
         mostRecent = taskSet;
         activeTasks = active;
         break;
       }
     }
 
-    if (!mostRecent || activeTasks.length === 0) {
+    if (!mostRecent) {
       console.log('All pending task sets have been fully resolved');
       return false;
     }
@@ -341,19 +402,22 @@ async function showPendingTasks(
           title: `📋 ${mostRecent.meetingInfo.title}`,
           subtitle: `📁 ${mostRecent.folderConfig.name}`
         },
-        sections: [{ widgets: headerWidgets }]
+        sections: [
+          { widgets: headerWidgets },
+          ...(mostRecent.analysis ? buildMeetingItemSections(mostRecent.analysis, mostRecent.id) : [])
+        ]
       }
     });
 
     // Task cards with action buttons
-    activeTasks.slice(0, 5).forEach((t: any) => {
+    activeTasks.slice(0, 5).forEach(t => {
       const i = t._originalIndex;
       cards.push({
         cardId: `task_${i}`,
         card: {
           header: {
             title: `Task ${i + 1}: ${t.title.substring(0, 40)}${t.title.length > 40 ? '...' : ''}`,
-            subtitle: `Priority: ${t.priority} | ${t.suggested_assignee || 'Unassigned'}`
+            subtitle: `Priority: ${t.priority} | ${t.suggested_assignees?.join(', ') || 'Unassigned'}`
           },
           sections: [
             {
@@ -381,6 +445,20 @@ async function showPendingTasks(
                           }
                         }
                       },
+                      ...(t.possibleDuplicate ? [{
+                        text: '💬 Comment on Existing',
+                        onClick: {
+                          action: {
+                            function: FUNCTION_URL,
+                            parameters: [
+                              { key: 'actionName', value: 'commentOnExisting' },
+                              { key: 'pendingId', value: mostRecent!.id },
+                              { key: 'taskIndex', value: i.toString() },
+                              { key: 'existingTaskId', value: t.possibleDuplicate.clickupTaskId }
+                            ]
+                          }
+                        }
+                      }] : []),
                       {
                         text: '❌ Dismiss',
                         onClick: {
@@ -405,7 +483,9 @@ async function showPendingTasks(
     });
 
     const cardResponse = {
-      text: `Found ${activeTasks.length} pending tasks from ${mostRecent.meetingInfo.title}`,
+      text: activeTasks.length > 0
+        ? `Found ${activeTasks.length} pending tasks from ${mostRecent.meetingInfo.title}`
+        : `Found open items from ${mostRecent.meetingInfo.title}`,
       cardsV2: cards
     };
 
@@ -473,6 +553,10 @@ async function handleCardClick(
       await handleDismissTask(params, res);
       break;
 
+    case 'commentOnExisting':
+      await handleCommentOnExisting(params, formInputs, res);
+      break;
+
     case 'createAllTasks':
       await handleCreateAllTasks(params, formInputs, spaceName, res);
       break;
@@ -481,6 +565,14 @@ async function handleCardClick(
       await handleDismissAllTasks(params, res);
       break;
 
+    case 'mapSpeakers':
+      await handleMapSpeakers(params, formInputs, res);
+      break;
+
+    case 'createTaskFromItem':
+      await handleCreateTaskFromItem(params, res);
+      break;
+
     default:
       console.warn(`Unknown action: ${actionName}`);
       res.json({});
@@ -520,33 +612,18 @@ async function handleCreateTask(
     await updateTaskDetails(pendingId, index, updatedTask);
 
     // Create the task in ClickUp
-    // Parse assignee ID - form dropdowns return numeric IDs, but OpenAI returns names
-    let assigneeId: number | undefined;
-    if (updatedTask.suggested_assignee) {
-      const parsed = parseInt(updatedTask.suggested_assignee, 10);
-      if (!isNaN(parsed)) {
-        assigneeId = parsed;
-      }
-      // If it's a name (NaN), skip - the user can assign later in ClickUp
-    }
-
-    // Build rich description with meeting context
-    const descriptionParts = [updatedTask.description || updatedTask.title];
-    descriptionParts.push('');
-    descriptionParts.push(`---`);
-    descriptionParts.push(`📋 Meeting: ${pending.meetingInfo.title}`);
-    descriptionParts.push(`📅 Date: ${pending.meetingInfo.date}`);
-    descriptionParts.push(`📁 Folder: ${pending.folderConfig.name}`);
-    if (updatedTask.source_quote && !updatedTask.source_quote.includes('[Confidential')) {
-      descriptionParts.push(`💬 Source: "${updatedTask.source_quote}"`);
-    }
-    descriptionParts.push(`🤖 Extraction: ${updatedTask.extraction_type} (${Math.round(updatedTask.confidence * 100)}% confidence)`);
+    const assigneeIds = parseMemberIds(updatedTask.suggested_assignees);
+    const watcherNames = await getWatcherNames(updatedTask.stakeholders);
 
     const clickupTask = await createTask(task.clickupListId, {
       name: updatedTask.title,
-      description: descriptionParts.join('\n'),
-      assigneeId,
+      description: buildTaskDescription(updatedTask, pending, watcherNames),
+      assigneeIds,
       dueDate: updatedTask.suggested_due || undefined,
+      timeZone: await getDueTimeZone(assigneeIds[0], pending),
+      recurrence: updatedTask.recurrence,
+      steps: updatedTask.steps,
+      stepsMode: getStepsMode(pending.folderConfig),
       priority: updatedTask.priority,
       extractionType: updatedTask.extraction_type,
       sourceFolder: pending.folderConfig.name
@@ -554,6 +631,7 @@ async function handleCreateTask(
 
     // Mark task as created
     await markTaskAsCreated(pendingId, index, clickupTask.id);
+    await learnAssigneeAliases(task, assigneeIds, pending);
 
     // Get list name for confirmation
     const listDetails = await getListDetails(task.clickupListId);
@@ -585,6 +663,26 @@ async function handleCreateTask(
                       text: listDetails.name
                     }
                   },
+                  ...(updatedTask.recurrence ? [{
+                    decoratedText: {
+                      topLabel: 'Repeats',
+                      text: `🔁 ${formatRecurrence(updatedTask.recurrence)}`
+                    }
+                  }] : []),
+                  ...(updatedTask.steps?.length ? [{
+                    decoratedText: {
+                      topLabel: getStepsMode(pending.folderConfig) === 'subtasks' ? 'Subtasks' : 'Checklist',
+                      text: updatedTask.steps.map((step: string) => `• ${step}`).join('\n'),
+                      wrapText: true
+                    }
+                  }] : []),
+                  ...(watcherNames.length > 0 ? [{
+                    decoratedText: {
+                      topLabel: '⚠️ Watchers not added',
+                      text: `${watcherNames.join(', ')}: ClickUp's API can't add watchers. Add them on the task in ClickUp; they're listed in its description.`,
+                      wrapText: true
+                    }
+                  }] : []),
                   {
                     buttonList: {
                       buttons: [
@@ -615,6 +713,215 @@ async function handleCreateTask(
   }
 }
 
+/**
+ * Turn a blocker or open question from the meeting into a ClickUp task in the folder's
+ * list, assigned to its owner if they match a team member.
+ */
+async function handleCreateTaskFromItem(
+  params: Record<string, string>,
+  res: Response
+): Promise<void> {
+  const { pendingId, itemKind } = params;
+  const index = parseInt(params.itemIndex, 10);
+  const kind = itemKind as MeetingItemKind;
+  const display = CONVERTIBLE_ITEMS[kind];
+
+  if (!display) {
+    res.json(wrapResponse({ text: '❌ Only blockers and open questions can be turned into tasks.' }));
+    return;
+  }
+
+  try {
+    const pending = await getPendingTasks(pendingId);
+    if (!pending) {
+      res.json(wrapResponse({ text: '❌ Task data not found. It may have expired.' }));
+      return;
+    }
+
+    const item: MeetingItem | undefined = pending.analysis[kind]?.[index];
+    if (!item) {
+      res.json(wrapResponse({ text: `❌ ${display.label} not found.` }));
+      return;
+    }
+    if (item.clickupTaskId) {
+      res.json(wrapResponse({ text: `This ${display.label.toLowerCase()} is already a task: https://app.clickup.com/t/${item.clickupTaskId}` }));
+      return;
+    }
+
+    const members = await getWorkspaceMembers();
+    const owner = item.owner ? findTeamMember(item.owner, buildTeamDirectory(members))?.entry.member : undefined;
+    const assigneeIds = owner ? [owner.id] : [];
+    const prefix = pending.folderConfig.taskPrefix;
+    const title = `${display.titlePrefix} ${item.text}`;
+
+    const clickupListId = getClickUpListId(pending.folderConfig);
+    const clickupTask = await createTask(clickupListId, {
+      name: prefix ? `${prefix} ${title}` : title,
+      description: buildItemDescription(item, display.label, pending),
+      assigneeIds,
+      timeZone: await getDueTimeZone(assigneeIds[0], pending),
+      priority: display.priority,
+      sourceFolder: pending.folderConfig.name
+    });
+
+    await markMeetingItemAsCreated(pendingId, kind, index, clickupTask.id);
+
+    const listDetails = await getListDetails(clickupListId);
+
+    res.json(wrapResponse({
+      text: `✅ Task created: ${clickupTask.name}`,
+      cardsV2: [
+        {
+          cardId: `created_${kind}_${index}`,
+          card: {
+            header: {
+              title: '✅ Task Created Successfully',
+              subtitle: listDetails.name
+            },
+            sections: [
+              {
+                widgets: [
+                  {
+                    decoratedText: {
+                      topLabel: 'Task',
+                      text: clickupTask.name,
+                      wrapText: true
+                    }
+                  },
+                  {
+                    decoratedText: {
+                      topLabel: `From ${display.label.toLowerCase()}`,
+                      text: item.text,
+                      wrapText: true
+                    }
+                  },
+                  {
+                    decoratedText: {
+                      topLabel: 'Assignee',
+                      text: owner ? owner.username : `Unassigned${item.owner ? ` (${item.owner} not matched)` : ''}`
+                    }
+                  },
+                  {
+                    buttonList: {
+                      buttons: [
+                        {
+                          text: '🔗 View in ClickUp',
+                          onClick: {
+                            openLink: {
+                              url: clickupTask.url
+                            }
+                          }
+                        }
+                      ]
+                    }
+                  }
+                ]
+              }
+            ]
+          }
+        }
+      ]
+    }));
+  } catch (error) {
+    console.error(`Error creating task from ${kind}:`, error);
+    res.json(wrapResponse({
+      text: `❌ Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }));
+  }
+}
+
+/**
+ * Handle adding an extracted task as a comment on an existing ClickUp task
+ * instead of creating a new one.
+ */
+async function handleCommentOnExisting(
+  params: Record<string, string>,
+  formInputs: Record<string, { stringInputs?: { value: string[] } }>,
+  res: Response
+): Promise<void> {
+  const { pendingId, taskIndex } = params;
+  const index = parseInt(taskIndex, 10);
+
+  // Picker selection wins over the flagged duplicate passed as a button parameter
+  const existingTaskId = formInputs[`existingTask_${index}`]?.stringInputs?.value?.[0] || params.existingTaskId;
+
+  try {
+    const pending = await getPendingTasks(pendingId);
+    if (!pending) {
+      res.json(wrapResponse({ text: '❌ Task data not found. It may have expired.' }));
+      return;
+    }
+
+    const task = pending.tasks[index];
+    if (!task) {
+      res.json(wrapResponse({ text: '❌ Task not found.' }));
+      return;
+    }
+
+    if (!existingTaskId) {
+      res.json(wrapResponse({ text: '❌ No existing task selected. Pick one from the dropdown first.' }));
+      return;
+    }
+
+    const updatedTask = applyFormEdits(task, index, formInputs);
+    await updateTaskDetails(pendingId, index, updatedTask);
+
+    await addTaskComment(existingTaskId, buildTaskDescription(updatedTask, pending));
+    await markTaskAsLinked(pendingId, index, existingTaskId);
+
+    const existingTask = await getTask(existingTaskId);
+    const existingName = existingTask?.name || existingTaskId;
+    const existingUrl = existingTask?.url || `https://app.clickup.com/t/${existingTaskId}`;
+
+    res.json(wrapResponse({
+      text: `💬 Added as a comment on: ${existingName}`,
+      cardsV2: [
+        {
+          cardId: `commented_${index}`,
+          card: {
+            header: {
+              title: '💬 Added to Existing Task',
+              subtitle: existingName
+            },
+            sections: [
+              {
+                widgets: [
+                  {
+                    decoratedText: {
+                      topLabel: 'Comment',
+                      text: updatedTask.title,
+                      wrapText: true
+                    }
+                  },
+                  {
+                    buttonList: {
+                      buttons: [
+                        {
+                          text: '🔗 View in ClickUp',
+                          onClick: {
+                            openLink: {
+                              url: existingUrl
+                            }
+                          }
+                        }
+                      ]
+                    }
+                  }
+                ]
+              }
+            ]
+          }
+        }
+      ]
+    }));
+  } catch (error) {
+    console.error('Error commenting on existing task:', error);
+    res.json(wrapResponse({
+      text: `❌ Failed to add comment: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }));
+  }
+}
+
 /**
  * Handle dismiss single task action.
  */
@@ -654,15 +961,15 @@ async function handleCreateAllTasks(
 
     await updatePendingTasksStatus(pendingId, 'processing');
 
-    const results: Array<{ success: boolean; name: string; url: string; error?: string }> = [];
+    const results: Array<{ success: boolean; name: string; url: string; error?: string; watcherNames?: string[] }> = [];
     let successCount = 0;
     let eligibleCount = 0;
 
     for (let i = 0; i < pending.tasks.length; i++) {
       const task = pending.tasks[i];
 
-      // Skip already created or dismissed tasks
-      if ((task as any).clickupTaskId || (task as any).dismissed) {
+      // Skip already created, linked or dismissed tasks
+      if (isTaskResolved(task)) {
         continue;
       }
 
@@ -672,38 +979,26 @@ async function handleCreateAllTasks(
         // Apply any form edits
         const updatedTask = applyFormEdits(task, i, formInputs);
 
-        let bulkAssigneeId: number | undefined;
-        if (updatedTask.suggested_assignee) {
-          const parsed = parseInt(updatedTask.suggested_assignee, 10);
-          if (!isNaN(parsed)) {
-            bulkAssigneeId = parsed;
-          }
-        }
-
-        // Build rich description with meeting context (same as single task creation)
-        const bulkDescParts = [updatedTask.description || updatedTask.title];
-        bulkDescParts.push('');
-        bulkDescParts.push(`---`);
-        bulkDescParts.push(`📋 Meeting: ${pending.meetingInfo.title}`);
-        bulkDescParts.push(`📅 Date: ${pending.meetingInfo.date}`);
-        bulkDescParts.push(`📁 Folder: ${pending.folderConfig.name}`);
-        if (updatedTask.source_quote && !updatedTask.source_quote.includes('[Confidential')) {
-          bulkDescParts.push(`💬 Source: "${updatedTask.source_quote}"`);
-        }
-        bulkDescParts.push(`🤖 Extraction: ${updatedTask.extraction_type} (${Math.round(updatedTask.confidence * 100)}% confidence)`);
+        const bulkAssigneeIds = parseMemberIds(updatedTask.suggested_assignees);
+        const watcherNames = await getWatcherNames(updatedTask.stakeholders);
 
         const clickupTask = await createTask(task.clickupListId, {
           name: updatedTask.title,
-          description: bulkDescParts.join('\n'),
-          assigneeId: bulkAssigneeId,
+          description: buildTaskDescription(updatedTask, pending, watcherNames),
+          assigneeIds: bulkAssigneeIds,
           dueDate: updatedTask.suggested_due || undefined,
+          timeZone: await getDueTimeZone(bulkAssigneeIds[0], pending),
+          recurrence: updatedTask.recurrence,
+          steps: updatedTask.steps,
+          stepsMode: getStepsMode(pending.folderConfig),
           priority: updatedTask.priority,
           extractionType: updatedTask.extraction_type,
           sourceFolder: pending.folderConfig.name
         });
 
         await markTaskAsCreated(pendingId, i, clickupTask.id);
-        results.push({ success: true, name: clickupTask.name, url: clickupTask.url });
+        await learnAssigneeAliases(task, bulkAssigneeIds, pending);
+        results.push({ success: true, name: clickupTask.name, url: clickupTask.url, watcherNames });
         successCount++;
 
         // Small delay between creations
@@ -723,6 +1018,9 @@ async function handleCreateAllTasks(
             topLabel: '✅ Created',
             text: r.name,
             wrapText: true,
+            ...(r.watcherNames?.length && {
+              bottomLabel: `⚠️ Add watchers in ClickUp: ${r.watcherNames.join(', ')}`
+            }),
             button: {
               text: 'View',
               onClick: {
@@ -782,8 +1080,7 @@ async function handleDismissAllTasks(
     }
 
     for (let i = 0; i < pending.tasks.length; i++) {
-      const task = pending.tasks[i] as any;
-      if (!task.clickupTaskId && !task.dismissed) {
+      if (!isTaskResolved(pending.tasks[i])) {
         await markTaskAsDismissed(pendingId, i);
       }
     }
@@ -797,6 +1094,233 @@ async function handleDismissAllTasks(
   }
 }
 
+/**
+ * Handle the speaker mapping form: replace generic speaker labels ("Speaker 1") in the
+ * tasks with the picked people, resolve those assignees again, route the tasks to lists
+ * and check their assignees against the meeting again, and resend the approval cards.
+ */
+async function handleMapSpeakers(
+  params: Record<string, string>,
+  formInputs: Record<string, { stringInputs?: { value: string[] } }>,
+  res: Response
+): Promise<void> {
+  const { pendingId } = params;
+
+  try {
+    const pending = await getPendingTasks(pendingId);
+    if (!pending) {
+      res.json(wrapResponse({ text: '❌ Task data not found. It may have expired.' }));
+      return;
+    }
+
+    const speakers = pending.meetingInfo.speakers || [];
+    if (speakers.length === 0) {
+      res.json(wrapResponse({ text: 'This meeting has no speaker labels to map.' }));
+      return;
+    }
+
+    const members = await getWorkspaceMembers();
+    const directory = buildTeamDirectory(members);
+
+    // Unanswered dropdowns keep the suggested member
+    const mapping: SpeakerMapping[] = speakers.map((speaker, i) => {
+      const value = formInputs[`speaker_${i}`]?.stringInputs?.value?.[0];
+      const memberId = value === undefined ? speaker.memberId : parseInt(value, 10);
+      const known = memberId !== null && members.some(m => m.id === memberId);
+      return { label: speaker.label, memberId: known ? memberId : null };
+    });
+
+    const names = new Map<string, { name: string; memberId: number }>();
+    for (const { label, memberId } of mapping) {
+      const entry = directory.find(e => e.member?.id === memberId);
+      if (entry && memberId !== null) {
+        names.set(normalizeName(label), { name: entry.name, memberId });
+      }
+    }
+
+    const mappedNames = [...names.values()].map(n => n.name);
+    const meetingInfo = {
+      ...pending.meetingInfo,
+      attendees: [...new Set([...pending.meetingInfo.attendees, ...mappedNames])],
+      speakers: mapping,
+      speakersConfirmed: true
+    };
+
+    // Speakers left unmapped still count as in the meeting
+    const knownNames = [
+      ...meetingInfo.attendees,
+      ...mapping.filter(m => !names.has(normalizeName(m.label))).map(m => m.label)
+    ];
+    const prefix = pending.folderConfig.taskPrefix;
+
+    const taskUpdates: Record<number, Partial<ExtractedTaskWithConfig>> = {};
+    for (const [i, task] of pending.tasks.entries()) {
+      const update = mapSpeakerNames(task, names);
+      const mapped = { ...task, ...update };
+
+      // Routing rules matched on the title before the folder prefix was added
+      const assignees = members.filter(m => mapped.assigneeResolutions?.some(r => r.memberId === m.id));
+      const { clickupListId, rule } = resolveClickUpList(
+        { ...mapped, title: prefix && mapped.title.startsWith(`${prefix} `) ? mapped.title.slice(prefix.length + 1) : mapped.title },
+        pending.folderConfig,
+        assignees
+      );
+      if (clickupListId !== task.clickupListId) {
+        update.clickupListId = clickupListId;
+        update.clickupListName = await getListName(clickupListId);
+      }
+      update.routingRule = rule?.name;
+
+      if (task.sourceVerification) {
+        update.sourceVerification = {
+          ...task.sourceVerification,
+          unknownAssignees: recheckUnknownAssignees(task.sourceVerification, mapped.suggested_assignees, knownNames)
+        };
+      }
+
+      taskUpdates[i] = update;
+    }
+
+    await saveSpeakerMapping(pendingId, meetingInfo, taskUpdates);
+
+    const tasks = pending.tasks.map((task, i) => ({ ...task, ...taskUpdates[i] }));
+    const message = buildTaskApprovalMessage(
+      pendingId,
+      tasks,
+      meetingInfo,
+      pending.folderConfig.name,
+      members,
+      pending.analysis
+    );
+
+    console.log(`Mapped speakers for ${pendingId}: ${mapping.map(m => `${m.label}=${m.memberId ?? 'unknown'}`).join(', ')}`);
+    res.json(wrapResponse({
+      text: mappedNames.length > 0
+        ? `👥 Speaker names applied (${mappedNames.join(', ')}). Review the updated tasks below.`
+        : '👥 No speakers were mapped. Review the tasks below.',
+      cardsV2: message.cardsV2
+    }));
+  } catch (error) {
+    console.error('Error mapping speakers:', error);
+    res.json(wrapResponse({ text: '❌ Failed to apply speaker names.' }));
+  }
+}
+
+/**
+ * Replace mapped speaker labels in a task's names and text, and resolve the
+ * assignees that were labels to the picked members.
+ */
+function mapSpeakerNames(
+  task: ExtractedTaskWithConfig,
+  names: Map<string, { name: string; memberId: number }>
+): Partial<ExtractedTaskWithConfig> {
+  const mapName = (name: string) => names.get(normalizeName(name))?.name ?? name;
+  const mapText = (text: string) => [...names].reduce(
+    (result, [label, { name }]) => result.replace(new RegExp(`\\b${label.replace(/ /g, '[\\s_-]*')}\\b`, 'gi'), name),
+    text
+  );
+
+  const resolutions = task.assigneeResolutions || [];
+  return {
+    title: mapText(task.title),
+    description: mapText(task.description),
+    suggested_assignees: task.suggested_assignees.map(mapName),
+    stakeholders: (task.stakeholders || []).map(mapName),
+    assigneeResolutions: task.suggested_assignees.map((name, i) => {
+      const mapped = names.get(normalizeName(name));
+      return mapped
+        ? { name: mapped.name, memberId: mapped.memberId, candidateIds: [] }
+        : resolutions[i] || { name, memberId: null, candidateIds: [] };
+    })
+  };
+}
+
+/**
+ * Get a ClickUp list's name for the approval card, or undefined if the list
+ * can't be loaded (the card then shows its ID).
+ */
+async function getListName(listId: string): Promise<string | undefined> {
+  try {
+    return (await getListDetails(listId)).name;
+  } catch (error) {
+    console.warn(`Could not load ClickUp list ${listId}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+/**
+ * Get the zone a task's due date is a local day in: the (first) assignee's
+ * zone if one is configured, otherwise the folder's zone.
+ */
+async function getDueTimeZone(assigneeId: number | undefined, pending: PendingTasksData): Promise<string> {
+  let assignee: ClickUpMember | undefined;
+  if (assigneeId && hasUserTimezones()) {
+    const members = await getWorkspaceMembers();
+    assignee = members.find(m => m.id === assigneeId);
+  }
+  return getUserTimezone(assignee, pending.folderConfig);
+}
+
+/**
+ * Names of the members picked as watchers (stakeholders hold member IDs once picked on
+ * the card, otherwise the extracted names).
+ */
+async function getWatcherNames(stakeholders: string[] | undefined): Promise<string[]> {
+  if (!stakeholders?.length) {
+    return [];
+  }
+  const members = await getWorkspaceMembers();
+  return stakeholders.map(value => {
+    const id = parseInt(value, 10);
+    return members.find(m => m.id === id)?.username ?? value;
+  });
+}
+
+/**
+ * Build a rich task description with meeting context.
+ * Used for new task descriptions and for comments on existing tasks.
+ * Watchers are listed because ClickUp's API can't add them to the task.
+ */
+function buildTaskDescription(task: any, pending: PendingTasksData, watcherNames: string[] = []): string {
+  const parts = [task.description || task.title];
+  parts.push('');
+  parts.push(`---`);
+  parts.push(`📋 Meeting: ${pending.meetingInfo.title}`);
+  parts.push(`📅 Date: ${pending.meetingInfo.date}`);
+  parts.push(`📁 Folder: ${pending.folderConfig.name}`);
+  if (task.source_quote && !task.source_quote.includes('[Confidential')) {
+    parts.push(`💬 Source: "${task.source_quote}"`);
+  }
+  if (task.sourceTimestamp) {
+    parts.push(`🕒 Said at: ${task.sourceTimestamp} in the transcript`);
+  }
+  if (task.recurrence) {
+    parts.push(`🔁 Repeats: ${formatRecurrence(task.recurrence)}`);
+  }
+  if (watcherNames.length > 0) {
+    parts.push(`👀 Keep informed: ${watcherNames.join(', ')}`);
+  }
+  parts.push(`🤖 Extraction: ${task.extraction_type} (${Math.round(task.confidence * 100)}% confidence)`);
+  return parts.join('\n');
+}
+
+/**
+ * Build the description of a task made from a blocker or open question, with meeting context.
+ */
+function buildItemDescription(item: MeetingItem, label: string, pending: PendingTasksData): string {
+  const parts = [item.text];
+  parts.push('');
+  parts.push(`---`);
+  parts.push(`📌 ${label} raised${item.owner ? ` by ${item.owner}` : ''} in the meeting`);
+  parts.push(`📋 Meeting: ${pending.meetingInfo.title}`);
+  parts.push(`📅 Date: ${pending.meetingInfo.date}`);
+  parts.push(`📁 Folder: ${pending.folderConfig.name}`);
+  if (item.source_quote && !item.source_quote.includes('[Confidential')) {
+    parts.push(`💬 Source: "${item.source_quote}"`);
+  }
+  return parts.join('\n');
+}
+
 /**
  * Apply form edits to a task.
  */
@@ -813,10 +1337,15 @@ function applyFormEdits(
     updated.title = titleInput.stringInputs.value[0];
   }
 
-  // Assignee
+  // Assignees and watchers (member IDs; cards sent before multi-select have a single assignee)
   const assigneeInput = formInputs[`assignee_${index}`];
-  if (assigneeInput?.stringInputs?.value?.[0]) {
-    updated.suggested_assignee = assigneeInput.stringInputs.value[0];
+  if (assigneeInput?.stringInputs) {
+    updated.suggested_assignees = assigneeInput.stringInputs.value.filter(v => v);
+  }
+
+  const watchersInput = formInputs[`watchers_${index}`];
+  if (watchersInput?.stringInputs) {
+    updated.stakeholders = watchersInput.stringInputs.value.filter(v => v);
   }
 
   // Due date
@@ -829,6 +1358,18 @@ function applyFormEdits(
     }
   }
 
+  // Recurrence ("none" makes it a one-off task)
+  const recurrenceInput = formInputs[`recurrence_${index}`];
+  if (recurrenceInput?.stringInputs?.value?.[0]) {
+    updated.recurrence = parseRecurrenceValue(recurrenceInput.stringInputs.value[0]);
+  }
+
+  // Steps, one per line (clearing the field removes them)
+  const stepsInput = formInputs[`steps_${index}`];
+  if (stepsInput?.stringInputs) {
+    updated.steps = parseStepsInput(stepsInput.stringInputs.value[0] || '');
+  }
+
   // Priority
   const priorityInput = formInputs[`priority_${index}`];
   if (priorityInput?.stringInputs?.value?.[0]) {
@@ -838,6 +1379,49 @@ function applyFormEdits(
   return updated;
 }
 
+/**
+ * When the reviewer picked exactly one of an ambiguous name's candidates, remember it
+ * for the folder so the name resolves by itself in the folder's next meetings.
+ */
+async function learnAssigneeAliases(task: any, assigneeIds: number[], pending: PendingTasksData): Promise<void> {
+  const resolutions: AssigneeResolution[] = task.assigneeResolutions || [];
+
+  for (const resolution of resolutions) {
+    const picked = resolution.candidateIds.filter(id => assigneeIds.includes(id));
+    if (picked.length !== 1) {
+      continue;
+    }
+
+    try {
+      await saveLearnedAlias(pending.folderId, normalizeName(resolution.name), picked[0]);
+      console.log(`Learned "${resolution.name}" as member ${picked[0]} for folder ${pending.folderId}`);
+    } catch (error) {
+      // The task is already created; the name will just be ambiguous again next time
+      console.warn(`Failed to learn alias "${resolution.name}":`, error);
+    }
+  }
+}
+
+/**
+ * Get the ClickUp member IDs picked on the card. Extracted names that were never
+ * matched to a member are skipped - they can be assigned later in ClickUp.
+ */
+function parseMemberIds(values: string[] | undefined): number[] {
+  return (values || [])
+    .map(v => parseInt(v, 10))
+    .filter(id => !isNaN(id));
+}
+
+/**
+ * Split the card's steps field into steps, dropping blank lines and list bullets.
+ */
+function parseStepsInput(value: string): string[] {
+  return value
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0);
+}
+
 /**
  * Simple sleep utility.
  */
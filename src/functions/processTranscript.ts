@@ -3,18 +3,43 @@ import {
   getFileFolderId,
   getFileContent,
   getFileMetadata,
-  isValidTranscript
+  isValidTranscript,
+  getUnsupportedReason
 } from '../services/driveService.js';
-import { getFolderConfig, getClickUpListId, getNotifyUsers } from '../utils/folderConfigResolver.js';
-import { extractTasks } from '../services/openaiService.js';
+import {
+  getFolderConfig,
+  getNotifyUsers,
+  resolveClickUpList,
+  getFolderTimezone,
+  getPromptProfile
+} from '../utils/folderConfigResolver.js';
+import { resolveAssignee, suggestSpeakerMapping } from '../utils/memberMapper.js';
+import { getListDetails } from '../services/clickupService.js';
+import { matchExistingTasks } from '../utils/duplicateDetector.js';
+import { extractTasks, estimateExtractionCost } from '../services/openaiService.js';
 import { sendTaskApprovalCards, sendDMToUser } from '../services/chatService.js';
-import { storePendingTasks, isFileAlreadyProcessed } from '../services/firestoreService.js';
-import { parseTranscript } from '../utils/transcriptParser.js';
+import {
+  storePendingTasks,
+  isFileAlreadyProcessed,
+  getLearnedAliases
+} from '../services/firestoreService.js';
+import {
+  parseTranscript,
+  formatTranscriptForPrompt,
+  findSourceUtterance
+} from '../utils/transcriptParser.js';
+import { resolveMeetingDate } from '../utils/meetingDateResolver.js';
+import { verifyTaskSource } from '../utils/sourceVerifier.js';
 import { appConfig } from '../config/index.js';
 import type {
   TranscriptPubSubMessage,
   MeetingInfo,
-  ExtractedTaskWithConfig
+  ExtractedTask,
+  ExtractedTaskWithConfig,
+  ClickUpMember,
+  AssigneeResolution,
+  SourceVerification,
+  MeetingAnalysis
 } from '../types/index.js';
 
 /**
@@ -80,6 +105,12 @@ export async function processTranscript(
   // Get file metadata first to validate it's a transcript
   const metadata = await getFileMetadata(fileId);
 
+  const unsupportedReason = getUnsupportedReason(metadata);
+  if (unsupportedReason) {
+    console.warn(`File ${fileId} (${metadata.name}) skipped: ${unsupportedReason}`);
+    return;
+  }
+
   if (!isValidTranscript(metadata)) {
     console.log(`File ${fileId} (${metadata.name}) is not a valid transcript format, skipping`);
     return;
@@ -88,53 +119,165 @@ export async function processTranscript(
   // Get file content
   const rawContent = await getFileContent(fileId);
 
-  // Parse the transcript to extract clean text and attendees
+  const contentReason = getUnsupportedReason(metadata, rawContent);
+  if (contentReason) {
+    console.warn(`File ${fileId} (${metadata.name}) skipped: ${contentReason}`);
+    return;
+  }
+
+  // Parse the transcript into speaker-attributed utterances, clean text and attendees
   const parsedTranscript = parseTranscript(rawContent);
 
+  // Scanned PDFs and empty exports have no text layer to work with
+  if (!parsedTranscript.content.trim()) {
+    console.warn(`File ${fileId} (${metadata.name}) has no extractable text, skipping`);
+    return;
+  }
+
+  // Use the meeting's own date - the file may be uploaded days after the meeting
+  const meetingDate = resolveMeetingDate(rawContent, metadata.name, metadata.createdTime);
+
   const meetingInfo: MeetingInfo = {
-    title: metadata.name.replace(/\.(txt|docx|vtt|srt|doc)$/i, ''),
-    date: metadata.createdTime,
+    title: metadata.name.replace(/\.(txt|docx|vtt|srt|doc|pdf|json)$/i, ''),
+    date: meetingDate.date,
+    dateSource: meetingDate.source,
+    timeZone: getFolderTimezone(folderConfig),
     attendees: parsedTranscript.attendees,
     folderId: folderId,
     folderName: folderConfig.name
   };
 
-  console.log(`Meeting: ${meetingInfo.title}, Attendees: ${meetingInfo.attendees.length}`);
-
-  // Extract tasks using OpenAI
-  console.log('Extracting tasks with OpenAI...');
-  const analysis = await extractTasks(parsedTranscript.content, meetingInfo);
-  console.log(`Found ${analysis.tasks.length} tasks`);
+  // Diarized recordings without names get a mapping form on the approval card,
+  // prefilled from the file owner (usually the first to speak) and listed attendees
+  if (parsedTranscript.speakerLabels.length > 0) {
+    const knownPeople = [metadata.owners?.[0]?.emailAddress, ...extractAttendeesFromMetadata(metadata)]
+      .filter((p): p is string => !!p);
+    meetingInfo.speakers = await suggestSpeakerMapping(parsedTranscript.speakerLabels, knownPeople);
+    console.log(`Transcript uses generic speaker labels: ${parsedTranscript.speakerLabels.join(', ')}`);
+  }
 
-  if (analysis.tasks.length === 0) {
-    console.log('No tasks found in transcript');
+  console.log(`Meeting: ${meetingInfo.title}, Attendees: ${meetingInfo.attendees.length}`);
+  console.log(`Meeting date: ${meetingInfo.date} (from ${meetingInfo.dateSource}), time zone ${meetingInfo.timeZone}`);
+  console.log(`Parsed ${parsedTranscript.format} transcript into ${parsedTranscript.utterances.length} utterances`);
+
+  // Extract tasks using the configured LLM provider
+  const promptTranscript = formatTranscriptForPrompt(parsedTranscript);
+  const estimate = estimateExtractionCost(promptTranscript, meetingInfo);
+  console.log(`Estimated LLM usage: ${estimate.inputTokens} input tokens in ${estimate.requests} request(s), about $${estimate.costUsd.toFixed(4)}`);
+  const promptProfile = getPromptProfile(folderId);
+  console.log(`Extracting tasks with ${appConfig.llm.provider} (${appConfig.llm.model})${promptProfile ? `, prompt profile ${promptProfile.version}` : ''}...`);
+  const extracted = await extractTasks(promptTranscript, meetingInfo);
+  const meetingItems = [...extracted.risks, ...extracted.blockers, ...extracted.open_questions, ...extracted.parking_lot];
+  console.log(`Found ${extracted.tasks.length} tasks, ${extracted.risks.length} risks, ${extracted.blockers.length} blockers, ${extracted.open_questions.length} open questions, ${extracted.parking_lot.length} parking-lot items`);
+
+  // A meeting that only raised risks, blockers, questions or parked topics still
+  // gets its header card, so those aren't lost
+  if (extracted.tasks.length === 0 && meetingItems.length === 0) {
+    console.log('No tasks or open items found in transcript');
     return;
   }
 
+  // The profile version is stored with the analysis, so changes in what gets extracted
+  // can be traced back to profile edits
+  const analysis: MeetingAnalysis = {
+    ...extracted,
+    ...(promptProfile && { promptProfileVersion: promptProfile.version })
+  };
+
   // Filter tasks by confidence threshold (explicit tasks always pass)
-  const confidenceThreshold = appConfig.openai.confidenceThreshold;
+  const confidenceThreshold = appConfig.llm.confidenceThreshold;
   const filteredTasks = analysis.tasks.filter(task =>
     task.extraction_type === 'explicit' || task.confidence >= confidenceThreshold
   );
 
   console.log(`Filtered ${analysis.tasks.length} tasks to ${filteredTasks.length} (threshold: ${confidenceThreshold})`);
 
-  if (filteredTasks.length === 0) {
+  if (filteredTasks.length === 0 && meetingItems.length === 0) {
     console.log('No tasks above confidence threshold');
     return;
   }
 
-  // Get the single ClickUp list ID for all meeting tasks
-  const clickupListId = getClickUpListId();
+  // Check quotes and assignees against the transcript to catch invented tasks. Unverified
+  // tasks are flagged on the card, or dropped if the config says so
+  const knownNames = [...meetingInfo.attendees, ...parsedTranscript.speakerLabels];
+  const verifications = new Map<ExtractedTask, SourceVerification>();
+  for (const task of filteredTasks) {
+    const verification = verifyTaskSource(task, parsedTranscript.content, knownNames);
+    if (!verification.quoteFound) {
+      console.warn(`Source quote for "${task.title}" not found in transcript (best match ${Math.round(verification.quoteScore * 100)}%)`);
+    }
+    if (verification.unknownAssignees.length > 0) {
+      console.warn(`Assignees for "${task.title}" not in the meeting: ${verification.unknownAssignees.join(', ')}`);
+    }
+    verifications.set(task, verification);
+  }
+
+  const verifiedTasks = appConfig.llm.unverifiedTasks === 'drop'
+    ? filteredTasks.filter(task => verifications.get(task)!.quoteFound)
+    : filteredTasks;
+
+  if (verifiedTasks.length < filteredTasks.length) {
+    console.log(`Dropped ${filteredTasks.length - verifiedTasks.length} task(s) with unverified source quotes`);
+  }
+  if (verifiedTasks.length === 0 && meetingItems.length === 0) {
+    console.log('No tasks with verified source quotes');
+    return;
+  }
+
+  // Resolve assignees against the team directory and the folder's learned aliases, then
+  // route each task to a ClickUp list (routing rules, then folder list, then global list)
+  const learnedAliases = await getLearnedAliases(folderId);
+  const tasksWithConfig: ExtractedTaskWithConfig[] = [];
+
+  for (const task of verifiedTasks) {
+    const assignees: ClickUpMember[] = [];
+    const assigneeResolutions: AssigneeResolution[] = [];
+    for (const name of task.suggested_assignees) {
+      const { member, confidence, candidates } = await resolveAssignee(name, learnedAliases);
+      if (member) {
+        assignees.push(member);
+      }
+      assigneeResolutions.push({
+        name,
+        memberId: member?.id ?? null,
+        candidateIds: confidence === 'ambiguous' ? candidates.map(c => c.id) : []
+      });
+    }
+    const { clickupListId, rule } = resolveClickUpList(task, folderConfig, assignees);
+    const sourceUtterance = findSourceUtterance(
+      parsedTranscript.utterances,
+      task.source_quote,
+      task.source_utterance_id
+    );
+
+    // Apply folder-specific task prefix
+    tasksWithConfig.push({
+      ...task,
+      title: folderConfig.taskPrefix
+        ? `${folderConfig.taskPrefix} ${task.title}`
+        : task.title,
+      clickupListId,
+      assigneeResolutions,
+      sourceVerification: verifications.get(task),
+      ...(rule && { routingRule: rule.name }),
+      ...(sourceUtterance?.startTime && { sourceTimestamp: sourceUtterance.startTime })
+    });
+  }
+
+  // Look up list names for display on the approval cards
+  const listNames = await getListNames(tasksWithConfig.map(t => t.clickupListId));
+  tasksWithConfig.forEach(task => {
+    const listName = listNames.get(task.clickupListId);
+    if (listName) {
+      task.clickupListName = listName;
+    }
+  });
 
-  // Apply folder-specific task prefix
-  const tasksWithConfig: ExtractedTaskWithConfig[] = filteredTasks.map(task => ({
-    ...task,
-    title: folderConfig.taskPrefix
-      ? `${folderConfig.taskPrefix} ${task.title}`
-      : task.title,
-    clickupListId: clickupListId
-  }));
+  // Find existing tasks to comment on, and flag likely repeats of open or recently created tasks
+  const duplicateCount = await matchExistingTasks(tasksWithConfig);
+  if (duplicateCount > 0) {
+    console.log(`Flagged ${duplicateCount} task(s) as possible duplicates of existing ClickUp tasks`);
+  }
 
   // Handle confidential folders - redact source quotes
   if (folderConfig.confidential) {
@@ -142,6 +285,9 @@ export async function processTranscript(
       task.source_quote = '[Confidential - see transcript]';
       task.description = task.title; // Minimal description
     });
+    meetingItems.forEach(item => {
+      item.source_quote = '[Confidential - see transcript]';
+    });
   }
 
   // Store pending tasks for webhook retrieval
@@ -220,6 +366,25 @@ export async function processTranscript(
   console.log(`Processed ${tasksWithConfig.length} tasks from ${folderConfig.name}, DMs sent: ${dmsSent}/${usersToNotify.size}`);
 }
 
+/**
+ * Resolve display names for a set of ClickUp list IDs.
+ * Lists that can't be loaded are left out so callers fall back to the ID.
+ */
+async function getListNames(listIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+
+  for (const listId of new Set(listIds)) {
+    try {
+      const details = await getListDetails(listId);
+      names.set(listId, details.name);
+    } catch (error) {
+      console.warn(`Could not load ClickUp list ${listId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return names;
+}
+
 /**
  * Extract attendees from file metadata (if available in description or properties).
  */
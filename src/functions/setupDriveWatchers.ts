@@ -3,10 +3,12 @@ import {
   setupAllFolderWatchers,
   renewExpiringWatchers,
   listRecentTranscripts,
-  isValidTranscript
+  isValidTranscript,
+  getUnsupportedReason
 } from '../services/driveService.js';
 import { getAllFolderConfigs } from '../utils/folderConfigResolver.js';
 import { getEnvVar, getConfig } from '../config/index.js';
+import { getPubSub } from '../adapters/index.js';
 
 /**
  * Cloud Function to set up or renew Drive watchers for all configured folders.
@@ -126,12 +128,10 @@ export async function driveWebhook(
  * and publishes them to Pub/Sub for processing.
  */
 async function reprocessRecentTranscripts(days: number): Promise<object> {
-  const { PubSub } = await import('@google-cloud/pubsub');
   const { isFileAlreadyProcessed } = await import('../services/firestoreService.js');
 
   const config = getConfig();
-  const pubsub = new PubSub();
-  const topic = pubsub.topic(config.gcp.pubsubTopic);
+  const pubsub = getPubSub();
   const folders = getAllFolderConfigs();
   const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
@@ -152,6 +152,12 @@ async function reprocessRecentTranscripts(days: number): Promise<object> {
           continue; // Older than the requested window
         }
 
+        const unsupportedReason = getUnsupportedReason(file);
+        if (unsupportedReason) {
+          results.push({ folder: folder.name, file: file.name, status: `skipped (${unsupportedReason})` });
+          continue;
+        }
+
         if (!isValidTranscript(file)) {
           results.push({ folder: folder.name, file: file.name, status: 'skipped (not transcript)' });
           continue;
@@ -167,9 +173,7 @@ async function reprocessRecentTranscripts(days: number): Promise<object> {
 
         console.log(`Publishing: ${file.name} from ${folder.name}`);
 
-        await topic.publishMessage({
-          data: Buffer.from(JSON.stringify({ fileId: file.id, folderId: folder.id }))
-        });
+        await pubsub.publish(config.gcp.pubsubTopic, { fileId: file.id, folderId: folder.id });
 
         results.push({ folder: folder.name, file: file.name, status: 'published' });
         published++;
@@ -198,13 +202,8 @@ async function reprocessRecentTranscripts(days: number): Promise<object> {
  * Publish a folder change event to Pub/Sub.
  */
 async function publishFolderChange(folderId: string): Promise<void> {
-  const { PubSub } = await import('@google-cloud/pubsub');
-  const { getConfig } = await import('../config/index.js');
-  const { listRecentTranscripts, isValidTranscript } = await import('../services/driveService.js');
-
   const config = getConfig();
-  const pubsub = new PubSub();
-  const topic = pubsub.topic(config.gcp.pubsubTopic);
+  const pubsub = getPubSub();
 
   // Get recent files in the folder
   const recentFiles = await listRecentTranscripts(folderId, 5);
@@ -223,9 +222,7 @@ async function publishFolderChange(folderId: string): Promise<void> {
         folderId: folderId
       };
 
-      await topic.publishMessage({
-        data: Buffer.from(JSON.stringify(message))
-      });
+      await pubsub.publish(config.gcp.pubsubTopic, message);
     }
   }
 }
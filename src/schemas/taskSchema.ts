@@ -1,17 +1,39 @@
 import { z } from 'zod';
 
+/**
+ * Schema for how often a recurring task repeats.
+ */
+export const RecurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']).describe('How often the task repeats'),
+  interval: z.number().int().min(1).describe('Repeat every N periods, e.g. 2 for "every other week". Use 1 if not stated'),
+  weekday: z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']).nullable().describe('Day of the week for weekly tasks, or null')
+});
+
 /**
  * Schema for a single extracted task from a meeting transcript.
  */
 export const TaskSchema = z.object({
   title: z.string().describe('Clear, actionable task title'),
   description: z.string().describe('Detailed description of what needs to be done'),
-  suggested_assignee: z.string().nullable().describe('Name of the person who should be assigned this task, or null if unclear'),
-  suggested_due: z.string().nullable().describe('Suggested due date in ISO 8601 format (YYYY-MM-DD), or null if not mentioned'),
+  suggested_assignees: z.array(z.string()).describe('Names of the people doing this task, in the order mentioned, or an empty array if unclear'),
+  stakeholders: z.array(z.string()).describe('Names of people to keep informed about this task who are not doing it ("loop in Omar"), or an empty array'),
+  suggested_due: z.string().nullable().describe('Due date as said in the meeting ("Friday", "end of next month", "the 15th"), not converted to a date, or null if not mentioned'),
   priority: z.enum(['urgent', 'high', 'normal', 'low']).describe('Task priority based on context and language used'),
   source_quote: z.string().describe('Exact quote from the transcript where this task was identified'),
+  source_utterance_id: z.string().nullable().describe('ID of the transcript line containing the source quote (e.g. "u12"), or null if lines are not tagged with IDs'),
   confidence: z.number().min(0).max(1).describe('Confidence score from 0 to 1. Explicit callouts should always be 1.0'),
-  extraction_type: z.enum(['explicit', 'implicit']).describe('Whether this was explicitly stated as a task or inferred from conversation')
+  extraction_type: z.enum(['explicit', 'implicit']).describe('Whether this was explicitly stated as a task or inferred from conversation'),
+  recurrence: RecurrenceSchema.nullable().describe('How often the task repeats if it is a recurring commitment ("every Monday"), or null for a one-off task'),
+  steps: z.array(z.string()).describe('Short steps of a multi-step action item ("Write the copy", "Add tracking pixels"), or an empty array')
+});
+
+/**
+ * Schema for a risk, blocker, open question or parking-lot item raised in the meeting.
+ */
+export const MeetingItemSchema = z.object({
+  text: z.string().describe('The item in one self-contained sentence'),
+  owner: z.string().nullable().describe('Name of the person who raised it or is following it up, or null if unclear'),
+  source_quote: z.string().describe('Exact quote from the transcript where this item was raised')
 });
 
 /**
@@ -20,7 +42,11 @@ export const TaskSchema = z.object({
 export const MeetingAnalysisSchema = z.object({
   tasks: z.array(TaskSchema).describe('List of extracted tasks from the meeting'),
   meeting_summary: z.string().describe('Brief summary of the meeting in 2-3 sentences'),
-  decisions: z.array(z.string()).describe('Key decisions made during the meeting')
+  decisions: z.array(z.string()).describe('Key decisions made during the meeting'),
+  risks: z.array(MeetingItemSchema).describe('Things that could go wrong or delay work, that nobody has committed to handle'),
+  blockers: z.array(MeetingItemSchema).describe('Things currently stopping work, and what they block'),
+  open_questions: z.array(MeetingItemSchema).describe('Questions raised but not answered in the meeting'),
+  parking_lot: z.array(MeetingItemSchema).describe('Topics deliberately deferred to a later meeting ("let\'s park that")')
 });
 
 /**
@@ -35,5 +61,7 @@ export const MeetingContextSchema = z.object({
 
 // Export types derived from schemas
 export type Task = z.infer<typeof TaskSchema>;
+export type Recurrence = z.infer<typeof RecurrenceSchema>;
+export type MeetingItem = z.infer<typeof MeetingItemSchema>;
 export type MeetingAnalysis = z.infer<typeof MeetingAnalysisSchema>;
 export type MeetingContext = z.infer<typeof MeetingContextSchema>;
@@ -1,18 +1,34 @@
-import { google } from 'googleapis';
 import type {
   ExtractedTaskWithConfig,
   MeetingInfo,
   MeetingAnalysis,
   ClickUpMember,
-  TaskPriority
+  TaskPriority,
+  ExistingTaskCandidate,
+  SpeakerMapping,
+  MeetingItemKind
 } from '../types/index.js';
 import { getWorkspaceMembers } from './clickupService.js';
 import { getChatFunctionUrl } from '../config/index.js';
+import { getChat, getFirestore } from '../adapters/index.js';
+import { toCalendarDate, DEFAULT_TIME_ZONE } from '../utils/timezone.js';
+import {
+  buildTeamDirectory,
+  findTeamMember,
+  findTeamMappingEntry,
+  type TeamDirectoryEntry
+} from '../utils/teamDirectory.js';
+import {
+  NO_RECURRENCE,
+  formatRecurrence,
+  getRecurrenceOptions,
+  toRecurrenceValue
+} from '../utils/recurrence.js';
 
 // Use any for Chat API types since they vary between versions
-type ChatClient = ReturnType<typeof google.chat>;
 type ChatMessage = any;
 type ChatCard = any;
+type ChatSection = any;
 type ChatWidget = any;
 
 // Priority display configuration
@@ -23,6 +39,15 @@ const PRIORITY_DISPLAY: Record<TaskPriority, { emoji: string; label: string }> =
   low: { emoji: '🔵', label: 'Low' }
 };
 
+// Sections for what the meeting left unresolved, in display order. Blockers and open
+// questions can be turned into tasks from the card
+const MEETING_ITEM_DISPLAY: Array<{ kind: MeetingItemKind; header: string; convertible: boolean }> = [
+  { kind: 'risks', header: '⚠️ Risks', convertible: false },
+  { kind: 'blockers', header: '⛔ Blockers', convertible: true },
+  { kind: 'open_questions', header: '❓ Open Questions', convertible: true },
+  { kind: 'parking_lot', header: '🅿️ Parking Lot', convertible: false }
+];
+
 // Function URL for Workspace Add-on actions (lazy-loaded to avoid startup errors)
 let _chatFunctionUrl: string | null = null;
 function getChatFunctionUrlCached(): string {
@@ -32,20 +57,6 @@ function getChatFunctionUrlCached(): string {
   return _chatFunctionUrl;
 }
 
-// Initialize Chat client
-function getChatClient(): ChatClient {
-  const auth = new google.auth.GoogleAuth({
-    scopes: [
-      'https://www.googleapis.com/auth/chat.bot',
-      'https://www.googleapis.com/auth/chat.spaces',
-      'https://www.googleapis.com/auth/chat.spaces.create',
-      'https://www.googleapis.com/auth/chat.messages',
-      'https://www.googleapis.com/auth/chat.messages.create'
-    ]
-  });
-  return google.chat({ version: 'v1', auth });
-}
-
 /**
  * Send task approval cards to a Google Chat space.
  */
@@ -58,7 +69,7 @@ export async function sendTaskApprovalCards(params: {
   analysis?: MeetingAnalysis;
   transcriptLink?: string;
 }): Promise<void> {
-  const chat = getChatClient();
+  const chat = getChat();
   const { spaceId, pendingId, tasks, meetingInfo, folderName, analysis, transcriptLink } = params;
 
   // Get ClickUp members for assignee dropdown
@@ -75,10 +86,7 @@ export async function sendTaskApprovalCards(params: {
     transcriptLink
   );
 
-  await chat.spaces.messages.create({
-    parent: spaceId,
-    requestBody: cardMessage
-  });
+  await chat.createMessage(spaceId, cardMessage);
 
   console.log(`Sent approval cards to space: ${spaceId}`);
 }
@@ -88,9 +96,7 @@ export async function sendTaskApprovalCards(params: {
  * Called when a user messages the bot (from handleChatInteraction).
  */
 export async function cacheDMSpace(userEmail: string, spaceName: string): Promise<void> {
-  const { Firestore } = await import('@google-cloud/firestore');
-  const firestore = new Firestore();
-  await firestore.collection('dm-spaces').doc(userEmail).set({
+  await getFirestore().collection('dm-spaces').doc(userEmail).set({
     spaceName,
     updatedAt: new Date()
   }, { merge: true });
@@ -104,9 +110,7 @@ export async function cacheDMSpace(userEmail: string, spaceName: string): Promis
 export async function findExistingDMSpace(userEmail: string): Promise<string | null> {
   // 1. Check Firestore cache first (fast, reliable)
   try {
-    const { Firestore } = await import('@google-cloud/firestore');
-    const firestore = new Firestore();
-    const doc = await firestore.collection('dm-spaces').doc(userEmail).get();
+    const doc = await getFirestore().collection('dm-spaces').doc(userEmail).get();
     if (doc.exists) {
       const spaceName = doc.data()?.spaceName;
       if (spaceName) {
@@ -118,13 +122,12 @@ export async function findExistingDMSpace(userEmail: string): Promise<string | n
     console.log(`Could not check DM cache for ${userEmail}`);
   }
 
-  // 2. Fallback: try findDirectMessage with email (only works with user auth, but try anyway)
-  const chat = getChatClient();
+  // 2. Fallback: try findDirectMessage with the user's Chat ID from the team mapping,
+  // else their email (only works with user auth, but try anyway)
+  const chat = getChat();
+  const chatUserId = findTeamMappingEntry({ email: userEmail })?.chatUserId || `users/${userEmail}`;
   try {
-    const response = await chat.spaces.findDirectMessage({
-      name: `users/${userEmail}`
-    });
-    const spaceName = (response.data as any)?.name;
+    const spaceName = await chat.findDirectMessage(chatUserId);
     if (spaceName) {
       // Cache it for next time
       await cacheDMSpace(userEmail, spaceName).catch(() => {});
@@ -155,7 +158,7 @@ export async function sendDMToUser(params: {
   analysis?: MeetingAnalysis;
   transcriptLink?: string;
 }): Promise<boolean> {
-  const chat = getChatClient();
+  const chat = getChat();
   const { userEmail, pendingId, tasks, meetingInfo, folderName, analysis, transcriptLink } = params;
 
   // Find existing DM space (user must have messaged the bot first)
@@ -183,10 +186,7 @@ export async function sendDMToUser(params: {
     transcriptLink
   );
 
-  await chat.spaces.messages.create({
-    parent: spaceName,
-    requestBody: cardMessage
-  });
+  await chat.createMessage(spaceName, cardMessage);
 
   console.log(`Sent approval cards via DM to: ${userEmail}`);
   return true;
@@ -259,12 +259,26 @@ export function buildTaskApprovalMessage(
     });
   }
 
+  // Diarized transcripts: who each "Speaker N" label is
+  const directory = buildTeamDirectory(members);
+  const speakers = meetingInfo.speakers || [];
+  if (speakers.length > 0 && meetingInfo.speakersConfirmed) {
+    headerWidgets.push({
+      decoratedText: {
+        topLabel: 'Speakers',
+        text: speakers.map(s => `${s.label}: ${s.memberId !== null ? getMemberName(s.memberId, directory) : 'unknown'}`).join(', '),
+        wrapText: true
+      }
+    });
+  }
+
   const headerCard: ChatCard = {
     cardId: 'header',
     card: {
       header: {
         title: `📋 ${meetingInfo.title}`,
-        subtitle: `📁 ${folderName} • 📅 ${formatDate(meetingInfo.date)}`,
+        // Flag the fallback - relative due dates were resolved from the upload date
+        subtitle: `📁 ${folderName} • 📅 ${formatDate(meetingInfo.date, meetingInfo.timeZone)}${meetingInfo.dateSource === 'drive' ? ' (upload date)' : ''}`,
         imageType: 'CIRCLE'
       },
       sections: [
@@ -274,11 +288,21 @@ export function buildTaskApprovalMessage(
       ]
     }
   };
+  if (speakers.length > 0 && !meetingInfo.speakersConfirmed) {
+    headerCard.card.sections.push(buildSpeakerMappingSection(speakers, pendingId, directory));
+  }
+  if (analysis) {
+    headerCard.card.sections.push(...buildMeetingItemSections(analysis, pendingId));
+  }
   cards.push(headerCard);
 
-  // Individual task cards
+  // Individual task cards, matching extracted names against the team directory.
+  // Tasks already acted on are left out when the message is rebuilt after mapping speakers
   tasks.forEach((task, index) => {
-    const taskCard = buildTaskCard(task, index, pendingId, members);
+    if (task.clickupTaskId || task.linkedTaskId || task.dismissed) {
+      return;
+    }
+    const taskCard = buildTaskCard(task, index, pendingId, directory);
     cards.push(taskCard);
   });
 
@@ -333,6 +357,123 @@ export function buildTaskApprovalMessage(
   };
 }
 
+/**
+ * Build the form mapping generic speaker labels to team members, prefilled with the
+ * suggested mapping. Applying it resolves the tasks' assignees again with the real names.
+ */
+function buildSpeakerMappingSection(
+  speakers: SpeakerMapping[],
+  pendingId: string,
+  directory: TeamDirectoryEntry[]
+): ChatSection {
+  const widgets: ChatWidget[] = [
+    {
+      textParagraph: {
+        text: '👥 This recording labels speakers by number. Pick who each speaker is so tasks can be assigned to them.'
+      }
+    }
+  ];
+
+  speakers.forEach((speaker, i) => {
+    const selected = speaker.memberId !== null ? [speaker.memberId.toString()] : [];
+    widgets.push({
+      selectionInput: {
+        label: speaker.label,
+        name: `speaker_${i}`,
+        type: 'DROPDOWN',
+        items: [
+          { text: 'Unknown', value: 'none', selected: selected.length === 0 },
+          ...buildMemberItems(directory, selected)
+        ]
+      }
+    });
+  });
+
+  widgets.push({
+    buttonList: {
+      buttons: [
+        {
+          text: '👥 Apply Speaker Names',
+          onClick: {
+            action: {
+              function: getChatFunctionUrlCached(),
+              parameters: [
+                { key: 'actionName', value: 'mapSpeakers' },
+                { key: 'pendingId', value: pendingId }
+              ]
+            }
+          }
+        }
+      ]
+    }
+  });
+
+  return { header: 'Who is speaking?', widgets };
+}
+
+/**
+ * Check whether a meeting still has blockers or open questions that haven't been
+ * turned into tasks.
+ */
+export function hasUnconvertedMeetingItems(analysis?: MeetingAnalysis): boolean {
+  return MEETING_ITEM_DISPLAY
+    .filter(({ convertible }) => convertible)
+    .some(({ kind }) => (analysis?.[kind] || []).some(item => !item.clickupTaskId));
+}
+
+/**
+ * Build a section for each kind of risk, blocker, open question or parking-lot item the
+ * meeting raised. Blockers and open questions get a button that turns them into a task.
+ */
+export function buildMeetingItemSections(analysis: MeetingAnalysis, pendingId: string): ChatSection[] {
+  return MEETING_ITEM_DISPLAY
+    .map(display => ({ ...display, items: analysis[display.kind] || [] }))
+    .filter(({ items }) => items.length > 0)
+    .map(({ kind, header, convertible, items }) => ({
+      header,
+      collapsible: items.length > 3,
+      uncollapsibleWidgetsCount: 3,
+      widgets: items.map((item, i) => {
+        const quote = item.source_quote && !item.source_quote.includes('[Confidential')
+          ? `"${item.source_quote.length > 100 ? item.source_quote.substring(0, 100) + '...' : item.source_quote}"`
+          : undefined;
+        return {
+          decoratedText: {
+            ...(item.owner && { topLabel: item.owner }),
+            text: item.text,
+            ...(quote && { bottomLabel: quote }),
+            wrapText: true,
+            ...(item.clickupTaskId ? {
+              button: {
+                text: '✅ View Task',
+                onClick: {
+                  openLink: {
+                    url: `https://app.clickup.com/t/${item.clickupTaskId}`
+                  }
+                }
+              }
+            } : convertible && {
+              button: {
+                text: '➕ Create Task',
+                onClick: {
+                  action: {
+                    function: getChatFunctionUrlCached(),
+                    parameters: [
+                      { key: 'actionName', value: 'createTaskFromItem' },
+                      { key: 'pendingId', value: pendingId },
+                      { key: 'itemKind', value: kind },
+                      { key: 'itemIndex', value: i.toString() }
+                    ]
+                  }
+                }
+              }
+            })
+          }
+        };
+      })
+    }));
+}
+
 /**
  * Build a card for a single task.
  */
@@ -340,7 +481,7 @@ function buildTaskCard(
   task: ExtractedTaskWithConfig,
   index: number,
   pendingId: string,
-  members: ClickUpMember[]
+  directory: TeamDirectoryEntry[]
 ): ChatCard {
   const priorityInfo = PRIORITY_DISPLAY[task.priority];
   const typeIndicator = task.extraction_type === 'explicit' ? '✅ EXPLICIT' : '🔍 DETECTED';
@@ -355,6 +496,56 @@ function buildTaskCard(
     }
   });
 
+  // Target ClickUp list and the routing rule that chose it
+  widgets.push({
+    decoratedText: {
+      topLabel: 'ClickUp List',
+      text: `${task.clickupListName || task.clickupListId}${task.routingRule ? ` • rule: ${task.routingRule}` : ''}`,
+      wrapText: true
+    }
+  });
+
+  // Possible duplicate of an existing ClickUp task
+  if (task.possibleDuplicate) {
+    const duplicate = task.possibleDuplicate;
+    widgets.push({
+      decoratedText: {
+        topLabel: duplicate.source === 'clickup' ? '⚠️ Possible Duplicate (open task)' : '⚠️ Possible Duplicate (recent meeting)',
+        text: `${duplicate.name} (${Math.round(duplicate.similarity * 100)}% match)`,
+        wrapText: true,
+        button: {
+          text: 'View',
+          onClick: {
+            openLink: {
+              url: duplicate.url
+            }
+          }
+        }
+      }
+    });
+  }
+
+  // Quote or assignees the transcript doesn't back up - the task may be invented
+  const verification = task.sourceVerification;
+  if (verification && !verification.quoteFound) {
+    widgets.push({
+      decoratedText: {
+        topLabel: '⚠️ Quote Not Found',
+        text: `The source quote isn't in the transcript (best match ${Math.round(verification.quoteScore * 100)}%). Check this task was really discussed.`,
+        wrapText: true
+      }
+    });
+  }
+  if (verification && verification.unknownAssignees.length > 0) {
+    widgets.push({
+      decoratedText: {
+        topLabel: '⚠️ Assignee Not in Meeting',
+        text: `${verification.unknownAssignees.join(', ')} didn't speak, isn't an attendee and isn't mentioned in the transcript`,
+        wrapText: true
+      }
+    });
+  }
+
   // Editable title
   widgets.push({
     textInput: {
@@ -365,25 +556,38 @@ function buildTaskCard(
     }
   });
 
-  // Assignee dropdown
-  const suggestedAssigneeId = task.suggested_assignee
-    ? findMemberIdByName(task.suggested_assignee, members)
-    : '';
-  const assigneeItems = [
-    { text: '-- Select Assignee --', value: '', selected: !suggestedAssigneeId },
-    ...members.map(m => ({
-      text: `${m.username} (${m.email})`,
-      value: m.id.toString(),
-      selected: m.id.toString() === suggestedAssigneeId
-    }))
-  ];
+  // Names that match several members, whose candidates are listed first in the picker
+  const ambiguous = (task.assigneeResolutions || []).filter(r => r.candidateIds.length > 0);
+  for (const resolution of ambiguous) {
+    widgets.push({
+      decoratedText: {
+        topLabel: '⚠️ Assignee',
+        text: `${resolution.name} — ambiguous`,
+        bottomLabel: `Could be ${resolution.candidateIds.map(id => getMemberName(id, directory)).join(', ')}`,
+        wrapText: true
+      }
+    });
+  }
 
+  // Assignee and watcher multi-selects, preselecting the members the extracted names resolved to
+  const assigneeIds = task.assigneeResolutions
+    ? task.assigneeResolutions.flatMap(r => r.memberId !== null ? [r.memberId.toString()] : [])
+    : findMemberIdsByName(task.suggested_assignees, directory);
   widgets.push({
     selectionInput: {
-      label: 'Assignee',
+      label: 'Assignees',
       name: `assignee_${index}`,
-      type: 'DROPDOWN',
-      items: assigneeItems
+      type: 'MULTI_SELECT',
+      items: buildMemberItems(directory, assigneeIds, ambiguous.flatMap(r => r.candidateIds))
+    }
+  });
+
+  widgets.push({
+    selectionInput: {
+      label: 'Watchers',
+      name: `watchers_${index}`,
+      type: 'MULTI_SELECT',
+      items: buildMemberItems(directory, findMemberIdsByName(task.stakeholders, directory))
     }
   });
 
@@ -399,6 +603,36 @@ function buildTaskCard(
     }
   });
 
+  // Recurrence dropdown, preselecting the extracted recurrence
+  const recurrenceValue = toRecurrenceValue(task.recurrence);
+  widgets.push({
+    selectionInput: {
+      label: 'Repeats',
+      name: `recurrence_${index}`,
+      type: 'DROPDOWN',
+      items: [
+        { text: 'Does not repeat', value: NO_RECURRENCE, selected: recurrenceValue === NO_RECURRENCE },
+        ...getRecurrenceOptions(task.recurrence).map(option => ({
+          text: `🔁 ${formatRecurrence(option)}`,
+          value: toRecurrenceValue(option),
+          selected: toRecurrenceValue(option) === recurrenceValue
+        }))
+      ]
+    }
+  });
+
+  // Steps of a multi-step task, editable one per line
+  if (task.steps?.length) {
+    widgets.push({
+      textInput: {
+        label: 'Steps (one per line)',
+        name: `steps_${index}`,
+        value: task.steps.join('\n'),
+        type: 'MULTIPLE_LINE'
+      }
+    });
+  }
+
   // Priority dropdown
   widgets.push({
     selectionInput: {
@@ -418,7 +652,7 @@ function buildTaskCard(
   if (task.source_quote && !task.source_quote.includes('[Confidential')) {
     widgets.push({
       decoratedText: {
-        topLabel: 'Source Quote',
+        topLabel: task.sourceTimestamp ? `Source Quote • ${task.sourceTimestamp}` : 'Source Quote',
         text: task.source_quote.length > 200
           ? task.source_quote.substring(0, 200) + '...'
           : task.source_quote,
@@ -427,6 +661,27 @@ function buildTaskCard(
     });
   }
 
+  // Existing tasks the reviewer can add this to as a comment instead
+  const candidates = getExistingTaskCandidates(task);
+  if (candidates.length > 0) {
+    const preselectedId = task.possibleDuplicate?.clickupTaskId;
+    widgets.push({
+      selectionInput: {
+        label: 'Or add as comment to existing task',
+        name: `existingTask_${index}`,
+        type: 'DROPDOWN',
+        items: [
+          { text: '-- Select Existing Task --', value: '', selected: !preselectedId },
+          ...candidates.map(c => ({
+            text: c.name.length > 80 ? c.name.substring(0, 80) + '...' : c.name,
+            value: c.clickupTaskId,
+            selected: c.clickupTaskId === preselectedId
+          }))
+        ]
+      }
+    });
+  }
+
   // Action buttons
   widgets.push({
     buttonList: {
@@ -444,6 +699,23 @@ function buildTaskCard(
             }
           }
         },
+        ...(candidates.length > 0 ? [{
+          text: task.possibleDuplicate ? '💬 Comment on Existing Instead' : '💬 Add as Comment',
+          onClick: {
+            action: {
+              function: getChatFunctionUrlCached(),
+              parameters: [
+                { key: 'actionName', value: 'commentOnExisting' },
+                { key: 'pendingId', value: pendingId },
+                { key: 'taskIndex', value: index.toString() },
+                // Fallback when the picker is left untouched; the picker selection wins
+                ...(task.possibleDuplicate
+                  ? [{ key: 'existingTaskId', value: task.possibleDuplicate.clickupTaskId }]
+                  : [])
+              ]
+            }
+          }
+        }] : []),
         {
           text: '❌ Dismiss',
           onClick: {
@@ -478,26 +750,77 @@ function buildTaskCard(
 }
 
 /**
- * Helper to find member ID by name.
+ * Get the existing tasks to offer in the comment picker.
+ * Includes the flagged duplicate even when it came from a recent meeting
+ * rather than the open-task search.
  */
-function findMemberIdByName(name: string | null | undefined, members: ClickUpMember[]): string {
-  if (!name) return '';
-  const normalizedName = name.toLowerCase();
-  const member = members.find(m => {
-    const username = m.username || '';
-    const email = m.email || '';
-    return username.toLowerCase().includes(normalizedName) ||
-           email.toLowerCase().includes(normalizedName);
-  });
-  return member?.id.toString() || '';
+function getExistingTaskCandidates(task: ExtractedTaskWithConfig): ExistingTaskCandidate[] {
+  const candidates = [...(task.existingTaskCandidates || [])];
+  const duplicate = task.possibleDuplicate;
+
+  if (duplicate && !candidates.some(c => c.clickupTaskId === duplicate.clickupTaskId)) {
+    candidates.unshift({
+      clickupTaskId: duplicate.clickupTaskId,
+      name: duplicate.name,
+      url: duplicate.url
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Build member selection items for the people in the directory who have a
+ * ClickUp account, selecting the given member IDs. Candidates for an ambiguous
+ * name come first, in ranked order.
+ */
+function buildMemberItems(
+  directory: TeamDirectoryEntry[],
+  selectedIds: string[],
+  candidateIds: number[] = []
+): Array<{ text: string; value: string; selected: boolean }> {
+  const people = directory.filter((entry): entry is TeamDirectoryEntry & { member: ClickUpMember } => !!entry.member);
+  const rank = (entry: { member: ClickUpMember }) => {
+    const position = candidateIds.indexOf(entry.member.id);
+    return position >= 0 ? position : candidateIds.length;
+  };
+
+  return [...people]
+    .sort((a, b) => rank(a) - rank(b))
+    .map(entry => ({
+      text: `${candidateIds.includes(entry.member.id) ? '❓ ' : ''}${entry.name} (${entry.email})`,
+      value: entry.member.id.toString(),
+      selected: selectedIds.includes(entry.member.id.toString())
+    }));
+}
+
+/**
+ * Get a member's directory name, for display.
+ */
+function getMemberName(memberId: number, directory: TeamDirectoryEntry[]): string {
+  return directory.find(entry => entry.member?.id === memberId)?.name || String(memberId);
+}
+
+/**
+ * Find the member IDs for a list of names, skipping names with no match.
+ */
+function findMemberIdsByName(names: string[] | undefined, directory: TeamDirectoryEntry[]): string[] {
+  const ids = (names || [])
+    .map(name => findTeamMember(name, directory)?.entry.member?.id.toString())
+    .filter((id): id is string => !!id);
+  return [...new Set(ids)];
 }
 
 /**
  * Format date for display.
  */
-function formatDate(dateStr: string): string {
+function formatDate(dateStr: string, timeZone?: string): string {
   try {
-    const date = new Date(dateStr);
+    // The meeting's calendar day in its own zone, not the server's
+    const date = toCalendarDate(dateStr, timeZone || DEFAULT_TIME_ZONE);
+    if (!date) {
+      return dateStr;
+    }
     return date.toLocaleDateString('en-US', {
       weekday: 'short',
       year: 'numeric',
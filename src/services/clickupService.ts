@@ -1,14 +1,19 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { getClickUpApiKey, appConfig } from '../config/index.js';
+import { AxiosInstance, AxiosError } from 'axios';
+import { appConfig } from '../config/index.js';
+import { getClickUp } from '../adapters/index.js';
 import type {
   ClickUpTask,
   ClickUpCreateTaskPayload,
   ClickUpMember,
   TaskPriority,
+  TaskRecurrence,
+  StepsMode,
   ExtractionType
 } from '../types/index.js';
-
-const CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
+import { titleSimilarity } from '../utils/taskSimilarity.js';
+import { zonedTimeToUtc, DEFAULT_TIME_ZONE } from '../utils/timezone.js';
+import { formatRecurrence } from '../utils/recurrence.js';
+import { buildTeamDirectory, findTeamMember } from '../utils/teamDirectory.js';
 
 // ClickUp priority mapping (1=urgent, 2=high, 3=normal, 4=low)
 const PRIORITY_MAP: Record<TaskPriority, number> = {
@@ -18,22 +23,24 @@ const PRIORITY_MAP: Record<TaskPriority, number> = {
   low: 4
 };
 
+const DEFAULT_DUE_TIME = '18:00';
+
 // Cache for workspace members (refreshed every 5 minutes)
 let membersCache: ClickUpMember[] | null = null;
 let membersCacheTime: number = 0;
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+// Cache for open tasks per list, so searching for several extracted tasks
+// against the same list only fetches it once
+const openTasksCache = new Map<string, { tasks: ClickUpTask[]; time: number }>();
+const OPEN_TASKS_CACHE_TTL_MS = 60 * 1000; // 1 minute
+const MAX_OPEN_TASK_PAGES = 5; // ClickUp returns 100 tasks per page
+
 /**
- * Create an axios instance for ClickUp API.
+ * Get the axios instance for ClickUp API (live or injected).
  */
 function getClickUpClient(): AxiosInstance {
-  return axios.create({
-    baseURL: CLICKUP_API_BASE,
-    headers: {
-      'Authorization': getClickUpApiKey(),
-      'Content-Type': 'application/json'
-    }
-  });
+  return getClickUp();
 }
 
 /**
@@ -99,36 +106,12 @@ export async function getWorkspaceMembers(forceRefresh: boolean = false): Promis
 }
 
 /**
- * Find the best matching ClickUp member for a name from the transcript.
- * Matches against username, email, and common name patterns.
+ * Find the ClickUp member a name from the transcript refers to, using the team
+ * directory (ClickUp members merged with config/team-mapping.json aliases).
  */
 export async function findMemberByName(name: string): Promise<ClickUpMember | null> {
   const members = await getWorkspaceMembers();
-  const normalizedName = name.toLowerCase().trim();
-
-  // Try exact matches first
-  let match = members.find(m =>
-    m.username.toLowerCase() === normalizedName ||
-    m.email.toLowerCase() === normalizedName ||
-    m.email.split('@')[0].toLowerCase() === normalizedName
-  );
-
-  if (match) return match;
-
-  // Try partial matches (first name, last name)
-  match = members.find(m => {
-    const username = m.username.toLowerCase();
-    const emailName = m.email.split('@')[0].toLowerCase().replace(/[._-]/g, ' ');
-
-    return (
-      username.includes(normalizedName) ||
-      normalizedName.includes(username.split(' ')[0]) ||
-      emailName.includes(normalizedName) ||
-      normalizedName.includes(emailName.split(' ')[0])
-    );
-  });
-
-  return match || null;
+  return findTeamMember(name, buildTeamDirectory(members))?.entry.member || null;
 }
 
 /**
@@ -154,14 +137,23 @@ export async function getListDetails(listId: string): Promise<{
 
 /**
  * Create a task in ClickUp.
+ * ClickUp's API has no recurrence settings on task creation, so a recurring task's
+ * schedule goes into a "Recurrence"/"Repeats" custom field if the list has one; the
+ * description also states it (see buildTaskDescription). Watchers can't be added either:
+ * ClickUp v2 has no documented field or endpoint for them, so callers list them in the
+ * description and tell the reviewer to add them.
  */
 export async function createTask(
   listId: string,
   taskData: {
     name: string;
     description?: string;
-    assigneeId?: number;
+    assigneeIds?: number[];
     dueDate?: string;
+    timeZone?: string;  // Zone the due date is a local day in (assignee's, else the folder's)
+    recurrence?: TaskRecurrence | null;
+    steps?: string[];
+    stepsMode?: StepsMode;  // Default "checklist"
     priority?: TaskPriority;
     meetingLink?: string;
     extractionType?: ExtractionType;
@@ -175,15 +167,23 @@ export async function createTask(
     description: taskData.description
   };
 
-  // Add assignee if provided
-  if (taskData.assigneeId) {
-    payload.assignees = [taskData.assigneeId];
+  // Add assignees if provided
+  if (taskData.assigneeIds && taskData.assigneeIds.length > 0) {
+    payload.assignees = taskData.assigneeIds;
   }
 
-  // Add due date if provided (convert ISO string to Unix timestamp in ms)
+  // Add due date if provided. A plain date is due at the configured end of day in the
+  // task's zone, so it doesn't show up as the previous evening in ClickUp
   if (taskData.dueDate) {
-    const dueTimestamp = new Date(taskData.dueDate).getTime();
-    payload.due_date = dueTimestamp;
+    const dueDate = /^\d{4}-\d{2}-\d{2}$/.test(taskData.dueDate)
+      ? zonedTimeToUtc(
+          taskData.dueDate,
+          appConfig.taskDefaults.dueTime || DEFAULT_DUE_TIME,
+          taskData.timeZone || DEFAULT_TIME_ZONE
+        )
+      : new Date(taskData.dueDate);
+    payload.due_date = dueDate.getTime();
+    payload.due_date_time = true;
   }
 
   // Add priority if provided
@@ -201,14 +201,19 @@ export async function createTask(
   const task = response.data;
 
   // If we have custom fields to set, update the task
-  if (taskData.meetingLink || taskData.extractionType || taskData.sourceFolder) {
+  if (taskData.meetingLink || taskData.extractionType || taskData.sourceFolder || taskData.recurrence) {
     await updateTaskCustomFields(task.id, listId, {
       meetingLink: taskData.meetingLink,
       extractionType: taskData.extractionType,
-      sourceFolder: taskData.sourceFolder
+      sourceFolder: taskData.sourceFolder,
+      recurrence: taskData.recurrence ? formatRecurrence(taskData.recurrence) : undefined
     });
   }
 
+  if (taskData.steps && taskData.steps.length > 0) {
+    await addTaskSteps(task.id, listId, taskData.steps, taskData.stepsMode || 'checklist', payload);
+  }
+
   return {
     id: task.id,
     name: task.name,
@@ -221,6 +226,53 @@ export async function createTask(
   };
 }
 
+/**
+ * Add a task's steps as subtasks (with the parent's assignee, due date and priority)
+ * or as a "Steps" checklist on it.
+ */
+async function addTaskSteps(
+  taskId: string,
+  listId: string,
+  steps: string[],
+  mode: StepsMode,
+  parentPayload: ClickUpCreateTaskPayload
+): Promise<void> {
+  const client = getClickUpClient();
+
+  try {
+    if (mode === 'subtasks') {
+      for (const step of steps) {
+        const subtask: ClickUpCreateTaskPayload = {
+          name: step,
+          parent: taskId,
+          assignees: parentPayload.assignees,
+          due_date: parentPayload.due_date,
+          due_date_time: parentPayload.due_date_time,
+          priority: parentPayload.priority
+        };
+        await withRetry(async () => {
+          return client.post(`/list/${listId}/task`, subtask);
+        });
+      }
+      return;
+    }
+
+    const response = await withRetry(async () => {
+      return client.post(`/task/${taskId}/checklist`, { name: 'Steps' });
+    });
+    const checklistId = response.data.checklist.id;
+
+    for (const step of steps) {
+      await withRetry(async () => {
+        return client.post(`/checklist/${checklistId}/checklist_item`, { name: step });
+      });
+    }
+  } catch (error) {
+    // The task itself exists; missing steps can be added by hand, so log but don't fail
+    console.warn(`Failed to add steps to task ${taskId}:`, error);
+  }
+}
+
 /**
  * Update task custom fields.
  */
@@ -231,6 +283,7 @@ async function updateTaskCustomFields(
     meetingLink?: string;
     extractionType?: ExtractionType;
     sourceFolder?: string;
+    recurrence?: string;
   }
 ): Promise<void> {
   const client = getClickUpClient();
@@ -249,6 +302,8 @@ async function updateTaskCustomFields(
         value = customData.extractionType;
       } else if (field.name.toLowerCase().includes('folder') && customData.sourceFolder) {
         value = customData.sourceFolder;
+      } else if (/recurr|repeat/.test(field.name.toLowerCase()) && customData.recurrence) {
+        value = customData.recurrence;
       }
 
       if (value) {
@@ -293,6 +348,80 @@ export async function getTask(taskId: string): Promise<ClickUpTask | null> {
   }
 }
 
+/**
+ * Get open (not closed or archived) tasks in a list.
+ * Results are cached for a minute per list.
+ */
+export async function getOpenTasks(listId: string, forceRefresh: boolean = false): Promise<ClickUpTask[]> {
+  const cached = openTasksCache.get(listId);
+  if (!forceRefresh && cached && Date.now() - cached.time < OPEN_TASKS_CACHE_TTL_MS) {
+    return cached.tasks;
+  }
+
+  const client = getClickUpClient();
+  const tasks: ClickUpTask[] = [];
+
+  for (let page = 0; page < MAX_OPEN_TASK_PAGES; page++) {
+    const response = await withRetry(async () => {
+      return client.get(`/list/${listId}/task`, {
+        params: { archived: false, include_closed: false, subtasks: true, page }
+      });
+    });
+
+    const pageTasks = response.data.tasks || [];
+    tasks.push(...pageTasks.map((task: any) => ({
+      id: task.id,
+      name: task.name,
+      description: task.description,
+      status: task.status?.status || 'Open',
+      priority: task.priority,
+      assignees: task.assignees,
+      due_date: task.due_date,
+      url: task.url
+    })));
+
+    if (response.data.last_page !== false || pageTasks.length === 0) {
+      break;
+    }
+  }
+
+  openTasksCache.set(listId, { tasks, time: Date.now() });
+  return tasks;
+}
+
+/**
+ * Search open tasks in a list by title similarity.
+ * Returns matches at or above minSimilarity, best match first.
+ */
+export async function searchTasks(
+  listId: string,
+  query: string,
+  options: { minSimilarity?: number; limit?: number } = {}
+): Promise<Array<ClickUpTask & { similarity: number }>> {
+  const { minSimilarity = 0.5, limit = 5 } = options;
+  const tasks = await getOpenTasks(listId);
+
+  return tasks
+    .map(task => ({ ...task, similarity: titleSimilarity(query, task.name) }))
+    .filter(task => task.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Add a comment to an existing task.
+ */
+export async function addTaskComment(taskId: string, commentText: string): Promise<void> {
+  const client = getClickUpClient();
+
+  await withRetry(async () => {
+    return client.post(`/task/${taskId}/comment`, {
+      comment_text: commentText,
+      notify_all: false
+    });
+  });
+}
+
 /**
  * Create multiple tasks in bulk.
  */
@@ -301,8 +430,9 @@ export async function createTasksBulk(
   tasks: Array<{
     name: string;
     description?: string;
-    assigneeId?: number;
+    assigneeIds?: number[];
     dueDate?: string;
+    timeZone?: string;
     priority?: TaskPriority;
   }>
 ): Promise<ClickUpTask[]> {
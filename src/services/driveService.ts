@@ -1,23 +1,18 @@
-import { google, drive_v3 } from 'googleapis';
-import { Firestore } from '@google-cloud/firestore';
 import { getAllFolderIds } from '../utils/folderConfigResolver.js';
+import { getDrive, getFirestore } from '../adapters/index.js';
+import { extractDocxText } from '../utils/docxExtractor.js';
+import { extractPdfText } from '../utils/pdfExtractor.js';
+import { detectTranscriptFormat } from '../utils/transcriptParser.js';
 import type { DriveFileMetadata, WatcherChannel } from '../types/index.js';
 import { getConfig } from '../config/index.js';
 
 const config = getConfig();
-const firestore = new Firestore();
 const WATCHERS_COLLECTION = 'drive-watchers';
 
-// Initialize Drive client with default credentials
-function getDriveClient(): drive_v3.Drive {
-  const auth = new google.auth.GoogleAuth({
-    scopes: [
-      'https://www.googleapis.com/auth/drive.readonly',
-      'https://www.googleapis.com/auth/drive.metadata.readonly'
-    ]
-  });
-  return google.drive({ version: 'v3', auth });
-}
+const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const LEGACY_DOC_MIME_TYPE = 'application/msword';
+const PDF_MIME_TYPE = 'application/pdf';
 
 /**
  * Set up push notifications for all configured folders.
@@ -40,8 +35,6 @@ export async function setupAllFolderWatchers(webhookUrl: string): Promise<void>
  * Note: Drive push notifications require periodic renewal (max 24h for most, 7 days for some)
  */
 async function setupFolderWatcher(folderId: string, webhookUrl: string): Promise<void> {
-  const drive = getDriveClient();
-
   // First, stop any existing watcher for this folder
   await stopExistingWatcher(folderId);
 
@@ -50,36 +43,25 @@ async function setupFolderWatcher(folderId: string, webhookUrl: string): Promise
   // Calculate expiration (use 23 hours to be safe, renew before expiration)
   const expirationMs = Date.now() + (23 * 60 * 60 * 1000);
 
-  const response = await drive.files.watch({
-    fileId: folderId,
-    requestBody: {
-      id: channelId,
-      type: 'web_hook',
-      address: webhookUrl,
-      expiration: String(expirationMs)
-    }
+  const { resourceId } = await getDrive().watchFolder(folderId, {
+    id: channelId,
+    address: webhookUrl,
+    expiration: expirationMs
   });
 
   // Store channel info in Firestore for renewal management
-  await storeWatcherChannel(folderId, channelId, response.data.resourceId || undefined, expirationMs);
+  await storeWatcherChannel(folderId, channelId, resourceId, expirationMs);
 }
 
 /**
  * Stop an existing watcher for a folder.
  */
 async function stopExistingWatcher(folderId: string): Promise<void> {
-  const drive = getDriveClient();
-
   try {
-    const doc = await firestore.collection(WATCHERS_COLLECTION).doc(folderId).get();
+    const doc = await getFirestore().collection(WATCHERS_COLLECTION).doc(folderId).get();
     if (doc.exists) {
       const data = doc.data() as WatcherChannel;
-      await drive.channels.stop({
-        requestBody: {
-          id: data.channelId,
-          resourceId: data.resourceId
-        }
-      });
+      await getDrive().stopChannel(data.channelId, data.resourceId);
       console.log(`Stopped existing watcher for folder: ${folderId}`);
     }
   } catch (error) {
@@ -105,77 +87,52 @@ async function storeWatcherChannel(
     createdAt: new Date()
   };
 
-  await firestore.collection(WATCHERS_COLLECTION).doc(folderId).set(watcherData);
+  await getFirestore().collection(WATCHERS_COLLECTION).doc(folderId).set(watcherData);
 }
 
 /**
  * Get the parent folder ID from a file.
  */
 export async function getFileFolderId(fileId: string): Promise<string | null> {
-  const drive = getDriveClient();
-
-  const response = await drive.files.get({
-    fileId: fileId,
-    fields: 'parents'
-  });
-
-  return response.data.parents?.[0] || null;
+  const metadata = await getDrive().getFileMetadata(fileId);
+  return metadata.parents?.[0] || null;
 }
 
 /**
  * Get file metadata including owner information.
  */
 export async function getFileMetadata(fileId: string): Promise<DriveFileMetadata> {
-  const drive = getDriveClient();
-
-  const response = await drive.files.get({
-    fileId: fileId,
-    fields: 'id,name,mimeType,createdTime,modifiedTime,parents,owners,webViewLink'
-  });
-
-  return {
-    id: response.data.id!,
-    name: response.data.name!,
-    mimeType: response.data.mimeType!,
-    createdTime: response.data.createdTime!,
-    modifiedTime: response.data.modifiedTime!,
-    parents: response.data.parents || undefined,
-    owners: response.data.owners?.map(o => ({
-      emailAddress: o.emailAddress!,
-      displayName: o.displayName || undefined
-    })),
-    webViewLink: response.data.webViewLink || undefined
-  };
+  return getDrive().getFileMetadata(fileId);
 }
 
 /**
  * Get file content as text.
- * Handles different file types (txt, docx, Google Docs).
+ * Handles different file types (txt, vtt, srt, json, docx, pdf, Google Docs).
  */
 export async function getFileContent(fileId: string): Promise<string> {
-  const drive = getDriveClient();
+  const drive = getDrive();
 
   // First get the file metadata to determine type
   const metadata = await getFileMetadata(fileId);
 
   // For Google Docs, export as plain text
-  if (metadata.mimeType === 'application/vnd.google-apps.document') {
-    const response = await drive.files.export({
-      fileId: fileId,
-      mimeType: 'text/plain'
-    });
-    return response.data as string;
+  if (metadata.mimeType === GOOGLE_DOC_MIME_TYPE) {
+    return drive.exportFile(fileId, 'text/plain');
   }
 
-  // For text files and other formats, download directly
-  const response = await drive.files.get({
-    fileId: fileId,
-    alt: 'media'
-  }, {
-    responseType: 'text'
-  });
+  // Download the raw bytes - Word and PDF files are binary, not text
+  const content = await drive.downloadFile(fileId);
+  const name = metadata.name.toLowerCase();
+
+  if (metadata.mimeType === DOCX_MIME_TYPE || name.endsWith('.docx')) {
+    return extractDocxText(content);
+  }
+
+  if (metadata.mimeType === PDF_MIME_TYPE || name.endsWith('.pdf')) {
+    return extractPdfText(content);
+  }
 
-  return response.data as string;
+  return content.toString('utf-8');
 }
 
 /**
@@ -185,28 +142,7 @@ export async function listRecentTranscripts(
   folderId: string,
   maxResults: number = 10
 ): Promise<DriveFileMetadata[]> {
-  const drive = getDriveClient();
-
-  const response = await drive.files.list({
-    q: `'${folderId}' in parents and trashed = false`,
-    fields: 'files(id,name,mimeType,createdTime,modifiedTime,parents,owners,webViewLink)',
-    orderBy: 'createdTime desc',
-    pageSize: maxResults
-  });
-
-  return (response.data.files || []).map(file => ({
-    id: file.id!,
-    name: file.name!,
-    mimeType: file.mimeType!,
-    createdTime: file.createdTime!,
-    modifiedTime: file.modifiedTime!,
-    parents: file.parents || undefined,
-    owners: file.owners?.map(o => ({
-      emailAddress: o.emailAddress!,
-      displayName: o.displayName || undefined
-    })),
-    webViewLink: file.webViewLink || undefined
-  }));
+  return getDrive().listFolderFiles(folderId, maxResults);
 }
 
 /**
@@ -217,19 +153,41 @@ export function isValidTranscript(metadata: DriveFileMetadata): boolean {
   const mimeType = metadata.mimeType;
 
   // Check for common transcript file extensions/types
-  const validExtensions = ['.txt', '.vtt', '.srt', '.docx', '.doc'];
+  const validExtensions = ['.txt', '.vtt', '.srt', '.json', '.docx', '.pdf'];
   const validMimeTypes = [
     'text/plain',
     'text/vtt',
-    'application/vnd.google-apps.document',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword'
+    'application/json',
+    GOOGLE_DOC_MIME_TYPE,
+    DOCX_MIME_TYPE,
+    PDF_MIME_TYPE
   ];
 
   const hasValidExtension = validExtensions.some(ext => name.endsWith(ext));
   const hasValidMimeType = validMimeTypes.includes(mimeType);
 
-  return hasValidExtension || hasValidMimeType;
+  return (hasValidExtension || hasValidMimeType) && !getUnsupportedReason(metadata);
+}
+
+/**
+ * Explain why a file that looks like a transcript can't be processed, or null if it can.
+ * Legacy .doc files can't be exported by Drive (only Google Docs can) and
+ * converting them would need write access to the folder.
+ * Pass the file's content to also reject JSON that isn't a known transcript export,
+ * which would otherwise reach the model as raw JSON.
+ */
+export function getUnsupportedReason(metadata: DriveFileMetadata, content?: string): string | null {
+  const name = metadata.name.toLowerCase();
+
+  if (metadata.mimeType === LEGACY_DOC_MIME_TYPE || name.endsWith('.doc')) {
+    return 'legacy Word .doc files are not supported; save the transcript as .docx or a Google Doc';
+  }
+
+  const isJson = metadata.mimeType === 'application/json' || name.endsWith('.json');
+  if (isJson && content !== undefined && !detectTranscriptFormat(content).endsWith('_json')) {
+    return 'JSON file is not a recognized Zoom, Otter or Fireflies transcript export';
+  }
+  return null;
 }
 
 /**
@@ -239,7 +197,7 @@ export async function renewExpiringWatchers(webhookUrl: string): Promise<void> {
   const renewalThresholdMs = config.driveWatcher.renewalIntervalHours * 60 * 60 * 1000;
   const thresholdDate = new Date(Date.now() + renewalThresholdMs);
 
-  const snapshot = await firestore.collection(WATCHERS_COLLECTION)
+  const snapshot = await getFirestore().collection(WATCHERS_COLLECTION)
     .where('expiration', '<', thresholdDate)
     .get();
 
@@ -1,22 +1,26 @@
-import { Firestore, FieldValue } from '@google-cloud/firestore';
+import { FieldValue } from '@google-cloud/firestore';
 import { v4 as uuidv4 } from 'uuid';
 import { getConfig } from '../config/index.js';
+import { getFirestore } from '../adapters/index.js';
 import type {
   PendingTasksData,
   FolderConfig,
   ExtractedTaskWithConfig,
   MeetingInfo,
-  MeetingAnalysis
+  MeetingAnalysis,
+  MeetingItemKind
 } from '../types/index.js';
 
 const config = getConfig();
-const firestore = new Firestore();
+
+// One document per folder and learned name
+const ASSIGNEE_ALIASES_COLLECTION = 'assignee-aliases';
 
 /**
  * Get the pending tasks collection reference.
  */
 function getPendingTasksCollection() {
-  return firestore.collection(config.gcp.firestoreCollection);
+  return getFirestore().collection(config.gcp.firestoreCollection);
 }
 
 /**
@@ -86,7 +90,7 @@ export async function markTaskAsCreated(
 ): Promise<void> {
   const docRef = getPendingTasksCollection().doc(pendingId);
 
-  await firestore.runTransaction(async (transaction) => {
+  await getFirestore().runTransaction(async (transaction) => {
     const doc = await transaction.get(docRef);
 
     if (!doc.exists) {
@@ -101,8 +105,7 @@ export async function markTaskAsCreated(
     }
 
     // Add clickup task ID to the task
-    (tasks[taskIndex] as any).clickupTaskId = clickupTaskId;
-    (tasks[taskIndex] as any).createdAt = new Date().toISOString();
+    tasks[taskIndex] = { ...tasks[taskIndex], clickupTaskId, createdAt: new Date().toISOString() };
 
     const updates: Record<string, any> = {
       tasks,
@@ -118,6 +121,47 @@ export async function markTaskAsCreated(
   });
 }
 
+/**
+ * Mark a task as linked to an existing ClickUp task (added as a comment instead of created).
+ * Automatically marks the parent document as 'completed' if all tasks are resolved.
+ */
+export async function markTaskAsLinked(
+  pendingId: string,
+  taskIndex: number,
+  clickupTaskId: string
+): Promise<void> {
+  const docRef = getPendingTasksCollection().doc(pendingId);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+
+    if (!doc.exists) {
+      throw new Error(`Pending tasks not found: ${pendingId}`);
+    }
+
+    const data = doc.data() as PendingTasksData;
+    const tasks = [...data.tasks];
+
+    if (taskIndex < 0 || taskIndex >= tasks.length) {
+      throw new Error(`Invalid task index: ${taskIndex}`);
+    }
+
+    tasks[taskIndex] = { ...tasks[taskIndex], linkedTaskId: clickupTaskId, linkedAt: new Date().toISOString() };
+
+    const updates: Record<string, any> = {
+      tasks,
+      updatedAt: FieldValue.serverTimestamp()
+    };
+
+    // If all tasks are now dismissed, created or linked, mark the whole set as completed
+    if (areAllTasksResolved(tasks)) {
+      updates.status = 'completed';
+    }
+
+    transaction.update(docRef, updates);
+  });
+}
+
 /**
  * Mark a task as dismissed (user declined to create it).
  * Automatically marks the parent document as 'completed' if all tasks are resolved.
@@ -128,7 +172,7 @@ export async function markTaskAsDismissed(
 ): Promise<void> {
   const docRef = getPendingTasksCollection().doc(pendingId);
 
-  await firestore.runTransaction(async (transaction) => {
+  await getFirestore().runTransaction(async (transaction) => {
     const doc = await transaction.get(docRef);
 
     if (!doc.exists) {
@@ -142,8 +186,7 @@ export async function markTaskAsDismissed(
       throw new Error(`Invalid task index: ${taskIndex}`);
     }
 
-    (tasks[taskIndex] as any).dismissed = true;
-    (tasks[taskIndex] as any).dismissedAt = new Date().toISOString();
+    tasks[taskIndex] = { ...tasks[taskIndex], dismissed: true, dismissedAt: new Date().toISOString() };
 
     const updates: Record<string, any> = {
       tasks,
@@ -159,6 +202,40 @@ export async function markTaskAsDismissed(
   });
 }
 
+/**
+ * Record the ClickUp task a reviewer turned a blocker or open question into.
+ */
+export async function markMeetingItemAsCreated(
+  pendingId: string,
+  kind: MeetingItemKind,
+  itemIndex: number,
+  clickupTaskId: string
+): Promise<void> {
+  const docRef = getPendingTasksCollection().doc(pendingId);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+
+    if (!doc.exists) {
+      throw new Error(`Pending tasks not found: ${pendingId}`);
+    }
+
+    const data = doc.data() as PendingTasksData;
+    const items = [...(data.analysis[kind] || [])];
+
+    if (itemIndex < 0 || itemIndex >= items.length) {
+      throw new Error(`Invalid ${kind} index: ${itemIndex}`);
+    }
+
+    items[itemIndex] = { ...items[itemIndex], clickupTaskId };
+
+    transaction.update(docRef, {
+      analysis: { ...data.analysis, [kind]: items },
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  });
+}
+
 /**
  * Update task details before creation (from user edits in the card).
  */
@@ -169,7 +246,7 @@ export async function updateTaskDetails(
 ): Promise<void> {
   const docRef = getPendingTasksCollection().doc(pendingId);
 
-  await firestore.runTransaction(async (transaction) => {
+  await getFirestore().runTransaction(async (transaction) => {
     const doc = await transaction.get(docRef);
 
     if (!doc.exists) {
@@ -193,10 +270,52 @@ export async function updateTaskDetails(
 }
 
 /**
- * Check if all tasks in a set are resolved (either created or dismissed).
+ * Save the reviewer's speaker mapping: the updated meeting info, and the tasks whose
+ * speaker labels were replaced with names. Tasks acted on in the meantime are kept as they are.
  */
-function areAllTasksResolved(tasks: any[]): boolean {
-  return tasks.every(t => t.clickupTaskId || t.dismissed);
+export async function saveSpeakerMapping(
+  pendingId: string,
+  meetingInfo: MeetingInfo,
+  taskUpdates: Record<number, Partial<ExtractedTaskWithConfig>>
+): Promise<void> {
+  const docRef = getPendingTasksCollection().doc(pendingId);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+
+    if (!doc.exists) {
+      throw new Error(`Pending tasks not found: ${pendingId}`);
+    }
+
+    // Fields an update clears (a routing rule that no longer applies) are undefined,
+    // which Firestore doesn't store
+    const data = doc.data() as PendingTasksData;
+    const tasks = data.tasks.map((task, i) =>
+      taskUpdates[i] && !isTaskResolved(task)
+        ? Object.fromEntries(Object.entries({ ...task, ...taskUpdates[i] }).filter(([, value]) => value !== undefined))
+        : task
+    );
+
+    transaction.update(docRef, {
+      meetingInfo,
+      tasks,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  });
+}
+
+/**
+ * Check if all tasks in a set are resolved (created, linked to an existing task, or dismissed).
+ */
+function areAllTasksResolved(tasks: ExtractedTaskWithConfig[]): boolean {
+  return tasks.every(isTaskResolved);
+}
+
+/**
+ * Check if a task has been created, linked to an existing task, or dismissed.
+ */
+export function isTaskResolved(task: ExtractedTaskWithConfig): boolean {
+  return !!(task.clickupTaskId || task.linkedTaskId || task.dismissed);
 }
 
 /**
@@ -224,6 +343,75 @@ export async function isFileAlreadyProcessed(fileId: string): Promise<boolean> {
   return !snapshot.empty;
 }
 
+/**
+ * Get tasks created in ClickUp from meetings processed in the last N days.
+ * Used to flag new tasks that repeat a recent commitment.
+ */
+export async function getRecentlyCreatedTasks(days: number = 30): Promise<Array<{
+  clickupTaskId: string;
+  clickupListId: string;
+  title: string;
+  meetingTitle: string;
+}>> {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - days);
+
+  const snapshot = await getPendingTasksCollection()
+    .where('createdAt', '>=', cutoffDate)
+    .get();
+
+  const created: Array<{ clickupTaskId: string; clickupListId: string; title: string; meetingTitle: string }> = [];
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data() as PendingTasksData;
+    for (const task of data.tasks) {
+      if (task.clickupTaskId) {
+        created.push({
+          clickupTaskId: task.clickupTaskId,
+          clickupListId: task.clickupListId,
+          title: task.title,
+          meetingTitle: data.meetingInfo.title
+        });
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Get the assignee aliases reviewers have taught a folder, as normalized name → ClickUp member ID.
+ */
+export async function getLearnedAliases(folderId: string): Promise<Record<string, number>> {
+  const snapshot = await getFirestore()
+    .collection(ASSIGNEE_ALIASES_COLLECTION)
+    .where('folderId', '==', folderId)
+    .get();
+
+  const aliases: Record<string, number> = {};
+  for (const doc of snapshot.docs) {
+    const data = doc.data() as { name: string; memberId: number };
+    aliases[data.name] = data.memberId;
+  }
+  return aliases;
+}
+
+/**
+ * Remember which member a name refers to in a folder's meetings.
+ * The name should already be normalized (see normalizeName).
+ */
+export async function saveLearnedAlias(folderId: string, name: string, memberId: number): Promise<void> {
+  await getFirestore()
+    .collection(ASSIGNEE_ALIASES_COLLECTION)
+    .doc(`${folderId}:${name}`)
+    .set({
+      folderId,
+      name,
+      memberId,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+}
+
 /**
  * Clean up old pending tasks (older than specified days).
  */
@@ -235,7 +423,7 @@ export async function cleanupOldPendingTasks(olderThanDays: number = 7): Promise
     .where('createdAt', '<', cutoffDate)
     .get();
 
-  const batch = firestore.batch();
+  const batch = getFirestore().batch();
   let count = 0;
 
   for (const doc of snapshot.docs) {
@@ -0,0 +1,52 @@
+import axios from 'axios';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { MeetingAnalysisSchema } from '../../schemas/taskSchema.js';
+import { appConfig, getLLMApiKey } from '../../config/index.js';
+import { createProvider } from './baseProvider.js';
+import type { LLMProvider } from './types.js';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+const TOOL_NAME = 'record_meeting_analysis';
+
+/**
+ * Anthropic provider. Forces a single tool call whose input schema is the
+ * MeetingAnalysis JSON schema, which is how Claude returns structured output.
+ */
+export function createAnthropicProvider(): LLMProvider {
+  const inputSchema = zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis').json_schema.schema;
+
+  return createProvider('anthropic', async request => {
+    const response = await axios.post(ANTHROPIC_API_URL, {
+      model: request.model,
+      max_tokens: appConfig.llm.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+      temperature: 0.2,
+      system: request.systemPrompt,
+      messages: [
+        { role: 'user', content: request.userPrompt }
+      ],
+      tools: [
+        {
+          name: TOOL_NAME,
+          description: 'Record the tasks, summary, decisions and open items extracted from the meeting transcript',
+          input_schema: inputSchema
+        }
+      ],
+      tool_choice: { type: 'tool', name: TOOL_NAME }
+    }, {
+      headers: {
+        'x-api-key': getLLMApiKey('anthropic'),
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const toolUse = (response.data.content || []).find((block: any) => block.type === 'tool_use');
+    if (!toolUse) {
+      throw new Error('Anthropic response did not include a tool call');
+    }
+
+    return toolUse.input;
+  });
+}
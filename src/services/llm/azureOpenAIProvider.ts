@@ -0,0 +1,24 @@
+import { AzureOpenAI } from 'openai';
+import { appConfig, getLLMApiKey } from '../../config/index.js';
+import { createProvider } from './baseProvider.js';
+import { parseWithStructuredOutput } from './openaiProvider.js';
+import type { LLMProvider } from './types.js';
+
+/**
+ * Azure OpenAI provider. The configured model names are Azure deployment names.
+ */
+export function createAzureOpenAIProvider(): LLMProvider {
+  return createProvider('azure-openai', request => {
+    const { azure } = appConfig.llm;
+    if (!azure?.endpoint) {
+      throw new Error('llm.azure.endpoint must be set to use the azure-openai provider');
+    }
+
+    const client = new AzureOpenAI({
+      apiKey: getLLMApiKey('azure-openai'),
+      endpoint: azure.endpoint,
+      apiVersion: azure.apiVersion
+    });
+    return parseWithStructuredOutput(client, request);
+  });
+}
@@ -0,0 +1,51 @@
+import { MeetingAnalysisSchema, type MeetingAnalysis } from '../../schemas/taskSchema.js';
+import { SYSTEM_PROMPT, buildUserPrompt } from './prompts.js';
+import type { LLMProvider, LLMCompletionRequest } from './types.js';
+
+/**
+ * Build an LLMProvider from a function that returns the model's raw JSON output.
+ * Every provider goes through here so the output is always validated against
+ * MeetingAnalysisSchema, whatever the backend's own structured-output support.
+ */
+export function createProvider(
+  name: string,
+  completeRaw: (request: LLMCompletionRequest) => Promise<unknown>
+): LLMProvider {
+  async function complete(request: LLMCompletionRequest): Promise<MeetingAnalysis> {
+    const raw = await completeRaw(request);
+    const result = MeetingAnalysisSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`${name} response did not match MeetingAnalysisSchema: ${result.error.message}`);
+    }
+    return result.data;
+  }
+
+  return {
+    name,
+    complete,
+    extract(transcript, meetingInfo, { model, chunk, profile }) {
+      return complete({
+        systemPrompt: SYSTEM_PROMPT,
+        userPrompt: buildUserPrompt(transcript, meetingInfo, chunk, profile),
+        model
+      });
+    }
+  };
+}
+
+/**
+ * Parse a JSON object out of a free-form model reply.
+ * Tolerates markdown code fences and leading/trailing prose.
+ */
+export function parseJsonReply(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('Model reply did not contain a JSON object');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
@@ -0,0 +1,53 @@
+import { appConfig } from '../../config/index.js';
+import { createOpenAIProvider } from './openaiProvider.js';
+import { createAzureOpenAIProvider } from './azureOpenAIProvider.js';
+import { createAnthropicProvider } from './anthropicProvider.js';
+import { createOpenAICompatibleProvider } from './openaiCompatibleProvider.js';
+import { createReplayProvider, createRecordingProvider } from './replayProvider.js';
+import type { LLMProvider, LLMProviderName } from './types.js';
+import type { LLMMode } from '../../types/index.js';
+
+export type { LLMProvider, LLMProviderName, LLMCompletionRequest, TranscriptChunkContext } from './types.js';
+export { hashTranscript } from './replayProvider.js';
+
+const PROVIDER_FACTORIES: Record<LLMProviderName, () => LLMProvider> = {
+  'openai': createOpenAIProvider,
+  'azure-openai': createAzureOpenAIProvider,
+  'anthropic': createAnthropicProvider,
+  'openai-compatible': createOpenAICompatibleProvider
+};
+
+/**
+ * Get the LLM provider selected by `llm.provider` in config.
+ *
+ * `llm.mode` (or the LLM_MODE env var) switches to offline fixtures:
+ * - `replay`: return recorded responses from the fixtures directory, no network
+ * - `record`: call the real provider and save each response as a fixture
+ */
+export function getLLMProvider(): LLMProvider {
+  const mode = getLLMMode();
+  if (mode === 'replay') {
+    return createReplayProvider();
+  }
+
+  const name = appConfig.llm.provider || 'openai';
+  const factory = PROVIDER_FACTORIES[name];
+
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name}. Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+  }
+
+  const provider = factory();
+  return mode === 'record' ? createRecordingProvider(provider) : provider;
+}
+
+/**
+ * Get the extraction mode, with LLM_MODE taking precedence over config.
+ */
+export function getLLMMode(): LLMMode {
+  const mode = process.env.LLM_MODE || appConfig.llm.mode || 'live';
+  if (mode !== 'live' && mode !== 'replay' && mode !== 'record') {
+    throw new Error(`Unknown LLM mode: ${mode}. Expected live, replay or record`);
+  }
+  return mode;
+}
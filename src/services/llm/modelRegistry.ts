@@ -0,0 +1,79 @@
+import { getEncoding, type Tiktoken } from 'js-tiktoken';
+import { appConfig } from '../../config/index.js';
+import type { LLMModelSpec, TokenizerEncoding } from '../../types/index.js';
+
+/**
+ * Known models. Prices are list prices in USD per million tokens; override them
+ * (or add Azure deployment names) with `llm.models` in config/default.json.
+ */
+const MODEL_REGISTRY: Record<string, LLMModelSpec> = {
+  'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, inputPricePerMillion: 2.5, outputPricePerMillion: 10, encoding: 'o200k_base' },
+  'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384, inputPricePerMillion: 0.15, outputPricePerMillion: 0.6, encoding: 'o200k_base' },
+  'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768, inputPricePerMillion: 2, outputPricePerMillion: 8, encoding: 'o200k_base' },
+  'gpt-4.1-mini': { contextWindow: 1047576, maxOutputTokens: 32768, inputPricePerMillion: 0.4, outputPricePerMillion: 1.6, encoding: 'o200k_base' },
+  'gpt-4.1-nano': { contextWindow: 1047576, maxOutputTokens: 32768, inputPricePerMillion: 0.1, outputPricePerMillion: 0.4, encoding: 'o200k_base' },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096, inputPricePerMillion: 10, outputPricePerMillion: 30, encoding: 'cl100k_base' },
+  'claude-3-5-haiku': { contextWindow: 200000, maxOutputTokens: 8192, inputPricePerMillion: 0.8, outputPricePerMillion: 4, encoding: 'o200k_base' },
+  'claude-sonnet-4': { contextWindow: 200000, maxOutputTokens: 64000, inputPricePerMillion: 3, outputPricePerMillion: 15, encoding: 'o200k_base' },
+  'claude-opus-4': { contextWindow: 200000, maxOutputTokens: 32000, inputPricePerMillion: 15, outputPricePerMillion: 75, encoding: 'o200k_base' }
+};
+
+// Assumed for models not in the registry: a small window, so chunks stay safe
+const DEFAULT_MODEL_SPEC: LLMModelSpec = {
+  contextWindow: 32000,
+  maxOutputTokens: 4096,
+  inputPricePerMillion: 0,
+  outputPricePerMillion: 0,
+  encoding: 'cl100k_base'
+};
+
+// Encoders are slow to build, so each is built once per instance
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+const warnedModels = new Set<string>();
+
+/**
+ * Get a model's limits and prices. Dated versions ("gpt-4o-2024-08-06") match their
+ * base model, and `llm.models` entries in config take precedence.
+ */
+export function getModelSpec(model: string): LLMModelSpec {
+  const override = appConfig.llm.models?.[model];
+  const known = MODEL_REGISTRY[model] || findByPrefix(model);
+
+  if (!known && !override && !warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`Model ${model} is not in the model registry, assuming a ${DEFAULT_MODEL_SPEC.contextWindow}-token window. Add it under llm.models in config.`);
+  }
+
+  return { ...DEFAULT_MODEL_SPEC, ...known, ...override };
+}
+
+/**
+ * Count the tokens a text uses with a model's tokenizer.
+ */
+export function countTokens(text: string, model: string): number {
+  const { encoding } = getModelSpec(model);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder.encode(text).length;
+}
+
+/**
+ * Estimate the USD cost of a request from its token counts.
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const spec = getModelSpec(model);
+  return (inputTokens * spec.inputPricePerMillion + outputTokens * spec.outputPricePerMillion) / 1_000_000;
+}
+
+/**
+ * Longest registry name the model starts with, e.g. "gpt-4o-mini" for "gpt-4o-mini-2024-07-18".
+ */
+function findByPrefix(model: string): LLMModelSpec | undefined {
+  const name = Object.keys(MODEL_REGISTRY)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? MODEL_REGISTRY[name] : undefined;
+}
@@ -0,0 +1,49 @@
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { MeetingAnalysisSchema } from '../../schemas/taskSchema.js';
+import { appConfig, getLLMApiKey } from '../../config/index.js';
+import { createProvider, parseJsonReply } from './baseProvider.js';
+import type { LLMProvider } from './types.js';
+
+/**
+ * Provider for OpenAI-compatible endpoints (Ollama, vLLM, LM Studio, ...).
+ * These servers rarely support strict structured outputs, so the JSON schema
+ * is given in the prompt and the reply is requested in JSON mode.
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const schema = JSON.stringify(
+    zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis').json_schema.schema
+  );
+
+  return createProvider('openai-compatible', async request => {
+    if (!appConfig.llm.baseUrl) {
+      throw new Error('llm.baseUrl must be set to use the openai-compatible provider');
+    }
+
+    const client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: getLLMApiKey('openai-compatible') || 'not-needed',
+      baseURL: appConfig.llm.baseUrl
+    });
+
+    const completion = await client.chat.completions.create({
+      model: request.model,
+      messages: [
+        {
+          role: 'system',
+          content: `${request.systemPrompt}\n\n## Response Format\nRespond with a single JSON object that matches this JSON schema, and nothing else:\n${schema}`
+        },
+        { role: 'user', content: request.userPrompt }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.2
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI-compatible endpoint');
+    }
+
+    return parseJsonReply(content);
+  });
+}
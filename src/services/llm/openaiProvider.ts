@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { MeetingAnalysisSchema } from '../../schemas/taskSchema.js';
+import { getLLMApiKey } from '../../config/index.js';
+import { createProvider } from './baseProvider.js';
+import type { LLMProvider, LLMCompletionRequest } from './types.js';
+
+/**
+ * Run a structured-output completion against an OpenAI (or Azure OpenAI) client.
+ */
+export async function parseWithStructuredOutput(
+  client: OpenAI,
+  request: LLMCompletionRequest
+): Promise<unknown> {
+  const completion = await client.beta.chat.completions.parse({
+    model: request.model,
+    messages: [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.userPrompt }
+    ],
+    response_format: zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis'),
+    temperature: 0.2
+  });
+
+  const result = completion.choices[0].message.parsed;
+  if (!result) {
+    throw new Error('Failed to parse OpenAI response');
+  }
+
+  return result;
+}
+
+/**
+ * OpenAI provider using structured outputs.
+ */
+export function createOpenAIProvider(): LLMProvider {
+  return createProvider('openai', request => {
+    const client = new OpenAI({
+      apiKey: getLLMApiKey('openai')
+    });
+    return parseWithStructuredOutput(client, request);
+  });
+}
@@ -0,0 +1,213 @@
+import type { MeetingInfo, MeetingAnalysis, PromptProfile } from '../../types/index.js';
+import type { TranscriptChunkContext } from './types.js';
+
+/**
+ * System prompt for task extraction.
+ */
+export const SYSTEM_PROMPT = `You are an expert meeting analyst who extracts actionable tasks from meeting transcripts. Your job is to identify both explicit task callouts and implicit action items.
+
+## Explicit Task Patterns (confidence: 1.0)
+These patterns indicate someone is explicitly creating a task:
+- "Create task [name] for [person] due [date]"
+- "Task for [person]: [description] by [date]"
+- "Action item: [task] assigned to [person]"
+- "[Person], can you [task] by [date]"
+- "Adding a task - [person] to [task]"
+- "Let's make that a task for [person]"
+- "That's a task for [person], due [date]"
+- "I'll take an action item to [task]"
+- "Can we add a task for [description]"
+
+## Implicit Task Detection (confidence: varies)
+These are commitments made naturally in conversation:
+- "[Person] will [action]" or "I'll [action]"
+- "Let me follow up on [topic]"
+- Promises or commitments: "I can have that ready by..."
+- Clear next steps discussed: "The next step is..."
+- Requests with deadlines: "We need this done by..."
+
+## Priority Guidelines
+- URGENT: Uses words like "urgent", "ASAP", "critical", "immediately", "blocker"
+- HIGH: Important but not urgent, uses "important", "priority", "soon"
+- NORMAL: Standard tasks without urgency indicators
+- LOW: Nice to have, "when you get a chance", "eventually", "low priority"
+
+## Due Dates
+Copy the due date as it was said ("Friday", "end of next week", "the 27th", "2 business days after launch").
+Don't convert it to a calendar date; it is resolved later against the team's working days and holidays.
+
+## Recurring Tasks
+Some commitments repeat: "every Monday I'll send the pipeline report", "let's review this monthly", "every other Friday".
+Set recurrence to the frequency (daily, weekly, monthly or yearly), the interval (2 for "every other week", otherwise 1)
+and, for weekly tasks, the weekday. Set suggested_due to the first occurrence if one is mentioned, otherwise null.
+One-off tasks have recurrence null.
+
+## Multi-step Tasks
+When one action item has distinct parts ("Ali will set up the landing page: copy, design, and tracking pixels"),
+return a single task with the parts as steps, each a short imperative phrase ("Write the copy", "Design the page",
+"Add the tracking pixels"). Don't split the parts into separate tasks. Tasks without parts have an empty steps list.
+
+## Assignees and Stakeholders
+Shared work has several assignees: "Sara and Bilal will finalize pricing" is one task with suggested_assignees
+["Sara", "Bilal"], not two tasks. People who should be kept informed but aren't doing the work ("keep Omar in the loop",
+"copy finance on it") go in stakeholders. Leave suggested_assignees empty if nobody is clearly responsible.
+
+## Speaker Labels
+Some recordings label speakers "Speaker 1", "Speaker 2" instead of naming them. When such a speaker takes on a task
+("I'll send the deck"), use the label exactly as written as the assignee; reviewers map the labels to people later.
+
+## Utterance IDs
+Transcript lines may start with a tag like "[u12 00:14:05]" (utterance ID and start time).
+Set source_utterance_id to the ID of the line containing the source quote, and leave the tag out of the quote itself.
+If the transcript has no tags, set source_utterance_id to null.
+
+## Risks, Blockers, Open Questions and Parking Lot
+Besides tasks, record what the meeting left unresolved, each with its owner (who raised it or is following it up, or null)
+and the exact quote where it came up:
+- risks: things that could go wrong or cause delays that nobody has committed to handle ("if the supplier slips we miss launch")
+- blockers: things stopping work right now, naming what they block ("we can't ship until legal signs off")
+- open_questions: questions asked but not answered in the meeting ("do we know who owns the renewal?")
+- parking_lot: topics deliberately deferred ("let's take the pricing debate offline")
+Don't repeat anything that is already a task. Leave a list empty if nothing fits.
+
+## Important Guidelines
+1. Extract the exact quote where the task was identified
+2. Be specific about assignees - use names exactly as mentioned
+3. For explicit callouts, always set confidence to 1.0
+4. For implicit tasks, set confidence based on how clear the commitment is
+5. Don't create duplicate tasks - consolidate if the same task is mentioned multiple times
+6. Focus on actionable items, not general discussions or observations`;
+
+/**
+ * Build the user prompt with meeting context and the folder's prompt profile.
+ * Parts of a long meeting also get a summary of the parts before them.
+ */
+export function buildUserPrompt(
+  transcript: string,
+  meetingInfo: MeetingInfo,
+  chunk?: TranscriptChunkContext,
+  profile?: PromptProfile
+): string {
+  return `Analyze the following meeting transcript and extract all tasks.
+
+## Meeting Information
+- Title: ${meetingInfo.title}
+- Date: ${meetingInfo.date}
+- Source Folder: ${meetingInfo.folderName}
+- Attendees: ${meetingInfo.attendees.length > 0 ? meetingInfo.attendees.join(', ') : 'Not specified'}
+${profile ? buildProfileSection(profile) : ''}${chunk ? buildChunkSection(chunk) : ''}
+## Transcript
+${transcript}
+
+Please identify all explicit task callouts and implicit action items. For each task, provide the title, description, suggested assignees, stakeholders (if any), due date (if mentioned), recurrence (if it repeats), steps (if it has parts), priority, the exact source quote and its utterance ID, your confidence level, and whether it was explicit or implicit. Then list the meeting's risks, blockers, open questions and parking-lot items.`;
+}
+
+/**
+ * Render a folder's prompt profile: its instructions, glossary, example tasks
+ * and the kinds of items to leave out.
+ */
+function buildProfileSection(profile: PromptProfile): string {
+  const sections: string[] = [];
+
+  if (profile.instructions?.trim()) {
+    sections.push(`## Instructions for This Folder\n${profile.instructions.trim()}`);
+  }
+
+  const glossary = Object.entries(profile.glossary || {});
+  if (glossary.length > 0) {
+    sections.push(`## Glossary\nTerms, codes and people that come up in these meetings:\n${glossary.map(([term, meaning]) => `- ${term}: ${meaning}`).join('\n')}`);
+  }
+
+  if (profile.exampleTasks?.length) {
+    const examples = profile.exampleTasks.map(example =>
+      `- "${example.quote}" → ${example.title}${example.assignee ? ` (assignee: ${example.assignee})` : ''}`
+    );
+    sections.push(`## Example Tasks\nTasks previously extracted from these meetings, with the quote they came from:\n${examples.join('\n')}`);
+  }
+
+  if (profile.ignoreCategories?.length) {
+    sections.push(`## Don't Extract\nDon't create tasks for these kinds of items, even if someone commits to them:\n${profile.ignoreCategories.map(c => `- ${c}`).join('\n')}`);
+  }
+
+  return sections.map(section => `\n${section}\n`).join('');
+}
+
+/**
+ * Describe where a transcript part sits in the meeting, so commitments that refer back
+ * to earlier parts ("as Sara said earlier") can be resolved.
+ */
+function buildChunkSection(chunk: TranscriptChunkContext): string {
+  const lines = [
+    '',
+    '## Earlier in the Meeting',
+    `This transcript is part ${chunk.part} of ${chunk.total} of a long meeting.`
+  ];
+  if (chunk.earlierSummary) {
+    lines.push(`Summary of the earlier parts: ${chunk.earlierSummary}`);
+  }
+  if (chunk.overlapLines > 0) {
+    lines.push(`The first ${chunk.overlapLines} lines repeat the end of the previous part. Extract tasks from them too; duplicates are merged afterwards.`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * System prompt for merging the analyses of a long meeting's parts.
+ */
+export const MERGE_SYSTEM_PROMPT = `You merge task lists that were extracted separately from consecutive parts of one long meeting transcript.
+The parts overlap slightly, and people often come back to a task later in the meeting, so the same task can appear more than once.
+
+## Merging Tasks
+- Tasks are the same when they describe the same piece of work for the same purpose, even if worded differently
+  ("Send the Q3 deck to Omar" and "Share quarterly slides with Omar"). Similar-sounding tasks for different work stay separate.
+- Merge duplicates into one task: use the clearest title and the most complete description, combine the assignees,
+  stakeholders and steps, and keep the due date, priority and recurrence from the mention that states them most specifically.
+  When a later mention changes the plan ("actually, let's push that to Friday"), the later mention wins.
+- Keep source_quote and source_utterance_id exactly as given for one of the merged mentions - never rewrite a quote.
+- A merged task is explicit if any mention was explicit, and takes the highest confidence among its mentions.
+- Keep every task that has no duplicate unchanged.
+
+## Summary, Decisions and Open Items
+Write one meeting_summary of 2-3 sentences for the whole meeting, and list each decision once.
+List each risk, blocker, open question and parking-lot item once, keeping its source_quote as given. Drop an open question
+that a later part answers, and a blocker that a later part resolves.`;
+
+/**
+ * Build the prompt asking the model to merge the analyses of a meeting's parts.
+ */
+export function buildMergePrompt(meetingInfo: MeetingInfo, parts: MeetingAnalysis[]): string {
+  const sections = parts.map((part, i) => `## Part ${i + 1} of ${parts.length}
+${JSON.stringify(part, null, 2)}`);
+
+  return `Merge the analyses of the ${parts.length} parts of this meeting into one analysis.
+
+## Meeting Information
+- Title: ${meetingInfo.title}
+- Date: ${meetingInfo.date}
+- Attendees: ${meetingInfo.attendees.length > 0 ? meetingInfo.attendees.join(', ') : 'Not specified'}
+
+${sections.join('\n\n')}`;
+}
+
+/**
+ * System prompt for summarizing one part of a long meeting, to give the parts after it context.
+ */
+export const SUMMARY_SYSTEM_PROMPT = `You summarize one part of a long meeting transcript for whoever reads the parts after it.
+Write meeting_summary as 2-4 sentences: what was discussed, what was decided, and who said they would do what,
+naming people as they are named in the transcript. Mention anything a later part might refer back to.
+Tasks are extracted separately, so leave tasks, decisions, risks, blockers, open_questions and parking_lot empty.`;
+
+/**
+ * Build the prompt asking the model to summarize one part of a meeting.
+ */
+export function buildSummaryPrompt(transcript: string, meetingInfo: MeetingInfo, part: number, total: number): string {
+  return `Summarize part ${part} of ${total} of this meeting.
+
+## Meeting Information
+- Title: ${meetingInfo.title}
+- Date: ${meetingInfo.date}
+- Attendees: ${meetingInfo.attendees.length > 0 ? meetingInfo.attendees.join(', ') : 'Not specified'}
+
+## Transcript
+${transcript}`;
+}
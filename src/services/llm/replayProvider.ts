@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join } from 'path';
+import { fileURLToPath } from 'url';
+import { MeetingAnalysisSchema, type MeetingAnalysis } from '../../schemas/taskSchema.js';
+import { appConfig } from '../../config/index.js';
+import type { LLMProvider } from './types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_FIXTURES_DIR = 'test/fixtures/llm';
+
+/**
+ * A recorded LLM response, stored as `<hash>.json` in the fixtures directory.
+ */
+export interface ReplayFixture {
+  hash: string;
+  kind: 'extract' | 'complete';
+  meetingTitle?: string;
+  provider?: string;
+  model?: string;
+  recordedAt?: string;
+  analysis: MeetingAnalysis;
+}
+
+/**
+ * Hash a transcript (or prompt) into a stable fixture key.
+ */
+export function hashTranscript(text: string): string {
+  return createHash('sha256').update(text.replace(/\r\n/g, '\n').trim()).digest('hex').slice(0, 16);
+}
+
+/**
+ * Resolve the fixtures directory. Relative paths are relative to the project root.
+ */
+function getFixturesDir(): string {
+  const dir = appConfig.llm.replay?.fixturesDir || DEFAULT_FIXTURES_DIR;
+  return isAbsolute(dir) ? dir : join(__dirname, '../../..', dir);
+}
+
+function getFixturePath(hash: string): string {
+  return join(getFixturesDir(), `${hash}.json`);
+}
+
+/**
+ * Load and validate a fixture, or throw with the hash so it can be recorded.
+ */
+function loadFixture(hash: string, description: string): MeetingAnalysis {
+  const path = getFixturePath(hash);
+
+  if (!existsSync(path)) {
+    throw new Error(`No replay fixture for ${description} (${hash}) at ${path}. Record one with LLM_MODE=record.`);
+  }
+
+  const fixture = JSON.parse(readFileSync(path, 'utf-8')) as ReplayFixture;
+  const result = MeetingAnalysisSchema.safeParse(fixture.analysis);
+  if (!result.success) {
+    throw new Error(`Replay fixture ${path} does not match MeetingAnalysisSchema: ${result.error.message}`);
+  }
+
+  return result.data;
+}
+
+function saveFixture(fixture: ReplayFixture): void {
+  const path = getFixturePath(fixture.hash);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`Recorded LLM response to ${path}`);
+}
+
+/**
+ * Fake provider that returns canned MeetingAnalysis fixtures keyed by transcript hash.
+ * Makes extraction deterministic and lets the pipeline run without network or API keys.
+ */
+export function createReplayProvider(): LLMProvider {
+  return {
+    name: 'replay',
+    async extract(transcript, meetingInfo) {
+      return loadFixture(hashTranscript(transcript), `transcript "${meetingInfo.title}"`);
+    },
+    async complete(request) {
+      return loadFixture(hashTranscript(request.userPrompt), 'prompt');
+    }
+  };
+}
+
+/**
+ * Wrap a real provider and save each response as a replay fixture.
+ */
+export function createRecordingProvider(inner: LLMProvider): LLMProvider {
+  return {
+    name: `${inner.name} (recording)`,
+    async extract(transcript, meetingInfo, options) {
+      const analysis = await inner.extract(transcript, meetingInfo, options);
+      saveFixture({
+        hash: hashTranscript(transcript),
+        kind: 'extract',
+        meetingTitle: meetingInfo.title,
+        provider: inner.name,
+        model: options.model,
+        recordedAt: new Date().toISOString(),
+        analysis
+      });
+      return analysis;
+    },
+    async complete(request) {
+      const analysis = await inner.complete(request);
+      saveFixture({
+        hash: hashTranscript(request.userPrompt),
+        kind: 'complete',
+        provider: inner.name,
+        model: request.model,
+        recordedAt: new Date().toISOString(),
+        analysis
+      });
+      return analysis;
+    }
+  };
+}
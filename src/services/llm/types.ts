@@ -0,0 +1,44 @@
+import type { MeetingAnalysis } from '../../schemas/taskSchema.js';
+import type { MeetingInfo, LLMProviderName, PromptProfile } from '../../types/index.js';
+
+export type { LLMProviderName };
+
+/**
+ * A single structured completion request.
+ */
+export interface LLMCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  model: string;
+}
+
+/**
+ * Where a transcript part sits in a long meeting that is extracted in parts.
+ */
+export interface TranscriptChunkContext {
+  part: number;  // 1-based
+  total: number;
+  earlierSummary: string | null;  // Summary of the parts before this one
+  overlapLines: number;  // Leading lines repeated from the end of the previous part
+}
+
+/**
+ * An LLM backend that turns a transcript into a validated MeetingAnalysis.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Extract tasks, summary, decisions and open items from a transcript.
+   */
+  extract(
+    transcript: string,
+    meetingInfo: MeetingInfo,
+    options: { model: string; chunk?: TranscriptChunkContext; profile?: PromptProfile }
+  ): Promise<MeetingAnalysis>;
+
+  /**
+   * Run a raw prompt and validate the response against MeetingAnalysisSchema.
+   */
+  complete(request: LLMCompletionRequest): Promise<MeetingAnalysis>;
+}
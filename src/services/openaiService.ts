@@ -1,197 +1,339 @@
-import OpenAI from 'openai';
-import { zodResponseFormat } from 'openai/helpers/zod';
-import { MeetingAnalysisSchema, type MeetingAnalysis } from '../schemas/taskSchema.js';
-import type { MeetingInfo, ExtractedTask } from '../types/index.js';
-import { getOpenAIApiKey, appConfig } from '../config/index.js';
-import { resolveDateExpression } from '../utils/dateResolver.js';
-
-const MAX_TOKENS_PER_CHUNK = 100000; // GPT-4o context is 128k, leave room for response
-const CHARS_PER_TOKEN_ESTIMATE = 4;
-const MAX_CHARS_PER_CHUNK = MAX_TOKENS_PER_CHUNK * CHARS_PER_TOKEN_ESTIMATE;
-
-function getOpenAIClient(): OpenAI {
-  return new OpenAI({
-    apiKey: getOpenAIApiKey()
-  });
+import type { MeetingAnalysis, MeetingItem, Task } from '../schemas/taskSchema.js';
+import type { MeetingInfo } from '../types/index.js';
+import { appConfig } from '../config/index.js';
+import { getLLMProvider, type TranscriptChunkContext } from './llm/index.js';
+import {
+  SYSTEM_PROMPT,
+  MERGE_SYSTEM_PROMPT,
+  SUMMARY_SYSTEM_PROMPT,
+  buildUserPrompt,
+  buildMergePrompt,
+  buildSummaryPrompt
+} from './llm/prompts.js';
+import { countTokens, estimateCost, getModelSpec } from './llm/modelRegistry.js';
+import { resolveDateExpression, resolveFirstOccurrence } from '../utils/dateResolver.js';
+import { normalizeRecurrence } from '../utils/recurrence.js';
+import { loadBusinessCalendar } from '../utils/businessCalendar.js';
+import { getBusinessCalendarConfig, getPromptProfile } from '../utils/folderConfigResolver.js';
+import { areTitlesSimilar } from '../utils/taskSimilarity.js';
+
+const CHUNK_OVERLAP_TOKENS = 2000;
+const CHUNK_CONCURRENCY = 3;
+const MAX_ROLLING_SUMMARY_CHARS = 4000;
+// Room for a chunk's position and rolling summary in the prompt
+const CHUNK_CONTEXT_TOKENS = 2000;
+// Typical size of an extraction and a part summary response, for cost estimates
+const ESTIMATED_OUTPUT_TOKENS = 2000;
+const ESTIMATED_SUMMARY_TOKENS = 300;
+
+interface TranscriptChunk {
+  text: string;
+  tokens: number;
+  overlapLines: number;  // Leading lines repeated from the previous chunk
 }
 
-/**
- * System prompt for task extraction.
- */
-const SYSTEM_PROMPT = `You are an expert meeting analyst who extracts actionable tasks from meeting transcripts. Your job is to identify both explicit task callouts and implicit action items.
-
-## Explicit Task Patterns (confidence: 1.0)
-These patterns indicate someone is explicitly creating a task:
-- "Create task [name] for [person] due [date]"
-- "Task for [person]: [description] by [date]"
-- "Action item: [task] assigned to [person]"
-- "[Person], can you [task] by [date]"
-- "Adding a task - [person] to [task]"
-- "Let's make that a task for [person]"
-- "That's a task for [person], due [date]"
-- "I'll take an action item to [task]"
-- "Can we add a task for [description]"
-
-## Implicit Task Detection (confidence: varies)
-These are commitments made naturally in conversation:
-- "[Person] will [action]" or "I'll [action]"
-- "Let me follow up on [topic]"
-- Promises or commitments: "I can have that ready by..."
-- Clear next steps discussed: "The next step is..."
-- Requests with deadlines: "We need this done by..."
-
-## Priority Guidelines
-- URGENT: Uses words like "urgent", "ASAP", "critical", "immediately", "blocker"
-- HIGH: Important but not urgent, uses "important", "priority", "soon"
-- NORMAL: Standard tasks without urgency indicators
-- LOW: Nice to have, "when you get a chance", "eventually", "low priority"
-
-## Date Resolution
-When dates are mentioned relatively, resolve them based on the meeting date provided.
-Return dates in ISO 8601 format (YYYY-MM-DD).
-
-## Important Guidelines
-1. Extract the exact quote where the task was identified
-2. Be specific about assignees - use names exactly as mentioned
-3. For explicit callouts, always set confidence to 1.0
-4. For implicit tasks, set confidence based on how clear the commitment is
-5. Don't create duplicate tasks - consolidate if the same task is mentioned multiple times
-6. Focus on actionable items, not general discussions or observations`;
+export interface ExtractionCostEstimate {
+  requests: number;  // Extraction calls, plus the summary and merge calls for chunked transcripts
+  inputTokens: number;
+  outputTokens: number;  // Estimated
+  costUsd: number;  // At the primary model's prices
+}
 
 /**
- * Extract tasks from a meeting transcript using OpenAI.
+ * Extract tasks from a meeting transcript using the configured LLM provider.
  */
 export async function extractTasks(
   transcriptContent: string,
   meetingInfo: MeetingInfo
 ): Promise<MeetingAnalysis> {
-  const openai = getOpenAIClient();
-
   // Check if content needs chunking
-  if (transcriptContent.length > MAX_CHARS_PER_CHUNK) {
+  if (countTranscriptTokens(transcriptContent) > getTranscriptTokenBudget(meetingInfo)) {
     return await extractTasksFromChunks(transcriptContent, meetingInfo);
   }
 
-  const userPrompt = buildUserPrompt(transcriptContent, meetingInfo);
+  return extractTranscript(transcriptContent, meetingInfo);
+}
+
+/**
+ * Extract tasks from a transcript (or one part of it) with the primary model,
+ * falling back to the smaller model if that fails.
+ */
+async function extractTranscript(
+  transcriptContent: string,
+  meetingInfo: MeetingInfo,
+  chunk?: TranscriptChunkContext
+): Promise<MeetingAnalysis> {
+  const provider = getLLMProvider();
 
   try {
-    const completion = await openai.beta.chat.completions.parse({
-      model: appConfig.openai.model,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt }
-      ],
-      response_format: zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis'),
-      temperature: 0.2
+    const result = await provider.extract(transcriptContent, meetingInfo, {
+      model: appConfig.llm.model,
+      chunk,
+      profile: getPromptProfile(meetingInfo.folderId)
     });
 
-    const result = completion.choices[0].message.parsed;
-    if (!result) {
-      throw new Error('Failed to parse OpenAI response');
-    }
-
     // Post-process dates
-    return postProcessAnalysis(result, meetingInfo.date);
+    return postProcessAnalysis(result, meetingInfo);
   } catch (error) {
-    console.error('Error with primary model, trying fallback:', error);
-    return await extractTasksWithFallback(transcriptContent, meetingInfo);
+    console.error(`Error with primary model (${provider.name}/${appConfig.llm.model}), trying fallback:`, error);
+    return await extractTasksWithFallback(transcriptContent, meetingInfo, chunk);
   }
 }
 
 /**
- * Build the user prompt with meeting context.
+ * Extract tasks from long transcripts in overlapping parts, then merge them.
+ * Every part is told the summary of all the parts before it (see summarizeChunks),
+ * so the model can follow references back to earlier in the meeting. Parts are
+ * extracted a few at a time.
  */
-function buildUserPrompt(transcript: string, meetingInfo: MeetingInfo): string {
-  return `Analyze the following meeting transcript and extract all tasks.
-
-## Meeting Information
-- Title: ${meetingInfo.title}
-- Date: ${meetingInfo.date}
-- Source Folder: ${meetingInfo.folderName}
-- Attendees: ${meetingInfo.attendees.length > 0 ? meetingInfo.attendees.join(', ') : 'Not specified'}
+async function extractTasksFromChunks(
+  transcriptContent: string,
+  meetingInfo: MeetingInfo
+): Promise<MeetingAnalysis> {
+  const chunks = splitTranscriptIntoChunks(transcriptContent, getTranscriptTokenBudget(meetingInfo));
+  console.log(`Splitting transcript into ${chunks.length} overlapping chunks for processing`);
 
-## Transcript
-${transcript}
+  const summaries = await summarizeChunks(chunks, meetingInfo);
+  const chunkResults = await runInBatches(chunks, (chunk, i) => {
+    const part = i + 1;
+    return extractTranscript(chunk.text, {
+      ...meetingInfo,
+      title: `${meetingInfo.title} (Part ${part}/${chunks.length})`
+    }, {
+      part,
+      total: chunks.length,
+      earlierSummary: buildRollingSummary(summaries.slice(0, i)),
+      overlapLines: chunk.overlapLines
+    });
+  });
 
-Please identify all explicit task callouts and implicit action items. For each task, provide the title, description, suggested assignee, due date (if mentioned), priority, the exact source quote, your confidence level, and whether it was explicit or implicit.`;
+  return mergeChunkResults(chunkResults, meetingInfo);
 }
 
 /**
- * Extract tasks from long transcripts by splitting into chunks.
+ * Summarize every part but the last with the fallback model, before any extraction,
+ * so each part can be given the summaries of all the parts before it. Parts are
+ * summarized on their own, so this runs a few at a time too. A part that can't be
+ * summarized is left out of the later parts' context.
  */
-async function extractTasksFromChunks(
-  transcriptContent: string,
-  meetingInfo: MeetingInfo
-): Promise<MeetingAnalysis> {
-  const chunks = splitTranscriptIntoChunks(transcriptContent);
-  console.log(`Splitting transcript into ${chunks.length} chunks for processing`);
+async function summarizeChunks(chunks: TranscriptChunk[], meetingInfo: MeetingInfo): Promise<string[]> {
+  const provider = getLLMProvider();
+  console.log(`Summarizing ${chunks.length - 1} chunks for context`);
+
+  return runInBatches(chunks.slice(0, -1), async (chunk, i) => {
+    try {
+      const result = await provider.complete({
+        systemPrompt: SUMMARY_SYSTEM_PROMPT,
+        userPrompt: buildSummaryPrompt(chunk.text, meetingInfo, i + 1, chunks.length),
+        model: appConfig.llm.fallbackModel
+      });
+      return result.meeting_summary;
+    } catch (error) {
+      console.warn(`Could not summarize chunk ${i + 1} with ${provider.name}:`, error);
+      return '';
+    }
+  });
+}
 
-  const chunkResults: MeetingAnalysis[] = [];
+/**
+ * Run a call for each chunk, CHUNK_CONCURRENCY at a time, pausing between batches
+ * to avoid rate limits. Results are in chunk order.
+ */
+async function runInBatches<T>(
+  chunks: TranscriptChunk[],
+  run: (chunk: TranscriptChunk, index: number) => Promise<T>
+): Promise<T[]> {
+  const results: T[] = [];
 
-  for (let i = 0; i < chunks.length; i++) {
-    console.log(`Processing chunk ${i + 1}/${chunks.length}`);
-    const chunkMeetingInfo = {
-      ...meetingInfo,
-      title: `${meetingInfo.title} (Part ${i + 1}/${chunks.length})`
-    };
+  for (let start = 0; start < chunks.length; start += CHUNK_CONCURRENCY) {
+    const batch = chunks.slice(start, start + CHUNK_CONCURRENCY);
+    console.log(`Processing chunks ${start + 1}-${start + batch.length} of ${chunks.length}`);
 
-    const result = await extractTasks(chunks[i], chunkMeetingInfo);
-    chunkResults.push(result);
+    results.push(...await Promise.all(batch.map((chunk, i) => run(chunk, start + i))));
 
-    // Add delay between chunks to avoid rate limits
-    if (i < chunks.length - 1) {
+    if (start + CHUNK_CONCURRENCY < chunks.length) {
       await sleep(1000);
     }
   }
 
-  return mergeChunkResults(chunkResults);
+  return results;
+}
+
+/**
+ * Join the summaries of the parts before one, keeping the most recent ones if
+ * they get too long to pass along. Null for the first part.
+ */
+function buildRollingSummary(summaries: string[]): string | null {
+  const summary = summaries.filter(Boolean).join(' ');
+  if (!summary) {
+    return null;
+  }
+  return summary.length > MAX_ROLLING_SUMMARY_CHARS
+    ? `...${summary.slice(-MAX_ROLLING_SUMMARY_CHARS)}`
+    : summary;
 }
 
 /**
- * Split transcript into chunks at speaker boundaries.
+ * Split transcript into chunks of at most maxTokens, at speaker boundaries. Each chunk
+ * after the first starts with the last lines of the one before, so commitments that
+ * straddle a boundary are seen whole.
  */
-function splitTranscriptIntoChunks(transcript: string): string[] {
-  const chunks: string[] = [];
+function splitTranscriptIntoChunks(transcript: string, maxTokens: number): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
   const lines = transcript.split('\n');
-  let currentChunk = '';
-
-  // Pattern to detect speaker changes (e.g., "John:", "[John]", "JOHN:")
-  const speakerPattern = /^(?:\[[\w\s]+\]|[\w\s]+:)/;
-
-  for (const line of lines) {
-    const lineWithNewline = line + '\n';
-
-    // If adding this line would exceed the limit
-    if (currentChunk.length + lineWithNewline.length > MAX_CHARS_PER_CHUNK) {
-      // If current line is a speaker change, it's a good split point
-      if (speakerPattern.test(line) && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = lineWithNewline;
-      } else {
-        // Otherwise, push current chunk and start new one
-        if (currentChunk.length > 0) {
-          chunks.push(currentChunk.trim());
+  const lineTokens = lines.map(line => countTranscriptTokens(line + '\n'));
+
+  // Pattern to detect speaker changes (e.g., "[u12 00:14:05] John:", "John:", "[John]", "JOHN:")
+  const speakerPattern = /^(?:\[u\d+[^\]]*\]|\[[\w\s]+\]|[\w\s]+:)/;
+
+  let start = 0;
+  let overlapLines = 0;
+
+  while (start < lines.length) {
+    // Fill the chunk up to the token budget
+    let end = start;
+    let tokens = 0;
+    while (end < lines.length && (end === start || tokens + lineTokens[end] <= maxTokens)) {
+      tokens += lineTokens[end];
+      end++;
+    }
+
+    // Prefer to end where a new speaker starts, if there is one in the second half of the chunk
+    if (end < lines.length) {
+      for (let i = end; i > start + (end - start) / 2; i--) {
+        if (speakerPattern.test(lines[i])) {
+          end = i;
+          break;
         }
-        currentChunk = lineWithNewline;
       }
-    } else {
-      currentChunk += lineWithNewline;
     }
-  }
 
-  // Don't forget the last chunk
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
+    const text = lines.slice(start, end).join('\n').trim();
+    if (text.length > 0) {
+      chunks.push({ text, tokens: sum(lineTokens.slice(start, end)), overlapLines });
+    }
+
+    if (end >= lines.length) {
+      break;
+    }
+
+    // Start the next chunk a few lines back, always moving forward
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap + lineTokens[next - 1] <= CHUNK_OVERLAP_TOKENS) {
+      overlap += lineTokens[next - 1];
+      next--;
+    }
+    overlapLines = end - next;
+    start = next;
   }
 
   return chunks;
 }
 
 /**
- * Merge results from multiple chunks, deduplicating tasks.
+ * Estimate the tokens and cost of extracting tasks from a transcript, before
+ * sending it. Chunked transcripts are split the same way extraction splits them.
+ */
+export function estimateExtractionCost(transcriptContent: string, meetingInfo: MeetingInfo): ExtractionCostEstimate {
+  const model = appConfig.llm.model;
+  const promptTokens = countPromptTokens(meetingInfo, model);
+  const budget = getTranscriptTokenBudget(meetingInfo);
+  const transcriptTokens = countTranscriptTokens(transcriptContent);
+
+  let requests = 1;
+  let summaryRequests = 0;
+  let inputTokens = promptTokens + transcriptTokens;
+
+  if (transcriptTokens > budget) {
+    const chunks = splitTranscriptIntoChunks(transcriptContent, budget);
+    const summarized = chunks.slice(0, -1);
+    const summaryPromptTokens = countTokens(SUMMARY_SYSTEM_PROMPT + buildSummaryPrompt('', meetingInfo, 1, chunks.length), model);
+    const mergeTokens = countTokens(MERGE_SYSTEM_PROMPT, model) + chunks.length * ESTIMATED_OUTPUT_TOKENS;
+    requests = chunks.length + summarized.length + 1;
+    inputTokens = sum(summarized.map(c => c.tokens + summaryPromptTokens))
+      + sum(chunks.map(c => c.tokens + promptTokens + CHUNK_CONTEXT_TOKENS))
+      + mergeTokens;
+    summaryRequests = summarized.length;
+  }
+
+  const outputTokens = (requests - summaryRequests) * ESTIMATED_OUTPUT_TOKENS + summaryRequests * ESTIMATED_SUMMARY_TOKENS;
+  return {
+    requests,
+    inputTokens,
+    outputTokens,
+    costUsd: estimateCost(model, inputTokens, outputTokens)
+  };
+}
+
+/**
+ * Largest transcript, in tokens, that fits in one request to both the primary and the
+ * fallback model, leaving room for the prompt, a chunk's context and the response.
+ */
+function getTranscriptTokenBudget(meetingInfo: MeetingInfo): number {
+  return Math.min(...getExtractionModels().map(model => {
+    const spec = getModelSpec(model);
+    const promptTokens = countPromptTokens(meetingInfo, model);
+    return spec.contextWindow - spec.maxOutputTokens - promptTokens - CHUNK_CONTEXT_TOKENS;
+  }));
+}
+
+/**
+ * Count a transcript's tokens with the tokenizers of the primary and fallback model,
+ * taking the larger count so it fits in either.
+ */
+function countTranscriptTokens(text: string): number {
+  const modelsByEncoding = new Map(getExtractionModels().map(model => [getModelSpec(model).encoding, model]));
+  return Math.max(...[...modelsByEncoding.values()].map(model => countTokens(text, model)));
+}
+
+/**
+ * Tokens used by the extraction prompt around the transcript, including the folder's prompt profile.
+ */
+function countPromptTokens(meetingInfo: MeetingInfo, model: string): number {
+  const userPrompt = buildUserPrompt('', meetingInfo, undefined, getPromptProfile(meetingInfo.folderId));
+  return countTokens(SYSTEM_PROMPT + userPrompt, model);
+}
+
+function getExtractionModels(): string[] {
+  return [appConfig.llm.model, appConfig.llm.fallbackModel];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Merge the results of a long meeting's parts with one more LLM call, which
+ * recognizes the same task worded differently across parts. Falls back to
+ * merging by title similarity if that call fails.
+ */
+async function mergeChunkResults(results: MeetingAnalysis[], meetingInfo: MeetingInfo): Promise<MeetingAnalysis> {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const provider = getLLMProvider();
+  try {
+    const merged = await provider.complete({
+      systemPrompt: MERGE_SYSTEM_PROMPT,
+      userPrompt: buildMergePrompt(meetingInfo, results),
+      model: appConfig.llm.model
+    });
+    const taskCount = results.reduce((sum, r) => sum + r.tasks.length, 0);
+    console.log(`Merged ${taskCount} tasks from ${results.length} chunks into ${merged.tasks.length}`);
+    return postProcessAnalysis(merged, meetingInfo);
+  } catch (error) {
+    console.warn(`Could not merge chunks with ${provider.name}, merging by title similarity:`, error);
+    return mergeChunkResultsByTitle(results);
+  }
+}
+
+/**
+ * Merge results from multiple chunks, deduplicating tasks by title similarity.
  */
-function mergeChunkResults(results: MeetingAnalysis[]): MeetingAnalysis {
-  const allTasks: ExtractedTask[] = [];
+function mergeChunkResultsByTitle(results: MeetingAnalysis[]): MeetingAnalysis {
+  const allTasks: Task[] = [];
   const allDecisions: string[] = [];
   const summaries: string[] = [];
 
@@ -215,15 +357,33 @@ function mergeChunkResults(results: MeetingAnalysis[]): MeetingAnalysis {
   return {
     tasks: deduplicatedTasks,
     meeting_summary: combinedSummary,
-    decisions: uniqueDecisions
+    decisions: uniqueDecisions,
+    risks: deduplicateItems(results.flatMap(r => r.risks)),
+    blockers: deduplicateItems(results.flatMap(r => r.blockers)),
+    open_questions: deduplicateItems(results.flatMap(r => r.open_questions)),
+    parking_lot: deduplicateItems(results.flatMap(r => r.parking_lot))
   };
 }
 
+/**
+ * Deduplicate risks, blockers, questions or parking-lot items by text similarity,
+ * keeping the first mention.
+ */
+function deduplicateItems(items: MeetingItem[]): MeetingItem[] {
+  const unique: MeetingItem[] = [];
+  for (const item of items) {
+    if (!unique.some(u => areTitlesSimilar(u.text, item.text))) {
+      unique.push(item);
+    }
+  }
+  return unique;
+}
+
 /**
  * Deduplicate tasks based on title similarity.
  */
-function deduplicateTasks(tasks: ExtractedTask[]): ExtractedTask[] {
-  const seen = new Map<string, ExtractedTask>();
+function deduplicateTasks(tasks: Task[]): Task[] {
+  const seen = new Map<string, Task>();
 
   for (const task of tasks) {
     const normalizedTitle = task.title.toLowerCase().trim();
@@ -254,38 +414,43 @@ function deduplicateTasks(tasks: ExtractedTask[]): ExtractedTask[] {
 }
 
 /**
- * Check if two task titles are similar enough to be duplicates.
- */
-function areTitlesSimilar(title1: string, title2: string): boolean {
-  // Simple similarity check - could be improved with Levenshtein distance
-  if (title1 === title2) return true;
-
-  // Check if one contains the other
-  if (title1.includes(title2) || title2.includes(title1)) return true;
-
-  // Check word overlap
-  const words1 = new Set(title1.split(/\s+/));
-  const words2 = new Set(title2.split(/\s+/));
-  const overlap = [...words1].filter(w => words2.has(w)).length;
-  const minLength = Math.min(words1.size, words2.size);
-
-  return minLength > 0 && overlap / minLength > 0.7;
-}
-
-/**
- * Post-process the analysis to resolve dates.
+ * Post-process the analysis to resolve dates in the meeting's time zone,
+ * on the folder's business calendar. A recurring task without a due date is
+ * due on its first occurrence.
  */
 function postProcessAnalysis(
   analysis: MeetingAnalysis,
-  meetingDate: string
+  meetingInfo: MeetingInfo
 ): MeetingAnalysis {
+  const calendar = loadBusinessCalendar(getBusinessCalendarConfig(meetingInfo.folderId));
+
+  const dateOptions = { timeZone: meetingInfo.timeZone, calendar };
+
   const processedTasks = analysis.tasks.map(task => {
-    if (task.suggested_due && !isISODate(task.suggested_due)) {
-      // Try to resolve relative date expressions
-      const resolvedDate = resolveDateExpression(task.suggested_due, meetingDate);
-      return { ...task, suggested_due: resolvedDate };
+    // ISO dates go through the resolver too, so they roll forward past weekends and holidays
+    let suggestedDue = task.suggested_due
+      ? resolveDateExpression(task.suggested_due, meetingInfo.date, dateOptions)
+      : null;
+
+    const recurrence = normalizeRecurrence(task.recurrence);
+    if (recurrence && !suggestedDue) {
+      suggestedDue = resolveFirstOccurrence(recurrence, meetingInfo.date, dateOptions);
     }
-    return task;
+
+    // A lone step is just the task itself, so only lists of two or more are kept
+    const steps = task.steps.map(step => step.trim()).filter(step => step.length > 0);
+
+    // Someone doing the task is already notified of it, so isn't also a stakeholder
+    const assignees = new Set(task.suggested_assignees.map(name => name.toLowerCase().trim()));
+    const stakeholders = task.stakeholders.filter(name => !assignees.has(name.toLowerCase().trim()));
+
+    return {
+      ...task,
+      suggested_due: suggestedDue,
+      recurrence,
+      steps: steps.length > 1 ? steps : [],
+      stakeholders
+    };
   });
 
   return {
@@ -294,39 +459,23 @@ function postProcessAnalysis(
   };
 }
 
-/**
- * Check if a string is already in ISO date format.
- */
-function isISODate(dateStr: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(dateStr);
-}
-
 /**
  * Fallback to a smaller model if the primary fails.
  */
 async function extractTasksWithFallback(
   transcriptContent: string,
-  meetingInfo: MeetingInfo
+  meetingInfo: MeetingInfo,
+  chunk?: TranscriptChunkContext
 ): Promise<MeetingAnalysis> {
-  const openai = getOpenAIClient();
-  const userPrompt = buildUserPrompt(transcriptContent, meetingInfo);
-
-  const completion = await openai.beta.chat.completions.parse({
-    model: appConfig.openai.fallbackModel,
-    messages: [
-      { role: 'system', content: SYSTEM_PROMPT },
-      { role: 'user', content: userPrompt }
-    ],
-    response_format: zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis'),
-    temperature: 0.2
-  });
+  const provider = getLLMProvider();
 
-  const result = completion.choices[0].message.parsed;
-  if (!result) {
-    throw new Error('Failed to parse fallback model response');
-  }
+  const result = await provider.extract(transcriptContent, meetingInfo, {
+    model: appConfig.llm.fallbackModel,
+    chunk,
+    profile: getPromptProfile(meetingInfo.folderId)
+  });
 
-  return postProcessAnalysis(result, meetingInfo.date);
+  return postProcessAnalysis(result, meetingInfo);
 }
 
 /**
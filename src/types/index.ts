@@ -4,54 +4,182 @@ export interface NotifyConfig {
   spaceId?: string;
 }
 
+// List routing rules - all criteria present must match, any value within a criterion matches
+export interface ListRoutingMatch {
+  keywords?: string[];  // Case-insensitive, matched against task title and description
+  assignees?: string[];  // Assignee names or emails
+  priorities?: TaskPriority[];
+  extractionTypes?: ExtractionType[];
+}
+
+export interface ListRoutingRule {
+  name: string;
+  clickupListId: string;
+  match: ListRoutingMatch;
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Working days and holidays that resolved due dates must fall on
+export interface BusinessCalendarConfig {
+  workingDays?: Weekday[];  // Defaults to Monday-Friday
+  holidaysFile?: string;  // JSON or .ics file relative to config/, e.g. "holidays/pk-2026.json"
+}
+
+// How a task's steps are created in ClickUp
+export type StepsMode = 'subtasks' | 'checklist';
+
+// Folder-specific guidance added to the extraction prompt
+export interface PromptProfile {
+  version: string;  // Recorded with each analysis; change it whenever the profile changes
+  instructions?: string;  // Free-form extra instructions
+  glossary?: Record<string, string>;  // Term or person → meaning ("PO": "purchase order", "Haseeb": "Head of Ops")
+  exampleTasks?: Array<{ quote: string; title: string; assignee?: string }>;
+  ignoreCategories?: string[];  // Kinds of items never to extract as tasks ("personal errands")
+}
+
 export interface FolderConfig {
   id: string;
   name: string;
   taskPrefix: string;
+  clickupListId?: string;  // Overrides the global list for tasks from this folder
+  routingRules?: ListRoutingRule[];  // Evaluated before the global routing rules
   notifyChat: NotifyConfig;
   confidential?: boolean;
   alwaysNotifyUsers?: string[];  // List of emails to always notify for this folder
+  timezone?: string;  // IANA zone the folder's meetings happen in, e.g. "Asia/Karachi"
+  businessCalendar?: BusinessCalendarConfig;  // Falls back to defaultConfig.businessCalendar
+  stepsMode?: StepsMode;  // Falls back to defaultConfig.stepsMode, then "checklist"
+  promptProfile?: PromptProfile;  // Falls back to defaultConfig.promptProfile
 }
 
 export interface FoldersConfiguration {
-  clickupListId: string;  // Single list for all meeting tasks
+  clickupListId: string;  // Fallback list for folders without their own clickupListId
+  routingRules?: ListRoutingRule[];  // Global rules, evaluated after folder rules
   folders: FolderConfig[];
   defaultConfig: Omit<FolderConfig, 'id' | 'name'>;
   globalNotifyUsers?: string[];  // Users to notify for ALL folders
+  userTimezones?: Record<string, string>;  // Assignee email → IANA zone, overrides the folder zone for due times
 }
 
 // Task extraction types
 export type TaskPriority = 'urgent' | 'high' | 'normal' | 'low';
 export type ExtractionType = 'explicit' | 'implicit';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// A repeating commitment, e.g. every 2 weeks on Monday
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;  // Every N days/weeks/months/years, at least 1
+  weekday: Weekday | null;  // Weekly only
+}
 
 export interface ExtractedTask {
   title: string;
   description: string;
-  suggested_assignee: string | null;
+  suggested_assignees: string[];  // Names, or ClickUp member IDs once picked on the card
+  stakeholders: string[];  // People to keep informed ("Watchers" on the card); names, or member IDs once picked on the card
   suggested_due: string | null;
   priority: TaskPriority;
   source_quote: string;
+  source_utterance_id: string | null;
   confidence: number;
   extraction_type: ExtractionType;
+  recurrence?: TaskRecurrence | null;  // Undefined on pending tasks stored before it was extracted
+  steps?: string[];  // Parts of a multi-step action item; undefined on older pending tasks
+}
+
+// An existing ClickUp task that an extracted task likely repeats
+export interface DuplicateMatch {
+  clickupTaskId: string;
+  name: string;
+  url: string;
+  source: 'clickup' | 'recent';  // Open task in the list, or created from a recent meeting
+  similarity: number;
+}
+
+// An open ClickUp task offered in the "add as comment" picker
+export interface ExistingTaskCandidate {
+  clickupTaskId: string;
+  name: string;
+  url: string;
+}
+
+// How an extracted assignee name resolved against the team directory
+export interface AssigneeResolution {
+  name: string;  // As extracted
+  memberId: number | null;  // Null if unmatched or ambiguous
+  candidateIds: number[];  // Ranked members an ambiguous name could be, empty otherwise
+}
+
+// How well a task's source quote and assignees are backed by the transcript
+export interface SourceVerification {
+  quoteFound: boolean;
+  quoteScore: number;  // Share of the quote's words found together in the transcript, 0-1
+  quoteOffset: number | null;  // Character offset of the match in the parsed transcript, null if not found
+  unknownAssignees: string[];  // Not a speaker or attendee, and never mentioned in the transcript
 }
 
 export interface ExtractedTaskWithConfig extends ExtractedTask {
   clickupListId: string;
+  clickupListName?: string;
+  routingRule?: string;  // Name of the routing rule that picked the list, if any
+  possibleDuplicate?: DuplicateMatch;
+  existingTaskCandidates?: ExistingTaskCandidate[];  // Open tasks the reviewer can comment on instead
+  sourceTimestamp?: string;  // When the source quote was said (recording offset or clock time)
+  assigneeResolutions?: AssigneeResolution[];  // One per suggested assignee
+  sourceVerification?: SourceVerification;  // Absent on pending tasks stored before verification
+  // Set once the reviewer acts on the task; a task is resolved when any of these is set
+  clickupTaskId?: string;  // Created in ClickUp
+  createdAt?: string;
+  linkedTaskId?: string;  // Added as a comment on this existing task instead
+  linkedAt?: string;
+  dismissed?: boolean;
+  dismissedAt?: string;
 }
 
+// A risk, blocker, open question or parking-lot item raised in a meeting
+export interface MeetingItem {
+  text: string;
+  owner: string | null;  // Who raised it or is following it up, as extracted
+  source_quote: string;
+  clickupTaskId?: string;  // Set once a reviewer turns it into a ClickUp task
+}
+
+// MeetingAnalysis fields holding MeetingItems
+export type MeetingItemKind = 'risks' | 'blockers' | 'open_questions' | 'parking_lot';
+
 export interface MeetingAnalysis {
   tasks: ExtractedTask[];
   meeting_summary: string;
   decisions: string[];
+  // Undefined on analyses stored before these were extracted
+  risks?: MeetingItem[];
+  blockers?: MeetingItem[];
+  open_questions?: MeetingItem[];
+  parking_lot?: MeetingItem[];
+  promptProfileVersion?: string;  // Version of the folder's prompt profile used, if it has one
 }
 
 // Meeting info types
+// Where MeetingInfo.date came from, most to least reliable
+export type MeetingDateSource = 'transcript' | 'filename' | 'drive';
+
 export interface MeetingInfo {
   title: string;
-  date: string;
+  date: string;                   // Meeting start (ISO 8601), used to resolve relative due dates
+  dateSource?: MeetingDateSource; // Absent on pending tasks stored before it was recorded
+  timeZone?: string;              // Folder zone the meeting date and relative due dates are resolved in
   attendees: string[];
   folderId: string;
   folderName: string;
+  speakers?: SpeakerMapping[];    // Generic diarization labels ("Speaker 1") used instead of names
+  speakersConfirmed?: boolean;    // Set once a reviewer has mapped the labels to people
+}
+
+export interface SpeakerMapping {
+  label: string;  // As written in the transcript
+  memberId: number | null;  // Suggested, then confirmed, ClickUp member; null if unknown
 }
 
 // Pending tasks storage types
@@ -79,6 +207,7 @@ export interface DriveFileMetadata {
     displayName?: string;
   }>;
   webViewLink?: string;
+  description?: string;  // May list the meeting's attendees ("Attendees: Sara, Ali")
 }
 
 // Pub/Sub message types
@@ -151,13 +280,29 @@ export interface ClickUpCreateTaskPayload {
   description?: string;
   assignees?: number[];
   due_date?: number;
+  due_date_time?: boolean;  // true when due_date carries a time of day, not just a date
   priority?: number;
+  parent?: string;  // Parent task ID, making this a subtask
   custom_fields?: Array<{
     id: string;
     value: string | number | boolean;
   }>;
 }
 
+// A person in config/team-mapping.json
+export interface TeamMappingEntry {
+  name: string;  // Canonical display name, e.g. "Haseeb Butt"
+  email: string;  // Canonical (company) email
+  clickupId?: number;  // ClickUp member ID, when their ClickUp email differs from the canonical one
+  aliases?: string[];  // Nicknames, initials and spelling variants, e.g. ["Hasib", "HB"]
+  chatUserId?: string;  // Google Chat user resource name, e.g. "users/1234567890"
+  timezone?: string;  // IANA zone for due times, below userTimezones in precedence
+}
+
+export interface TeamMapping {
+  members: TeamMappingEntry[];
+}
+
 export interface ClickUpMember {
   id: number;
   username: string;
@@ -167,16 +312,42 @@ export interface ClickUpMember {
 }
 
 // Configuration types
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+export type LLMMode = 'live' | 'replay' | 'record';
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+// Limits and prices of an LLM model, for budgeting chunks and estimating cost
+export interface LLMModelSpec {
+  contextWindow: number;  // Input + output tokens
+  maxOutputTokens: number;
+  inputPricePerMillion: number;  // USD per million input tokens
+  outputPricePerMillion: number;  // USD per million output tokens
+  encoding: TokenizerEncoding;  // Approximate for non-OpenAI models, which don't publish theirs
+}
+
 export interface AppConfig {
   gcp: {
     projectId: string;
     pubsubTopic: string;
     firestoreCollection: string;
   };
-  openai: {
-    model: string;
+  llm: {
+    provider: LLMProviderName;
+    model: string;  // Deployment name for azure-openai
     fallbackModel: string;
     confidenceThreshold: number;
+    unverifiedTasks?: 'flag' | 'drop';  // Tasks whose source quote isn't in the transcript, default flag
+    maxOutputTokens?: number;  // anthropic only
+    baseUrl?: string;  // openai-compatible only, e.g. http://localhost:11434/v1
+    azure?: {
+      endpoint: string;
+      apiVersion: string;
+    };
+    mode?: LLMMode;  // Overridden by the LLM_MODE env var
+    models?: Record<string, Partial<LLMModelSpec>>;  // Adds or overrides model registry entries, e.g. for Azure deployment names
+    replay?: {
+      fixturesDir: string;  // Relative to the project root
+    };
   };
   clickup: {
     workspaceId: string;
@@ -184,6 +355,7 @@ export interface AppConfig {
   taskDefaults: {
     priority: TaskPriority;
     includeTranscriptLink: boolean;
+    dueTime?: string;  // Local time ("HH:mm") due dates are set to in the assignee's zone, default 18:00
   };
   driveWatcher: {
     renewalIntervalHours: number;
@@ -0,0 +1,200 @@
+import { readFileSync } from 'fs';
+import { addDays, format, getDay } from 'date-fns';
+import { getConfigPath } from '../config/index.js';
+import type { BusinessCalendarConfig, Weekday } from '../types/index.js';
+
+/**
+ * Working days (0 = Sunday ... 6 = Saturday) and holidays (yyyy-MM-dd).
+ */
+export interface BusinessCalendar {
+  workingDays: Set<number>;
+  holidays: Map<string, string>;  // Date → holiday name
+}
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_WORKING_DAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+// Guards against calendars with no working days at all
+const MAX_SCAN_DAYS = 366;
+
+// Holiday files are read once per instance
+const holidayCache = new Map<string, Map<string, string>>();
+
+/**
+ * Build a business calendar from folder config. Without config, the week is
+ * Monday-Friday with no holidays.
+ */
+export function loadBusinessCalendar(config?: BusinessCalendarConfig): BusinessCalendar {
+  const workingDays = new Set(
+    (config?.workingDays?.length ? config.workingDays : DEFAULT_WORKING_DAYS)
+      .map(day => WEEKDAYS.indexOf(day.toLowerCase() as Weekday))
+      .filter(index => index >= 0)
+  );
+
+  return {
+    workingDays,
+    holidays: config?.holidaysFile ? loadHolidays(config.holidaysFile) : new Map()
+  };
+}
+
+/**
+ * Check whether a date is a working day (a working weekday that isn't a holiday).
+ */
+export function isWorkingDay(date: Date, calendar: BusinessCalendar): boolean {
+  return calendar.workingDays.has(getDay(date)) && !calendar.holidays.has(format(date, 'yyyy-MM-dd'));
+}
+
+/**
+ * Move a date forward to the first working day on or after it.
+ */
+export function rollForward(date: Date, calendar: BusinessCalendar): Date {
+  let current = date;
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(current, calendar); i++) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
+
+/**
+ * Move a date back to the last working day on or before it.
+ */
+export function rollBack(date: Date, calendar: BusinessCalendar): Date {
+  let current = date;
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(current, calendar); i++) {
+    current = addDays(current, -1);
+  }
+  return current;
+}
+
+/**
+ * Add working days to a date: 1 is the next working day after it, -1 the one before it.
+ */
+export function addBusinessDays(date: Date, count: number, calendar: BusinessCalendar): Date {
+  const step = count < 0 ? -1 : 1;
+  let current = date;
+  let remaining = Math.abs(count);
+  for (let i = 0; i < MAX_SCAN_DAYS * 2 && remaining > 0; i++) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, calendar)) {
+      remaining--;
+    }
+  }
+  return current;
+}
+
+/**
+ * First working weekday of the work week containing the date, e.g. Sunday for a
+ * Sunday-Thursday week. On a weekend day this is the start of the following week.
+ */
+export function getStartOfWorkWeek(date: Date, calendar: BusinessCalendar): Date {
+  const isWorkingWeekday = (d: Date) => calendar.workingDays.has(getDay(d));
+  let current = date;
+
+  if (!isWorkingWeekday(current)) {
+    for (let i = 0; i < 7 && !isWorkingWeekday(current); i++) {
+      current = addDays(current, 1);
+    }
+    return current;
+  }
+  for (let i = 0; i < 6 && isWorkingWeekday(addDays(current, -1)); i++) {
+    current = addDays(current, -1);
+  }
+  return current;
+}
+
+/**
+ * Last working weekday of the work week containing the date, e.g. Thursday for a
+ * Sunday-Thursday week. On a weekend day this is the end of the following week.
+ * Holidays are not skipped here; the caller rolls the result forward.
+ */
+export function getEndOfWorkWeek(date: Date, calendar: BusinessCalendar): Date {
+  const isWorkingWeekday = (d: Date) => calendar.workingDays.has(getDay(d));
+  let current = date;
+
+  for (let i = 0; i < 7 && !isWorkingWeekday(current); i++) {
+    current = addDays(current, 1);
+  }
+  for (let i = 0; i < 6 && isWorkingWeekday(addDays(current, 1)); i++) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
+
+/**
+ * Load holidays from a JSON or iCalendar file under config/.
+ * JSON may be an array of "yyyy-MM-dd" strings or { date, name } objects,
+ * optionally under a "holidays" key. ICS all-day events cover DTSTART up to
+ * (not including) DTEND.
+ */
+function loadHolidays(file: string): Map<string, string> {
+  const cached = holidayCache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  let holidays = new Map<string, string>();
+  try {
+    const content = readFileSync(getConfigPath(file), 'utf-8');
+    holidays = file.toLowerCase().endsWith('.ics') ? parseIcsHolidays(content) : parseJsonHolidays(content);
+    console.log(`Loaded ${holidays.size} holidays from ${file}`);
+  } catch (error) {
+    console.warn(`Could not load holiday calendar ${file}, continuing without holidays: ${(error as Error).message}`);
+  }
+
+  holidayCache.set(file, holidays);
+  return holidays;
+}
+
+function parseJsonHolidays(content: string): Map<string, string> {
+  const json = JSON.parse(content);
+  const entries: unknown[] = Array.isArray(json) ? json : json.holidays || [];
+  const holidays = new Map<string, string>();
+
+  for (const entry of entries) {
+    const date = typeof entry === 'string' ? entry : (entry as any)?.date;
+    const name = typeof entry === 'string' ? 'Holiday' : (entry as any)?.name || 'Holiday';
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      holidays.set(date, name);
+    }
+  }
+
+  return holidays;
+}
+
+function parseIcsHolidays(content: string): Map<string, string> {
+  // Unfold continuation lines (RFC 5545: CRLF followed by a space or tab)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays = new Map<string, string>();
+  let event: { start?: Date; end?: Date; name?: string } | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+    } else if (line === 'END:VEVENT' && event) {
+      if (event.start) {
+        const end = event.end && event.end > event.start ? event.end : addDays(event.start, 1);
+        for (let day = event.start; day < end; day = addDays(day, 1)) {
+          holidays.set(format(day, 'yyyy-MM-dd'), event.name || 'Holiday');
+        }
+      }
+      event = null;
+    } else if (event) {
+      const match = line.match(/^(DTSTART|DTEND|SUMMARY)(?:;[^:]*)?:(.*)$/);
+      if (match?.[1] === 'SUMMARY') {
+        event.name = match[2].replace(/\\([,;\\])/g, '$1').trim();
+      } else if (match) {
+        const date = match[2].match(/^(\d{4})(\d{2})(\d{2})/);
+        if (date) {
+          const value = new Date(parseInt(date[1], 10), parseInt(date[2], 10) - 1, parseInt(date[3], 10));
+          if (match[1] === 'DTSTART') {
+            event.start = value;
+          } else {
+            event.end = value;
+          }
+        }
+      }
+    }
+  }
+
+  return holidays;
+}
@@ -2,235 +2,994 @@ import {
   parseISO,
   addDays,
   addWeeks,
-  nextFriday,
-  endOfWeek,
-  endOfMonth,
-  startOfMonth,
   addMonths,
+  addYears,
+  endOfMonth,
+  differenceInCalendarDays,
   format,
   getDay,
-  setDay,
+  getDaysInMonth,
   isValid
 } from 'date-fns';
+import { toCalendarDate, DEFAULT_TIME_ZONE } from './timezone.js';
+import {
+  loadBusinessCalendar,
+  rollForward,
+  rollBack,
+  addBusinessDays,
+  getStartOfWorkWeek,
+  getEndOfWorkWeek,
+  type BusinessCalendar
+} from './businessCalendar.js';
+import type { RecurrenceFrequency, TaskRecurrence } from '../types/index.js';
+
+type OffsetUnit = 'day' | 'business_day' | 'week' | 'month' | 'year';
+
+interface Offset {
+  amount: number;
+  unit: OffsetUnit;
+}
 
 /**
- * Resolve relative date expressions to ISO format dates.
+ * A span of days ("next week", "November", "Q3"). Standing alone a period means
+ * `deadline` if set, otherwise its last day.
+ */
+interface Period {
+  kind: 'week' | 'month' | 'quarter' | 'year';
+  start: Date;
+  end: Date;
+  deadline?: Date;
+  yearInferred?: boolean;  // "October" without a year: a past day in it means next year's
+}
+
+interface ParseState {
+  tokens: string[];
+  pos: number;
+  today: Date;
+  calendar: BusinessCalendar;
+}
+
+type Parser<T> = (state: ParseState) => T | null;
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3, weds: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0, february: 1, feb: 1, march: 2, mar: 2, april: 3, apr: 3,
+  may: 4, june: 5, jun: 5, july: 6, jul: 6, august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8, october: 9, oct: 9, november: 10, nov: 10, december: 11, dec: 11
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9,
+  tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15,
+  sixteenth: 16, seventeenth: 17, eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30
+};
+
+const UNITS: Record<string, { unit: OffsetUnit; multiplier: number }> = {
+  day: { unit: 'day', multiplier: 1 }, days: { unit: 'day', multiplier: 1 },
+  workday: { unit: 'business_day', multiplier: 1 }, workdays: { unit: 'business_day', multiplier: 1 },
+  weekday: { unit: 'business_day', multiplier: 1 }, weekdays: { unit: 'business_day', multiplier: 1 },
+  week: { unit: 'week', multiplier: 1 }, weeks: { unit: 'week', multiplier: 1 },
+  wk: { unit: 'week', multiplier: 1 }, wks: { unit: 'week', multiplier: 1 },
+  fortnight: { unit: 'week', multiplier: 2 }, fortnights: { unit: 'week', multiplier: 2 },
+  month: { unit: 'month', multiplier: 1 }, months: { unit: 'month', multiplier: 1 },
+  year: { unit: 'year', multiplier: 1 }, years: { unit: 'year', multiplier: 1 },
+  yr: { unit: 'year', multiplier: 1 }, yrs: { unit: 'year', multiplier: 1 }
+};
+
+const RECURRENCE_UNITS: Record<RecurrenceFrequency, OffsetUnit> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+// Words that only say when in the day something is due; "COB tomorrow" is tomorrow
+const TIME_OF_DAY_WORDS = new Set([
+  'eod', 'cob', 'eob', 'eop', 'am', 'pm', 'morning', 'afternoon', 'evening', 'noon', 'midday',
+  'lunch', 'lunchtime', 'night', 'tonight', 'midnight'
+]);
+
+// "by", "due", "no later than" ... carry no date meaning of their own
+const LEAD_WORDS = new Set([
+  'by', 'on', 'before', 'until', 'till', 'til', 'due', 'for', 'at', 'around', 'about', 'in', 'within',
+  'over', 'during', 'the', 'latest', 'deadline', 'target', 'is'
+]);
+
+const NEXT_WORDS = new Set(['next', 'coming', 'upcoming', 'following']);
+
+// Month and weekday abbreviations that are also ordinary words or names
+const AMBIGUOUS_WORDS = new Set(['jan', 'mar', 'may', 'sat', 'sun', 'wed']);
+
+const TOKEN_PATTERN = /\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?|\d{1,2}(?::\d{2})?\s*[ap]\.?m\b\.?|\d{1,2}:\d{2}|\d+(?:st|nd|rd|th)?|q[1-4]\b|[a-z]+/g;
+const CLOCK_TIME_PATTERN = /^\d{1,2}(?::\d{2})?\s*[ap]\.?m\.?$|^\d{1,2}:\d{2}$/;
+
+// The longest date phrases ("3 business days before the first Monday of next month") fit in this
+const MAX_SPAN_TOKENS = 12;
+
+/**
+ * Resolve natural-language date expressions to ISO format dates.
+ *
+ * Dates are calendar days in `timeZone` (the meeting's zone): a meeting at
+ * 23:30 UTC on Monday is Tuesday in Asia/Karachi, so "tomorrow" is Wednesday there.
  *
  * Examples:
- * - "tomorrow" → meeting date + 1
- * - "next Friday" → next occurring Friday
- * - "end of week" → Friday of meeting week
- * - "in two weeks" → meeting date + 14
- * - "end of month" → last day of month
- * - "Q1" → March 31
+ * - "EOD" / "today" / "COB" → meeting date; "COB tomorrow" → meeting date + 1
+ * - "Friday" / "next Friday" → next Friday after the meeting; "this Friday" → this week's,
+ *   or the meeting day itself; "Friday next week" → Friday of the following work week
+ * - "next week" → meeting date + 7; "end of next week" → last working day of next week
+ * - "in two weeks" / "a week from Monday" / "3 days before the 15th" → offsets, in
+ *   digits or words, combinable ("1 month and 2 weeks")
+ * - "in 3 business days" / "next working day" → counted on the business calendar
+ * - "Oct 3" / "the 3rd of October" / "by the 15th" → that day; a day already past
+ *   means next year's (or next month's for "the 15th")
+ * - "12/25" / "12/25/2026" → month/day like parseFlexibleDate, or day/month when the
+ *   first number can't be a month ("25/12")
+ * - "end of month" / "mid next month" / "first week of November" / "last Friday of the month"
+ * - "Q1" / "end of quarter" → last working day of the quarter
+ *
+ * Words around the date are ignored ("before the board meeting on Thursday" → Thursday):
+ * the longest run of words that reads as a date wins.
+ *
+ * The end of a period ("end of month", "Q3", "November") is its last working day, so it
+ * stays inside the period. Results before the meeting date become the meeting date, and
+ * any other result that lands on a weekend or holiday of `calendar` rolls forward to the
+ * next working day. Without a calendar the week is Monday-Friday with no holidays.
  */
 export function resolveDateExpression(
   expression: string,
-  meetingDateStr: string
+  meetingDateStr: string,
+  options: { timeZone?: string; calendar?: BusinessCalendar } = {}
+): string | null {
+  const calendar = options.calendar || loadBusinessCalendar();
+  const meetingDate = toCalendarDate(meetingDateStr, options.timeZone || DEFAULT_TIME_ZONE);
+  if (!meetingDate || !isValid(meetingDate)) {
+    console.warn(`Invalid meeting date: ${meetingDateStr}`);
+    return null;
+  }
+
+  const { tokens, timeOfDay } = tokenize(expression);
+  const resolved = findDate(tokens, meetingDate, calendar) ?? (timeOfDay ? meetingDate : null);
+
+  // If nothing reads as a date, return null (the original might already be a date)
+  if (!resolved) {
+    return null;
+  }
+
+  const dueDate = rollForward(resolved < meetingDate ? meetingDate : resolved, calendar);
+  return format(dueDate, 'yyyy-MM-dd');
+}
+
+/**
+ * First due date of a recurring task: the next matching weekday after the meeting for
+ * weekly tasks with a day ("every Monday"), otherwise one interval after the meeting
+ * ("every 2 weeks" → meeting date + 14). Rolls forward past non-working days like
+ * resolveDateExpression.
+ */
+export function resolveFirstOccurrence(
+  recurrence: TaskRecurrence,
+  meetingDateStr: string,
+  options: { timeZone?: string; calendar?: BusinessCalendar } = {}
 ): string | null {
-  const meetingDate = parseISO(meetingDateStr);
-  if (!isValid(meetingDate)) {
+  const calendar = options.calendar || loadBusinessCalendar();
+  const meetingDate = toCalendarDate(meetingDateStr, options.timeZone || DEFAULT_TIME_ZONE);
+  if (!meetingDate || !isValid(meetingDate)) {
     console.warn(`Invalid meeting date: ${meetingDateStr}`);
     return null;
   }
 
-  const normalizedExpr = expression.toLowerCase().trim();
-
-  // Check for patterns and resolve
-  const resolvers: Array<{
-    pattern: RegExp;
-    resolve: (match: RegExpMatchArray) => Date;
-  }> = [
-    // Tomorrow
-    {
-      pattern: /^tomorrow$/,
-      resolve: () => addDays(meetingDate, 1)
-    },
-    // Next [day of week]
-    {
-      pattern: /^next\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/,
-      resolve: (match) => getNextDayOfWeek(meetingDate, match[1])
-    },
-    // This [day of week]
-    {
-      pattern: /^this\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/,
-      resolve: (match) => getThisDayOfWeek(meetingDate, match[1])
-    },
-    // End of week / EOW
-    {
-      pattern: /^(end\s+of\s+week|eow)$/,
-      resolve: () => nextFriday(meetingDate)
-    },
-    // End of month / EOM
-    {
-      pattern: /^(end\s+of\s+month|eom)$/,
-      resolve: () => endOfMonth(meetingDate)
-    },
-    // End of quarter / EOQ
-    {
-      pattern: /^(end\s+of\s+quarter|eoq)$/,
-      resolve: () => getEndOfQuarter(meetingDate)
-    },
-    // In X days
-    {
-      pattern: /^in\s+(\d+)\s+days?$/,
-      resolve: (match) => addDays(meetingDate, parseInt(match[1], 10))
-    },
-    // In X weeks
-    {
-      pattern: /^in\s+(\d+)\s+weeks?$/,
-      resolve: (match) => addWeeks(meetingDate, parseInt(match[1], 10))
-    },
-    // In a week
-    {
-      pattern: /^in\s+a\s+week$/,
-      resolve: () => addWeeks(meetingDate, 1)
-    },
-    // In two weeks
-    {
-      pattern: /^in\s+two\s+weeks$/,
-      resolve: () => addWeeks(meetingDate, 2)
-    },
-    // Next week
-    {
-      pattern: /^next\s+week$/,
-      resolve: () => addWeeks(meetingDate, 1)
-    },
-    // Q1, Q2, Q3, Q4
-    {
-      pattern: /^q([1-4])$/,
-      resolve: (match) => getQuarterEndDate(meetingDate, parseInt(match[1], 10))
-    },
-    // ASAP / immediately (default to tomorrow)
-    {
-      pattern: /^(asap|immediately|right\s+away|urgent)$/,
-      resolve: () => addDays(meetingDate, 1)
-    },
-    // By [day]
-    {
-      pattern: /^by\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/,
-      resolve: (match) => getNextDayOfWeek(meetingDate, match[1])
-    },
-    // Month name (e.g., "by March", "in April")
-    {
-      pattern: /^(?:by|in)?\s*(january|february|march|april|may|june|july|august|september|october|november|december)$/,
-      resolve: (match) => getEndOfMonth(meetingDate, match[1])
+  const { frequency, interval, weekday } = recurrence;
+  let first: Date;
+  if (frequency === 'weekly' && weekday) {
+    first = nextOccurrence(meetingDate, WEEKDAYS[weekday], false);
+  } else {
+    first = applyOffsets(meetingDate, [{ amount: interval, unit: RECURRENCE_UNITS[frequency] }], 1, calendar);
+  }
+
+  return format(rollForward(first, calendar), 'yyyy-MM-dd');
+}
+
+/**
+ * Lowercase words, numbers, ordinals, ISO dates and "q1"-"q4". Times of day ("5pm",
+ * "EOD", "end of day", "morning") are dropped and reported in `timeOfDay`.
+ */
+function tokenize(expression: string): { tokens: string[]; timeOfDay: boolean } {
+  const text = expression
+    .toLowerCase()
+    .replace(/\b(?:end|close) of (?:the )?(?:business |working )?day\b|\b(?:end|close) of (?:business|play)\b/g, ' eod ')
+    .replace(/\bas soon as possible\b/g, ' asap ')
+    .replace(/\bfirst thing\b/g, ' morning ')
+    .replace(/\bmid-|\bmid(?=week|month|quarter|year)/g, 'mid ');
+
+  const words = text.match(TOKEN_PATTERN) ?? [];
+  const tokens = words.filter(word => !CLOCK_TIME_PATTERN.test(word) && !TIME_OF_DAY_WORDS.has(word));
+  return { tokens, timeOfDay: tokens.length < words.length };
+}
+
+/**
+ * Find the longest run of tokens that parses as a date (leftmost on ties).
+ */
+function findDate(tokens: string[], today: Date, calendar: BusinessCalendar): Date | null {
+  for (let length = Math.min(tokens.length, MAX_SPAN_TOKENS); length > 0; length--) {
+    for (let start = 0; start + length <= tokens.length; start++) {
+      if (length === 1 && tokens.length > 1 && AMBIGUOUS_WORDS.has(tokens[start])) {
+        continue;
+      }
+
+      const state: ParseState = { tokens: tokens.slice(start, start + length), pos: 0, today, calendar };
+      const date = parseExpression(state);
+      if (date && state.pos === length) {
+        return date;
+      }
     }
-  ];
+  }
+  return null;
+}
 
-  for (const { pattern, resolve } of resolvers) {
-    const match = normalizedExpr.match(pattern);
-    if (match) {
-      const resolvedDate = resolve(match);
-      return format(resolvedDate, 'yyyy-MM-dd');
+// ---------------------------------------------------------------------------
+// Grammar
+//
+//   Expression := Lead* ( OffsetExpr | Primary )
+//   OffsetExpr := ["next"] Offset (("from" | "after" | "before") Expression | "later")?
+//   Offset     := Number? Unit ("and" Number? Unit)*
+//   Primary    := RelativeDay | Boundary | NthWeekday | ExplicitDate | Weekday | Weekend | Period
+//   Boundary   := ("end" | "start" | "mid" ...) ["of"] Period | Period ("end" | "start")
+//   Period     := ["the"] (NthWeek | RelativePeriod | WeekOf | Month | Quarter)
+//
+// Alternatives are all tried and the one consuming the most tokens wins.
+// ---------------------------------------------------------------------------
+
+function parseExpression(state: ParseState): Date | null {
+  skipLeadWords(state);
+  return longest(state, [parseOffsetExpression, parsePrimary]);
+}
+
+function parsePrimary(state: ParseState): Date | null {
+  return longest(state, [
+    parseRelativeDay,
+    parseBoundary,
+    parseNthWeekdayOfMonth,
+    parseExplicitDate,
+    parseWeekday,
+    parseWeekend,
+    s => {
+      const period = parsePeriod(s);
+      return period ? period.deadline ?? getLastWorkingDay(period, s.calendar) : null;
+    }
+  ]);
+}
+
+/**
+ * "in 2 weeks", "a week from Monday", "3 business days before the 15th", "the day after tomorrow",
+ * "next working day". Without an anchor the amount must be spelled out ("2 weeks", not "week"),
+ * except for a next day.
+ */
+function parseOffsetExpression(state: ParseState): Date | null {
+  const counted = accept(state, ...NEXT_WORDS) !== null;
+  const parsed = parseOffsets(state);
+  if (!parsed) {
+    return null;
+  }
+  if (counted && !parsed.explicit) {
+    const [offset] = parsed.offsets;
+    const nextDay = parsed.offsets.length === 1 && (offset.unit === 'day' || offset.unit === 'business_day');
+    return nextDay ? applyOffsets(state.today, parsed.offsets, 1, state.calendar) : null;
+  }
+
+  const { offsets, explicit } = parsed;
+  if (accept(state, 'from', 'after')) {
+    const base = parseExpression(state);
+    return base && applyOffsets(base, offsets, 1, state.calendar);
+  }
+  if (accept(state, 'before', 'prior')) {
+    accept(state, 'to');
+    const base = parseExpression(state);
+    return base && applyOffsets(base, offsets, -1, state.calendar);
+  }
+  if (explicit) {
+    accept(state, 'later', 'out', 'hence', 'time');
+    return applyOffsets(state.today, offsets, 1, state.calendar);
+  }
+  return null;
+}
+
+/**
+ * "2 weeks", "a couple of days", "three business days", "1 month and 2 weeks".
+ */
+function parseOffsets(state: ParseState): { offsets: Offset[]; explicit: boolean } | null {
+  const offsets: Offset[] = [];
+  let explicit = false;
+
+  while (true) {
+    const start = state.pos;
+    if (offsets.length > 0 && !accept(state, 'and')) {
+      break;
+    }
+
+    const amount = parseNumber(state);
+    const unit = parseUnit(state);
+    if (!unit) {
+      state.pos = start;
+      break;
+    }
+
+    offsets.push({ amount: (amount ?? 1) * unit.multiplier, unit: unit.unit });
+    explicit = explicit || amount !== null;
+  }
+
+  return offsets.length > 0 ? { offsets, explicit } : null;
+}
+
+function applyOffsets(date: Date, offsets: Offset[], sign: 1 | -1, calendar: BusinessCalendar): Date {
+  return offsets.reduce((current, { amount, unit }) => {
+    const n = amount * sign;
+    switch (unit) {
+      case 'day': return addDays(current, n);
+      case 'business_day': return addBusinessDays(current, n, calendar);
+      case 'week': return addWeeks(current, n);
+      case 'month': return addMonths(current, n);
+      case 'year': return addYears(current, n);
+    }
+  }, date);
+}
+
+/**
+ * "today", "tomorrow", "ASAP" (tomorrow), "EOW", "EOM", "EOQ", "EOY".
+ */
+function parseRelativeDay(state: ParseState): Date | null {
+  const { today, calendar } = state;
+  const word = accept(state, 'today', 'now', 'tomorrow', 'tmrw', 'tmr', 'tomorow', 'asap', 'immediately',
+    'urgent', 'urgently', 'right', 'eow', 'eom', 'eoq', 'eoy');
+
+  switch (word) {
+    case 'today':
+    case 'now':
+      return today;
+    case 'right':
+      return accept(state, 'away', 'now') ? addDays(today, 1) : null;
+    case 'eow':
+      return getLastWorkingDay(getWorkWeek(today, calendar), calendar);
+    case 'eom':
+      return getLastWorkingDay(getMonth(new Date(today.getFullYear(), today.getMonth(), 1)), calendar);
+    case 'eoq':
+      return getLastWorkingDay(getQuarter(today, 0), calendar);
+    case 'eoy':
+      return getLastWorkingDay(getYear(today.getFullYear()), calendar);
+    case null:
+      return null;
+    default:
+      // tomorrow, and ASAP / immediately, which default to tomorrow
+      return addDays(today, 1);
+  }
+}
+
+/**
+ * "end of next week", "start of November", "mid next month", "early next week", "year end".
+ */
+function parseBoundary(state: ParseState): Date | null {
+  let edge = accept(state, 'end', 'close', 'start', 'beginning', 'begin', 'mid', 'middle', 'early', 'late');
+  let period: Period | null;
+
+  if (edge) {
+    accept(state, 'of');
+    period = parsePeriod(state);
+  } else {
+    period = parsePeriod(state);
+    edge = period && accept(state, 'end', 'close', 'start');
+  }
+
+  if (!period || !edge) {
+    return null;
+  }
+
+  switch (edge) {
+    case 'start':
+    case 'beginning':
+    case 'begin':
+    case 'early':
+      return period.start;
+    case 'mid':
+    case 'middle':
+      return getMiddle(period);
+    default:
+      return getLastWorkingDay(period, state.calendar);
+  }
+}
+
+/**
+ * "first Monday of November", "last Friday of the month", "2nd Tuesday in December".
+ */
+function parseNthWeekdayOfMonth(state: ParseState): Date | null {
+  const n = accept(state, 'last') ? -1 : parseOrdinal(state);
+  const day = parseWeekdayName(state);
+  if (n === null || day === null || !accept(state, 'of', 'in')) {
+    return null;
+  }
+
+  const month = parseMonthRef(state);
+  if (!month) {
+    return null;
+  }
+
+  if (n === -1) {
+    let date = month.end;
+    while (getDay(date) !== day) {
+      date = addDays(date, -1);
+    }
+    return date;
+  }
+
+  let date = month.start;
+  while (getDay(date) !== day) {
+    date = addDays(date, 1);
+  }
+  date = addWeeks(date, n - 1);
+  return date <= month.end ? date : null;
+}
+
+/**
+ * "2026-10-03", "Oct 3", "October 3rd 2027", "3 Oct", "the 3rd of next month", "the 15th",
+ * optionally with the weekday ("Friday, Oct 3").
+ */
+function parseExplicitDate(state: ParseState): Date | null {
+  attempt(state, parseWeekdayName);
+  accept(state, 'the');
+
+  const date = longest(state, [parseIsoDate, parseNumericDate, parseMonthDay, parseDayMonth, parseDayOfMonth]);
+  if (date) {
+    attempt(state, parseWeekdayName);
+  }
+  return date;
+}
+
+function parseIsoDate(state: ParseState): Date | null {
+  const match = peek(state)?.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+  state.pos++;
+  return makeDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+// "12/25", "12/25/26", "25/12/2026": month first unless it can't be a month
+function parseNumericDate(state: ParseState): Date | null {
+  const match = peek(state)?.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  let month = parseInt(match[1], 10);
+  let day = parseInt(match[2], 10);
+  if (month > 12) {
+    [month, day] = [day, month];
+  }
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  state.pos++;
+
+  const year = match[3] ? parseInt(match[3], 10) + (match[3].length === 2 ? 2000 : 0) : null;
+  return withYear(state, month - 1, day, year);
+}
+
+// "Oct 3", "October 3rd, 2027"
+function parseMonthDay(state: ParseState): Date | null {
+  const month = MONTHS[peek(state) ?? ''];
+  if (month === undefined) {
+    return null;
+  }
+  state.pos++;
+  accept(state, 'the');
+
+  const day = parseDayNumber(state);
+  if (day === null) {
+    return null;
+  }
+  return withYear(state, month, day, parseYear(state));
+}
+
+// "3 Oct", "the 3rd of October 2027", "the 15th of next month"
+function parseDayMonth(state: ParseState): Date | null {
+  const day = parseDayNumber(state);
+  if (day === null) {
+    return null;
+  }
+  accept(state, 'of', 'in');
+
+  const month = parseMonthRef(state);
+  if (!month) {
+    return null;
+  }
+
+  const date = makeDate(month.start.getFullYear(), month.start.getMonth(), day);
+  if (date && month.yearInferred && date < state.today) {
+    return makeDate(month.start.getFullYear() + 1, month.start.getMonth(), day);
+  }
+  return date;
+}
+
+// "the 15th": this month's, or next month's once it has passed (clamped to the month's last day)
+function parseDayOfMonth(state: ParseState): Date | null {
+  const day = parseOrdinal(state);
+  if (day === null || day > 31) {
+    return null;
+  }
+
+  const { today } = state;
+  const thisMonth = clampedDate(today.getFullYear(), today.getMonth(), day);
+  if (thisMonth >= today) {
+    return thisMonth;
+  }
+  const nextMonth = addMonths(new Date(today.getFullYear(), today.getMonth(), 1), 1);
+  return clampedDate(nextMonth.getFullYear(), nextMonth.getMonth(), day);
+}
+
+/**
+ * "Friday" / "next Friday" (after today), "this Friday" (today or later this week),
+ * "Friday next week" / "next week Friday", "Friday after next".
+ */
+function parseWeekday(state: ParseState): Date | null {
+  const { today, calendar } = state;
+  let weekShift = attempt(state, parseWeekQualifier);
+  let modifier: string | null = null;
+  if (weekShift !== null) {
+    accept(state, 'on');
+  } else {
+    modifier = accept(state, 'this', ...NEXT_WORDS);
+    if (modifier === 'this' && accept(state, 'coming')) {
+      modifier = 'coming';
+    }
+  }
+
+  const day = parseWeekdayName(state);
+  if (day === null) {
+    return null;
+  }
+
+  const afterNext = attempt(state, s => (accept(s, 'after') && accept(s, 'next') ? true : null)) !== null;
+  if (!modifier && !afterNext && weekShift === null) {
+    weekShift = attempt(state, parseWeekQualifier);
+  }
+
+  if (weekShift !== null) {
+    const start = getStartOfWorkWeek(addWeeks(today, weekShift), calendar);
+    const date = nextOccurrence(start, day, true);
+    return date < today ? nextOccurrence(today, day, true) : date;
+  }
+  if (modifier === 'this') {
+    return nextOccurrence(today, day, true);
+  }
+
+  const next = nextOccurrence(today, day, false);
+  return afterNext ? addWeeks(next, 1) : next;
+}
+
+// "next week", "of this week", "week after next" → weeks from today
+function parseWeekQualifier(state: ParseState): number | null {
+  accept(state, 'of');
+  if (accept(state, 'week')) {
+    return accept(state, 'after') && accept(state, 'next') ? 2 : null;
+  }
+
+  const modifier = accept(state, 'this', 'current', ...NEXT_WORDS);
+  if (!modifier || !accept(state, 'week')) {
+    return null;
+  }
+  return NEXT_WORDS.has(modifier) ? 1 : 0;
+}
+
+// "the weekend" / "next weekend": the last working day before it
+function parseWeekend(state: ParseState): Date | null {
+  const modifier = accept(state, 'this', ...NEXT_WORDS);
+  if (!accept(state, 'weekend')) {
+    return null;
+  }
+  const shift = modifier && NEXT_WORDS.has(modifier) ? 1 : 0;
+  return getLastWorkingDay(getWorkWeek(addWeeks(state.today, shift), state.calendar), state.calendar);
+}
+
+function parsePeriod(state: ParseState): Period | null {
+  accept(state, 'the');
+  return longest(state, [parseNthWeek, parseRelativePeriod, parseWeekOf, parseMonthPeriod, parseQuarterPeriod]);
+}
+
+/**
+ * "this week", "next month", "the following quarter", "month after next", "year".
+ * "next week" on its own keeps its long-standing meaning of a week from today.
+ */
+function parseRelativePeriod(state: ParseState): Period | null {
+  const modifier = accept(state, 'this', 'current', ...NEXT_WORDS);
+  const kind = accept(state, 'week', 'month', 'quarter', 'year') as Period['kind'] | null;
+  if (!kind) {
+    return null;
+  }
+
+  let shift = modifier && NEXT_WORDS.has(modifier) ? 1 : 0;
+  if (!modifier && attempt(state, s => (accept(s, 'after') && accept(s, 'next') ? true : null))) {
+    shift = 2;
+  }
+
+  const { today, calendar } = state;
+  switch (kind) {
+    case 'week': {
+      const reference = addWeeks(today, shift);
+      return { ...getWorkWeek(reference, calendar), deadline: shift > 0 ? reference : undefined };
     }
+    case 'month':
+      return getMonth(addMonths(new Date(today.getFullYear(), today.getMonth(), 1), shift));
+    case 'quarter':
+      return getQuarter(today, shift);
+    case 'year':
+      return getYear(today.getFullYear() + shift);
+  }
+}
+
+// "first week of November" (the first work week starting in it), "last week of the month"
+function parseNthWeek(state: ParseState): Period | null {
+  const n = accept(state, 'last') ? -1 : parseOrdinal(state);
+  if (n === null || n > 5 || !accept(state, 'week') || !accept(state, 'of', 'in')) {
+    return null;
+  }
+
+  const month = parseMonthRef(state);
+  if (!month) {
+    return null;
+  }
+
+  // A week belongs to the month its midweek day falls in
+  const { calendar } = state;
+  if (n === -1) {
+    const last = getWorkWeek(month.end, calendar);
+    return getMiddle(last) > month.end ? getWorkWeek(addWeeks(month.end, -1), calendar) : last;
+  }
+
+  let week = getWorkWeek(month.start, calendar);
+  if (getMiddle(week) < month.start) {
+    week = getWorkWeek(addWeeks(week.start, 1), calendar);
+  }
+  week = getWorkWeek(addWeeks(week.start, n - 1), calendar);
+  return getMiddle(week) <= month.end ? week : null;
+}
+
+// "the week of Oct 12", "week of the 19th"
+function parseWeekOf(state: ParseState): Period | null {
+  if (!accept(state, 'week') || !accept(state, 'of')) {
+    return null;
   }
 
-  // If no pattern matches, return null (the original might already be a date)
+  const date = longest(state, [parseExplicitDate, parseWeekday, parseRelativeDay]);
+  return date && getWorkWeek(date, state.calendar);
+}
+
+// "November", "next November", "November 2027"; without a year a past month means next year's
+function parseMonthPeriod(state: ParseState): Period | null {
+  const modifier = accept(state, 'this', ...NEXT_WORDS);
+  const month = MONTHS[peek(state) ?? ''];
+  if (month === undefined) {
+    return null;
+  }
+  state.pos++;
+
+  const { today } = state;
+  const year = parseYear(state);
+  if (year !== null) {
+    return modifier ? null : getMonth(new Date(year, month, 1));
+  }
+
+  const isNextYear = modifier && NEXT_WORDS.has(modifier)
+    ? month <= today.getMonth()
+    : month < today.getMonth();
+  return { ...getMonth(new Date(today.getFullYear() + (isNextYear ? 1 : 0), month, 1)), yearInferred: !modifier };
+}
+
+// "Q3", "Q1 2027", "the third quarter"; a quarter already over means next year's
+function parseQuarterPeriod(state: ParseState): Period | null {
+  const token = peek(state) ?? '';
+  let quarter: number | null = null;
+  if (/^q[1-4]$/.test(token)) {
+    state.pos++;
+    quarter = parseInt(token[1], 10);
+  } else {
+    quarter = parseOrdinal(state);
+    if (quarter === null || quarter > 4 || !accept(state, 'quarter')) {
+      return null;
+    }
+  }
+
+  const { today } = state;
+  let year = parseYear(state);
+  if (year === null) {
+    year = today.getFullYear() + (quarter * 3 - 1 < today.getMonth() ? 1 : 0);
+  }
+
+  const start = new Date(year, (quarter - 1) * 3, 1);
+  return { kind: 'quarter', start, end: endOfMonth(addMonths(start, 2)) };
+}
+
+// A month by name or relative to today ("this month", "next month")
+function parseMonthRef(state: ParseState): Period | null {
+  accept(state, 'the');
+  return longest(state, [
+    parseMonthPeriod,
+    s => {
+      const period = parseRelativePeriod(s);
+      return period?.kind === 'month' ? period : null;
+    }
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+/**
+ * "3", "three", "twenty one", "a", "a couple of", "a few".
+ */
+function parseNumber(state: ParseState): number | null {
+  const token = peek(state);
+  if (token === undefined) {
+    return null;
+  }
+
+  if (/^\d+$/.test(token)) {
+    state.pos++;
+    return parseInt(token, 10);
+  }
+
+  if (token === 'a' || token === 'an') {
+    state.pos++;
+  }
+  if (accept(state, 'couple')) {
+    accept(state, 'of');
+    return 2;
+  }
+  if (accept(state, 'few', 'several')) {
+    return 3;
+  }
+  if (token === 'a' || token === 'an') {
+    return 1;
+  }
+
+  const value = NUMBER_WORDS[token];
+  if (value === undefined) {
+    return null;
+  }
+  state.pos++;
+
+  const units = NUMBER_WORDS[peek(state) ?? ''];
+  if (value >= 20 && units !== undefined && units < 10) {
+    state.pos++;
+    return value + units;
+  }
+  return value;
+}
+
+/**
+ * "3rd", "third", "twenty-first".
+ */
+function parseOrdinal(state: ParseState): number | null {
+  const token = peek(state) ?? '';
+  const numeric = token.match(/^(\d+)(?:st|nd|rd|th)$/);
+  if (numeric) {
+    state.pos++;
+    return parseInt(numeric[1], 10);
+  }
+
+  if (ORDINAL_WORDS[token] !== undefined) {
+    state.pos++;
+    return ORDINAL_WORDS[token];
+  }
+
+  const tens = NUMBER_WORDS[token];
+  const units = ORDINAL_WORDS[state.tokens[state.pos + 1] ?? ''];
+  if ((tens === 20 || tens === 30) && units !== undefined && units < 10) {
+    state.pos += 2;
+    return tens + units;
+  }
   return null;
 }
 
+// Day of a month: "3", "3rd", "third"
+function parseDayNumber(state: ParseState): number | null {
+  const token = peek(state) ?? '';
+  const day = /^\d{1,2}$/.test(token) ? (state.pos++, parseInt(token, 10)) : parseOrdinal(state);
+  return day !== null && day >= 1 && day <= 31 ? day : null;
+}
+
+function parseYear(state: ParseState): number | null {
+  const token = peek(state) ?? '';
+  if (!/^(?:19|20)\d{2}$/.test(token)) {
+    return null;
+  }
+  state.pos++;
+  return parseInt(token, 10);
+}
+
+function parseUnit(state: ParseState): { unit: OffsetUnit; multiplier: number } | null {
+  if (attempt(state, s => (accept(s, 'business', 'working', 'work') && accept(s, 'day', 'days') ? true : null))) {
+    return { unit: 'business_day', multiplier: 1 };
+  }
+
+  const unit = UNITS[peek(state) ?? ''];
+  if (!unit) {
+    return null;
+  }
+  state.pos++;
+  return unit;
+}
+
+function parseWeekdayName(state: ParseState): number | null {
+  const day = WEEKDAYS[peek(state) ?? ''];
+  if (day === undefined) {
+    return null;
+  }
+  state.pos++;
+  return day;
+}
+
+function skipLeadWords(state: ParseState): void {
+  while (state.pos < state.tokens.length) {
+    if (LEAD_WORDS.has(state.tokens[state.pos])) {
+      state.pos++;
+    } else if (!attempt(state, s => (accept(s, 'no') && accept(s, 'later') && accept(s, 'than') ? true : null))) {
+      return;
+    }
+  }
+}
+
+function peek(state: ParseState): string | undefined {
+  return state.tokens[state.pos];
+}
+
 /**
- * Get the day of week index (0 = Sunday, 1 = Monday, etc.)
+ * Consume the next token if it is one of `words`.
  */
-function getDayIndex(dayName: string): number {
-  const days: Record<string, number> = {
-    sunday: 0,
-    monday: 1,
-    tuesday: 2,
-    wednesday: 3,
-    thursday: 4,
-    friday: 5,
-    saturday: 6
-  };
-  return days[dayName.toLowerCase()] ?? 0;
+function accept(state: ParseState, ...words: string[]): string | null {
+  const token = state.tokens[state.pos];
+  if (token !== undefined && words.includes(token)) {
+    state.pos++;
+    return token;
+  }
+  return null;
 }
 
 /**
- * Get the next occurrence of a day of week.
+ * Run a parser, rewinding if it fails.
  */
-function getNextDayOfWeek(fromDate: Date, dayName: string): Date {
-  const targetDay = getDayIndex(dayName);
-  const currentDay = getDay(fromDate);
-  let daysToAdd = targetDay - currentDay;
+function attempt<T>(state: ParseState, parse: Parser<T>): T | null {
+  const start = state.pos;
+  const result = parse(state);
+  if (result === null) {
+    state.pos = start;
+  }
+  return result;
+}
 
-  // If it's the same day or earlier in the week, go to next week
-  if (daysToAdd <= 0) {
-    daysToAdd += 7;
+/**
+ * Run every parser from the same position and keep the result that consumed the most
+ * tokens (the first on ties).
+ */
+function longest<T>(state: ParseState, parsers: Array<Parser<T>>): T | null {
+  const start = state.pos;
+  let best: T | null = null;
+  let bestEnd = start;
+
+  for (const parse of parsers) {
+    state.pos = start;
+    const result = parse(state);
+    if (result !== null && state.pos > bestEnd) {
+      best = result;
+      bestEnd = state.pos;
+    }
   }
 
-  return addDays(fromDate, daysToAdd);
+  state.pos = bestEnd;
+  return best;
 }
 
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
 /**
- * Get this week's occurrence of a day (could be past).
+ * The first `day` (0 = Sunday) after `from`, or on it with `includeFrom`.
  */
-function getThisDayOfWeek(fromDate: Date, dayName: string): Date {
-  const targetDay = getDayIndex(dayName);
-  return setDay(fromDate, targetDay, { weekStartsOn: 1 });
+function nextOccurrence(from: Date, day: number, includeFrom: boolean): Date {
+  let daysToAdd = (day - getDay(from) + 7) % 7;
+  if (daysToAdd === 0 && !includeFrom) {
+    daysToAdd = 7;
+  }
+  return addDays(from, daysToAdd);
 }
 
 /**
- * Get the end of the current quarter.
+ * The work week containing `date` (the following one on a weekend day).
  */
-function getEndOfQuarter(date: Date): Date {
-  const month = date.getMonth();
-  const quarterMonth = Math.floor(month / 3) * 3 + 2; // 2 = Q1, 5 = Q2, 8 = Q3, 11 = Q4
-  const quarterEndMonth = startOfMonth(new Date(date.getFullYear(), quarterMonth, 1));
-  return endOfMonth(quarterEndMonth);
+function getWorkWeek(date: Date, calendar: BusinessCalendar): Period {
+  return { kind: 'week', start: getStartOfWorkWeek(date, calendar), end: getEndOfWorkWeek(date, calendar) };
+}
+
+function getMonth(firstDay: Date): Period {
+  return { kind: 'month', start: firstDay, end: endOfMonth(firstDay) };
+}
+
+function getYear(year: number): Period {
+  return { kind: 'year', start: new Date(year, 0, 1), end: new Date(year, 11, 31) };
 }
 
 /**
- * Get the end date of a specific quarter in the relevant year.
+ * The quarter containing `date`, shifted by `shift` quarters.
  */
-function getQuarterEndDate(referenceDate: Date, quarter: number): Date {
-  const year = referenceDate.getFullYear();
-  const quarterEndMonths: Record<number, number> = {
-    1: 2,  // Q1 ends March
-    2: 5,  // Q2 ends June
-    3: 8,  // Q3 ends September
-    4: 11  // Q4 ends December
-  };
+function getQuarter(date: Date, shift: number): Period {
+  const start = addMonths(new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1), shift * 3);
+  return { kind: 'quarter', start, end: endOfMonth(addMonths(start, 2)) };
+}
 
-  const endMonth = quarterEndMonths[quarter];
-  let targetYear = year;
+/**
+ * The period's last working day; its last day if none of it is a working day.
+ */
+function getLastWorkingDay(period: Period, calendar: BusinessCalendar): Date {
+  const date = rollBack(period.end, calendar);
+  return date >= period.start ? date : period.end;
+}
 
-  // If the quarter has already passed this year, use next year
-  if (endMonth < referenceDate.getMonth()) {
-    targetYear = year + 1;
+/**
+ * Midweek, the 15th, the middle month's 15th, or June 30.
+ */
+function getMiddle(period: Period): Date {
+  switch (period.kind) {
+    case 'week':
+      return addDays(period.start, Math.floor(differenceInCalendarDays(period.end, period.start) / 2));
+    case 'month':
+      return new Date(period.start.getFullYear(), period.start.getMonth(), 15);
+    case 'quarter':
+      return new Date(period.start.getFullYear(), period.start.getMonth() + 1, 15);
+    case 'year':
+      return new Date(period.start.getFullYear(), 5, 30);
   }
+}
 
-  return endOfMonth(new Date(targetYear, endMonth, 1));
+/**
+ * A month/day with an explicit year, or the next one on or after today.
+ */
+function withYear(state: ParseState, month: number, day: number, year: number | null): Date | null {
+  if (year !== null) {
+    return makeDate(year, month, day);
+  }
+  // Feb 29 can be up to four years away
+  for (let year = state.today.getFullYear(); year <= state.today.getFullYear() + 4; year++) {
+    const date = makeDate(year, month, day);
+    if (date && date >= state.today) {
+      return date;
+    }
+  }
+  return null;
 }
 
 /**
- * Get the end of a specific month.
+ * A calendar date, or null when the day doesn't exist in that month ("Feb 30").
  */
-function getEndOfMonth(referenceDate: Date, monthName: string): Date {
-  const months: Record<string, number> = {
-    january: 0,
-    february: 1,
-    march: 2,
-    april: 3,
-    may: 4,
-    june: 5,
-    july: 6,
-    august: 7,
-    september: 8,
-    october: 9,
-    november: 10,
-    december: 11
-  };
-
-  const targetMonth = months[monthName.toLowerCase()];
-  let targetYear = referenceDate.getFullYear();
-
-  // If the month has passed, use next year
-  if (targetMonth < referenceDate.getMonth()) {
-    targetYear += 1;
-  }
-
-  return endOfMonth(new Date(targetYear, targetMonth, 1));
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === ((month % 12) + 12) % 12 && date.getDate() === day ? date : null;
+}
+
+function clampedDate(year: number, month: number, day: number): Date {
+  return new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))));
 }
 
 /**
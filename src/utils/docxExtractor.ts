@@ -0,0 +1,237 @@
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// A bold paragraph that is only a name ("Sara Khan", "Sara Khan:") introduces the next paragraph
+const SPEAKER_NAME_PATTERN = /^[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}:?$/;
+// "Date: ...", "Sara: ..." - a line that already names its own speaker or field
+const LABELLED_LINE_PATTERN = /^[A-Z][\w\s.'-]{0,40}:\s/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?$/i;
+
+interface DocxParagraph {
+  text: string;
+  boldPrefix: string;  // Leading bold runs (often the speaker name)
+  allBold: boolean;
+}
+
+/**
+ * Extract transcript text from a .docx file.
+ * Paragraphs become lines; a speaker styled as a bold run ("**Sara:** text" or a bold
+ * name paragraph followed by the text) becomes "Sara: text"; table rows become one line each.
+ * The result is plain text for parseTranscript.
+ */
+export function extractDocxText(buffer: Buffer): string {
+  const documentXml = readZipEntry(buffer, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const body = documentXml.match(/<w:body\b[^>]*>([\s\S]*)<\/w:body>/)?.[1] ?? documentXml;
+  const lines: string[] = [];
+  let pendingSpeaker: string | null = null;
+
+  const blockPattern = /<w:tbl\b[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g;
+  // A bold name that isn't followed by plain speech (a title or heading) is kept as its own line
+  const flushPending = () => {
+    if (pendingSpeaker) {
+      lines.push(pendingSpeaker);
+      pendingSpeaker = null;
+    }
+  };
+
+  for (const [block] of body.matchAll(blockPattern)) {
+    if (block.startsWith('<w:tbl')) {
+      flushPending();
+      lines.push(...tableToLines(block));
+      continue;
+    }
+
+    const paragraph = parseParagraph(block);
+    const text = paragraph.text.trim();
+    if (!text) {
+      continue;
+    }
+
+    if (paragraph.allBold && SPEAKER_NAME_PATTERN.test(text)) {
+      flushPending();
+      pendingSpeaker = text;
+      continue;
+    }
+
+    const line = withBoldSpeaker(paragraph);
+    if (pendingSpeaker && !LABELLED_LINE_PATTERN.test(line)) {
+      lines.push(`${pendingSpeaker.replace(/:$/, '')}: ${line}`);
+      pendingSpeaker = null;
+    } else {
+      flushPending();
+      lines.push(line);
+    }
+  }
+
+  flushPending();
+  return lines.join('\n');
+}
+
+/**
+ * Turn "Sara" (bold) + " I'll send it" into "Sara: I'll send it".
+ */
+function withBoldSpeaker(paragraph: DocxParagraph): string {
+  const text = paragraph.text.trim();
+  const prefix = paragraph.boldPrefix.trim();
+
+  if (!prefix || paragraph.allBold || !SPEAKER_NAME_PATTERN.test(prefix)) {
+    return text;
+  }
+
+  const rest = text.slice(text.indexOf(prefix) + prefix.length).replace(/^[\s:]+/, '');
+  return `${prefix.replace(/:$/, '')}: ${rest}`;
+}
+
+function parseParagraph(xml: string): DocxParagraph {
+  let text = '';
+  let boldPrefix = '';
+  let inPrefix = true;
+  let allBold = true;
+
+  for (const [run] of xml.matchAll(/<w:r\b[\s\S]*?<\/w:r>/g)) {
+    const runText = runToText(run);
+    if (!runText) {
+      continue;
+    }
+
+    const bold = isBold(run);
+    if (bold && inPrefix) {
+      boldPrefix += runText;
+    } else if (runText.trim()) {
+      inPrefix = false;
+    }
+    if (!bold && runText.trim()) {
+      allBold = false;
+    }
+    text += runText;
+  }
+
+  return { text, boldPrefix, allBold: allBold && text.trim().length > 0 };
+}
+
+function runToText(run: string): string {
+  let text = '';
+  for (const [, tag, content] of run.matchAll(/<w:(t|tab|br|cr)\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:t>)/g)) {
+    if (tag === 't') {
+      text += decodeXml(content ?? '');
+    } else if (tag === 'tab') {
+      text += '\t';
+    } else {
+      text += '\n';
+    }
+  }
+  return text;
+}
+
+function isBold(run: string): boolean {
+  const properties = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? '';
+  const bold = properties.match(/<w:b(?:\s+w:val="([^"]*)")?\s*\/>/);
+  return !!bold && !['0', 'false', 'off'].includes(bold[1] ?? '');
+}
+
+/**
+ * Render table rows. Rows shaped like transcript entries (speaker, optional time, text)
+ * become "time Speaker: text"; anything else is joined with " | ".
+ */
+function tableToLines(tableXml: string): string[] {
+  const lines: string[] = [];
+
+  for (const [row] of tableXml.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)) {
+    const cells = [...row.matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)].map(([cell]) =>
+      [...cell.matchAll(/<w:p\b[\s\S]*?<\/w:p>/g)]
+        .map(([p]) => parseParagraph(p).text.trim())
+        .filter(Boolean)
+        .join(' ')
+    );
+
+    if (cells.every(c => !c)) {
+      continue;
+    }
+
+    // Skip a header row like "Speaker | Time | Text"
+    if (cells.every(c => /^(speaker|name|time|timestamp|start|text|transcript|content)$/i.test(c))) {
+      continue;
+    }
+
+    const time = cells.find(c => TIME_PATTERN.test(c));
+    const others = cells.filter(c => c !== time && c);
+    if (others.length === 2 && SPEAKER_NAME_PATTERN.test(others[0])) {
+      const line = `${others[0].replace(/:$/, '')}: ${others[1]}`;
+      lines.push(time ? `${time} ${line}` : line);
+    } else {
+      lines.push(cells.filter(Boolean).join(' | '));
+    }
+  }
+
+  return lines;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read one file out of a zip archive (stored or deflated entries).
+ */
+function readZipEntry(buffer: Buffer, entryName: string): string | null {
+  // The end-of-central-directory record sits in the last 64KB (+22 bytes) of the file
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive (no end of central directory)');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt zip entry: ${name}`);
+      }
+      const dataStart = localHeaderOffset + 30 +
+        buffer.readUInt16LE(localHeaderOffset + 26) +
+        buffer.readUInt16LE(localHeaderOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data.toString('utf-8');
+      if (method === 8) return inflateRawSync(data).toString('utf-8');
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
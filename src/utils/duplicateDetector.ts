@@ -0,0 +1,91 @@
+import { searchTasks } from '../services/clickupService.js';
+import { getRecentlyCreatedTasks } from '../services/firestoreService.js';
+import { titleSimilarity } from './taskSimilarity.js';
+import type { ExtractedTaskWithConfig, DuplicateMatch } from '../types/index.js';
+
+// Title similarity at which an extracted task is flagged as a likely repeat
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.7;
+const CANDIDATE_SIMILARITY_THRESHOLD = 0.3;
+const MAX_CANDIDATES = 5;
+// Open tasks offered when none is similar, so the reviewer can still find it by title
+const MAX_FALLBACK_CANDIDATES = 25;
+const RECENT_TASKS_LOOKBACK_DAYS = 30;
+
+/**
+ * Match extracted tasks against existing ClickUp tasks.
+ * Searches open tasks in each task's target list by title and compares against
+ * tasks created from recently processed meetings. Sets, in place:
+ * - `existingTaskCandidates`: open tasks the reviewer can comment on instead - the similar
+ *   ones, or if none are, the list's open tasks (closest first)
+ * - `possibleDuplicate`: the best match, when it is close enough to be a likely repeat
+ * Lookups are best-effort: failures are logged and the task is left unmatched.
+ * Returns the number of tasks flagged as possible duplicates.
+ */
+export async function matchExistingTasks(tasks: ExtractedTaskWithConfig[]): Promise<number> {
+  let recentTasks: Awaited<ReturnType<typeof getRecentlyCreatedTasks>> = [];
+  try {
+    recentTasks = await getRecentlyCreatedTasks(RECENT_TASKS_LOOKBACK_DAYS);
+  } catch (error) {
+    console.warn('Could not load recently created tasks:', error instanceof Error ? error.message : error);
+  }
+
+  let flagged = 0;
+
+  for (const task of tasks) {
+    let best: DuplicateMatch | null = null;
+
+    try {
+      const matches = await searchTasks(task.clickupListId, task.title, {
+        minSimilarity: CANDIDATE_SIMILARITY_THRESHOLD,
+        limit: MAX_CANDIDATES
+      });
+
+      const candidates = matches.length > 0
+        ? matches
+        : await searchTasks(task.clickupListId, task.title, { minSimilarity: 0, limit: MAX_FALLBACK_CANDIDATES });
+
+      if (candidates.length > 0) {
+        task.existingTaskCandidates = candidates.map(m => ({
+          clickupTaskId: m.id,
+          name: m.name,
+          url: m.url
+        }));
+      }
+
+      const [topMatch] = matches;
+      if (topMatch && topMatch.similarity >= DUPLICATE_SIMILARITY_THRESHOLD) {
+        best = {
+          clickupTaskId: topMatch.id,
+          name: topMatch.name,
+          url: topMatch.url,
+          source: 'clickup',
+          similarity: topMatch.similarity
+        };
+      }
+    } catch (error) {
+      console.warn(`Could not search ClickUp list ${task.clickupListId}:`, error instanceof Error ? error.message : error);
+    }
+
+    for (const recent of recentTasks) {
+      if (recent.clickupListId !== task.clickupListId) continue;
+
+      const similarity = titleSimilarity(task.title, recent.title);
+      if (similarity >= DUPLICATE_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = {
+          clickupTaskId: recent.clickupTaskId,
+          name: recent.title,
+          url: `https://app.clickup.com/t/${recent.clickupTaskId}`,
+          source: 'recent',
+          similarity
+        };
+      }
+    }
+
+    if (best) {
+      task.possibleDuplicate = best;
+      flagged++;
+    }
+  }
+
+  return flagged;
+}
@@ -1,5 +1,15 @@
 import { foldersConfig } from '../config/index.js';
-import type { FolderConfig } from '../types/index.js';
+import { DEFAULT_TIME_ZONE } from './timezone.js';
+import { findTeamMappingEntry, loadTeamMapping } from './teamDirectory.js';
+import type {
+  FolderConfig,
+  ExtractedTask,
+  ClickUpMember,
+  ListRoutingRule,
+  BusinessCalendarConfig,
+  StepsMode,
+  PromptProfile
+} from '../types/index.js';
 
 /**
  * Get the configuration for a specific folder ID.
@@ -22,10 +32,129 @@ export function getFolderConfig(folderId: string): FolderConfig {
 }
 
 /**
- * Get the single ClickUp list ID for all meeting tasks.
+ * Get the ClickUp list ID that tasks from a folder should be created in.
+ * Falls back to the global list when the folder doesn't define its own.
  */
-export function getClickUpListId(): string {
-  return foldersConfig.clickupListId;
+export function getClickUpListId(folderConfig?: FolderConfig): string {
+  return folderConfig?.clickupListId || foldersConfig.clickupListId;
+}
+
+/**
+ * Pick the ClickUp list for an extracted task.
+ * Folder rules are evaluated first, then global rules, in the order they are
+ * configured. The first matching rule wins; otherwise the folder's list is used.
+ */
+export function resolveClickUpList(
+  task: ExtractedTask,
+  folderConfig: FolderConfig,
+  assignees: ClickUpMember[] = []
+): { clickupListId: string; rule?: ListRoutingRule } {
+  const rules = [
+    ...(folderConfig.routingRules || []),
+    ...(foldersConfig.routingRules || [])
+  ];
+
+  const rule = rules.find(r => matchesRoutingRule(r, task, assignees));
+  if (rule) {
+    return { clickupListId: rule.clickupListId, rule };
+  }
+
+  return { clickupListId: getClickUpListId(folderConfig) };
+}
+
+/**
+ * Check if a task satisfies every criterion of a routing rule.
+ */
+function matchesRoutingRule(
+  rule: ListRoutingRule,
+  task: ExtractedTask,
+  assignees: ClickUpMember[]
+): boolean {
+  const { keywords, priorities, extractionTypes } = rule.match;
+
+  if (keywords && keywords.length > 0) {
+    const text = `${task.title} ${task.description}`.toLowerCase();
+    if (!keywords.some(k => text.includes(k.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  // Matches if any of the task's assignees is listed
+  if (rule.match.assignees && rule.match.assignees.length > 0) {
+    const candidates = [
+      ...task.suggested_assignees,
+      ...assignees.flatMap(member => [member.username, member.email])
+    ]
+      .filter((c): c is string => !!c)
+      .map(c => c.toLowerCase().trim());
+    if (!rule.match.assignees.some(a => candidates.includes(a.toLowerCase().trim()))) {
+      return false;
+    }
+  }
+
+  if (priorities && priorities.length > 0 && !priorities.includes(task.priority)) {
+    return false;
+  }
+
+  if (extractionTypes && extractionTypes.length > 0 && !extractionTypes.includes(task.extraction_type)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the time zone a folder's meetings happen in.
+ * Falls back to the default folder config's zone, then UTC.
+ */
+export function getFolderTimezone(folderConfig?: FolderConfig): string {
+  return folderConfig?.timezone || foldersConfig.defaultConfig.timezone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Get the time zone due times are set in for a ClickUp member: their userTimezones
+ * override if any, then their team mapping zone, otherwise the folder's zone.
+ */
+export function getUserTimezone(member: ClickUpMember | undefined, folderConfig?: FolderConfig): string {
+  const overrides = foldersConfig.userTimezones || {};
+  const override = member?.email
+    ? Object.entries(overrides).find(([e]) => e.toLowerCase() === member.email.toLowerCase())?.[1]
+    : undefined;
+  return override || (member && findTeamMappingEntry(member)?.timezone) || getFolderTimezone(folderConfig);
+}
+
+/**
+ * Get how a folder's task steps are created in ClickUp: as subtasks or as a checklist
+ * on the task. Falls back to the default folder config, then checklists.
+ */
+export function getStepsMode(folderConfig?: FolderConfig): StepsMode {
+  return folderConfig?.stepsMode || foldersConfig.defaultConfig.stepsMode || 'checklist';
+}
+
+/**
+ * Get the business calendar config for a folder, falling back to the default config's.
+ * Looked up by ID without the unknown-folder warning, since callers only need the calendar.
+ */
+export function getBusinessCalendarConfig(folderId: string): BusinessCalendarConfig | undefined {
+  const folder = foldersConfig.folders.find(f => f.id === folderId);
+  return folder?.businessCalendar || foldersConfig.defaultConfig.businessCalendar;
+}
+
+/**
+ * Get the prompt profile (extra instructions, glossary, examples) for a folder,
+ * falling back to the default config's.
+ */
+export function getPromptProfile(folderId: string): PromptProfile | undefined {
+  const folder = foldersConfig.folders.find(f => f.id === folderId);
+  return folder?.promptProfile || foldersConfig.defaultConfig.promptProfile;
+}
+
+/**
+ * Check whether any per-user time zones are configured, in userTimezones or the team mapping.
+ */
+export function hasUserTimezones(): boolean {
+  return Object.keys(foldersConfig.userTimezones || {}).length > 0 ||
+    loadTeamMapping().some(entry => !!entry.timezone);
 }
 
 /**
@@ -0,0 +1,238 @@
+import type { MeetingDateSource } from '../types/index.js';
+
+/**
+ * Meeting start time and where it was found.
+ * `date` is ISO 8601: "2026-10-17T14:00:00+05:00" when the zone is known,
+ * "2026-10-17T14:00:00" (meeting-local) when it isn't, "2026-10-17" when there is no time.
+ */
+export interface ResolvedMeetingDate {
+  date: string;
+  source: MeetingDateSource;
+}
+
+interface DateParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  offset?: string; // "+05:00" or "Z"
+}
+
+// Only the first lines of a transcript are header; later dates are usually due dates in the conversation
+const HEADER_LINES = 15;
+
+// Zone abbreviations used in Meet/Teams/Otter headers and filenames
+const ZONE_OFFSETS: Record<string, string> = {
+  UTC: 'Z', GMT: 'Z', Z: 'Z',
+  PKT: '+05:00', IST: '+05:30', GST: '+04:00', AST: '+03:00', EET: '+02:00', EEST: '+03:00',
+  CET: '+01:00', CEST: '+02:00', BST: '+01:00', SGT: '+08:00', JST: '+09:00', AEST: '+10:00',
+  EST: '-05:00', EDT: '-04:00', CST: '-06:00', CDT: '-05:00',
+  MST: '-07:00', MDT: '-06:00', PST: '-08:00', PDT: '-07:00'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const WEEKDAY = '(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\\.?,?\\s+)?';
+const TIME = '(\\d{1,2}):(\\d{2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)?';
+const ZONE = '(?:\\s*\\(?((?:GMT|UTC)[+-]\\d{1,2}(?::?\\d{2})?|[+-]\\d{2}:?\\d{2}|Z\\b|[A-Za-z]{2,5}\\b)\\)?)?';
+
+// "Date: ...", "Meeting started: ...", "NOTE Recorded on ..." (VTT)
+const LABEL_PATTERN = /^(?:NOTE\s+)?(?:meeting\s+date|meeting\s+started(?:\s+at)?|recording\s+date|start(?:ed)?(?:\s+(?:at|time))?|recorded(?:\s+on)?|date)\s*[:-]?\s*/i;
+
+// "Sara: ..." - speech, whose dates are deadlines rather than the meeting date
+const SPEAKER_PREFIX_PATTERN = /^[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}:\s/;
+
+/**
+ * Date patterns, each with a function turning its match into date parts.
+ */
+const DATE_PATTERNS: Array<{ pattern: RegExp; toParts: (m: RegExpMatchArray) => DateParts }> = [
+  // 2026-10-17 14:00, 2026/10/17 2:00 PM PKT, 2026-10-17T14:00:00Z
+  {
+    pattern: new RegExp(`(\\d{4})[-/.](\\d{1,2})[-/.](\\d{1,2})(?:(?:T|,?\\s+)${TIME}${ZONE})?`, 'i'),
+    toParts: m => ({ year: +m[1], month: +m[2], day: +m[3], ...timeParts(m.slice(4, 9)) })
+  },
+  // Tue, Feb 10, 2026 10:00AM / October 17, 2026, 2:00 PM
+  {
+    pattern: new RegExp(`${WEEKDAY}${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})(?:,?\\s+(?:at\\s+)?${TIME}${ZONE})?`, 'i'),
+    toParts: m => ({ year: +m[3], month: monthNumber(m[1]), day: +m[2], ...timeParts(m.slice(4, 9)) })
+  },
+  // 17 October 2026 14:00
+  {
+    pattern: new RegExp(`${WEEKDAY}(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{4})(?:,?\\s+(?:at\\s+)?${TIME}${ZONE})?`, 'i'),
+    toParts: m => ({ year: +m[3], month: monthNumber(m[2]), day: +m[1], ...timeParts(m.slice(4, 9)) })
+  },
+  // Teams recordings "...-20261017_140012-Meeting Recording", Zoom "GMT20261017-140012_Recording" (UTC)
+  {
+    pattern: /(GMT)?(\d{4})(\d{2})(\d{2})[-_](\d{2})(\d{2})(\d{2})/,
+    toParts: m => ({
+      year: +m[2], month: +m[3], day: +m[4],
+      hour: +m[5], minute: +m[6], second: +m[7],
+      ...(m[1] && { offset: 'Z' })
+    })
+  }
+];
+
+/**
+ * Work out when a meeting happened.
+ * Looks at the transcript header first (export metadata, "Date:" / "Meeting started" lines,
+ * a date heading), then the filename (Meet's "Name - 2026/10/17 14:00 PKT - Transcript",
+ * Teams and Zoom recording names), and falls back to the Drive file time.
+ */
+export function resolveMeetingDate(
+  rawContent: string,
+  fileName: string,
+  fallbackDate: string
+): ResolvedMeetingDate {
+  const fromContent = findDateInJson(rawContent) ?? findDateInHeader(rawContent);
+  if (fromContent) {
+    return { date: fromContent, source: 'transcript' };
+  }
+
+  const fromFileName = findDate(fileName.replace(/\.[a-z0-9]+$/i, ''));
+  if (fromFileName) {
+    return { date: fromFileName, source: 'filename' };
+  }
+
+  return { date: fallbackDate, source: 'drive' };
+}
+
+/**
+ * Start time fields of JSON exports: Zoom `start_time` (ISO), Otter `start_time`
+ * (epoch seconds) and Fireflies `date` (epoch milliseconds).
+ */
+function findDateInJson(content: string): string | null {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('{')) {
+    return null;
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  const otter = json.speech ?? json;
+  const fireflies = json.data?.transcript ?? json;
+
+  if (typeof json.start_time === 'string') {
+    return findDate(json.start_time);
+  }
+  if (typeof otter.start_time === 'number') {
+    return new Date(otter.start_time * 1000).toISOString();
+  }
+  if (typeof fireflies.date === 'number') {
+    return new Date(fireflies.date).toISOString();
+  }
+  return null;
+}
+
+function findDateInHeader(content: string): string | null {
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(l => l.trim())
+    .filter(Boolean)
+    .slice(0, HEADER_LINES);
+
+  // Labelled lines are the most reliable ("Date: 2026-02-03")
+  for (const line of lines) {
+    const label = line.match(LABEL_PATTERN);
+    if (label && label[0].length < line.length) {
+      const date = findDate(line.slice(label[0].length), true);
+      if (date) {
+        return date;
+      }
+    }
+  }
+
+  // Then a line that starts with a date ("2026-02-03 10:00 AM", "Tue, Feb 10, 2026 10:00AM • 28:14"),
+  // or a Meet-style title "Weekly sync - 2026/10/17 14:00 PKT - Transcript"
+  for (const [index, line] of lines.entries()) {
+    const isTitle = index === 0 && !SPEAKER_PREFIX_PATTERN.test(line);
+    const date = findDate(line, !isTitle);
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the first date in the text. With `anchored`, the date must start the text.
+ */
+function findDate(text: string, anchored = false): string | null {
+  for (const { pattern, toParts } of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match && (!anchored || match.index === 0)) {
+      const iso = toIsoString(toParts(match));
+      if (iso) {
+        return iso;
+      }
+    }
+  }
+  return null;
+}
+
+function timeParts([hour, minute, second, meridiem, zone]: Array<string | undefined>): Partial<DateParts> {
+  if (hour === undefined || minute === undefined) {
+    return {};
+  }
+
+  let h = parseInt(hour, 10);
+  const pm = meridiem?.toLowerCase().startsWith('p');
+  if (meridiem) {
+    h = (h % 12) + (pm ? 12 : 0);
+  }
+
+  return {
+    hour: h,
+    minute: parseInt(minute, 10),
+    second: second ? parseInt(second, 10) : 0,
+    offset: zone ? zoneOffset(zone) : undefined
+  };
+}
+
+/**
+ * "PKT" → "+05:00", "GMT+5" → "+05:00", "+0530" → "+05:30". Unknown abbreviations give undefined.
+ */
+function zoneOffset(zone: string): string | undefined {
+  const upper = zone.toUpperCase();
+  if (ZONE_OFFSETS[upper]) {
+    return ZONE_OFFSETS[upper];
+  }
+
+  const numeric = upper.match(/^(?:GMT|UTC)?([+-])(\d{1,2}):?(\d{2})?$/);
+  if (!numeric) {
+    return undefined;
+  }
+  return `${numeric[1]}${numeric[2].padStart(2, '0')}:${numeric[3] ?? '00'}`;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function toIsoString(parts: DateParts): string | null {
+  const { year, month, day, hour, minute, second = 0, offset } = parts;
+
+  // Reject impossible dates ("2026-02-31") and out-of-range times
+  const check = new Date(Date.UTC(year, month - 1, day, hour ?? 0, minute ?? 0, second));
+  if (
+    month < 1 || check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day || check.getUTCHours() !== (hour ?? 0) || check.getUTCMinutes() !== (minute ?? 0)
+  ) {
+    return null;
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  if (hour === undefined) {
+    return date;
+  }
+  return `${date}T${pad(hour)}:${pad(minute ?? 0)}:${pad(second)}${offset ?? ''}`;
+}
@@ -1,5 +1,16 @@
 import { getWorkspaceMembers, findMemberByName } from '../services/clickupService.js';
-import type { ClickUpMember } from '../types/index.js';
+import {
+  buildTeamDirectory,
+  findTeamMember,
+  isAmbiguousMatch,
+  isWeakMatch,
+  normalizeName,
+  rankTeamMembers
+} from './teamDirectory.js';
+import type { ClickUpMember, SpeakerMapping } from '../types/index.js';
+
+// Candidates offered on the card for an ambiguous name
+const MAX_CANDIDATES = 5;
 
 /**
  * Get ClickUp member ID from a name mentioned in transcript.
@@ -84,35 +95,61 @@ function isLikelyTimestamp(str: string): boolean {
 }
 
 /**
- * Try to resolve an assignee name to a ClickUp member.
- * Returns both the member (if found) and whether it was an exact match.
+ * Try to resolve an assignee name to a ClickUp member through the team directory.
+ * A name reviewers already picked a member for in this folder (see getLearnedAliases)
+ * resolves to that member. Otherwise returns the ranked candidates, and the best one
+ * unless it only loosely matches or the top two are too close to call.
  */
-export async function resolveAssignee(name: string): Promise<{
+export async function resolveAssignee(name: string, learnedAliases: Record<string, number> = {}): Promise<{
   member: ClickUpMember | null;
-  confidence: 'exact' | 'partial' | 'none';
+  confidence: 'exact' | 'partial' | 'ambiguous' | 'none';
+  candidates: ClickUpMember[];
 }> {
   if (!name) {
-    return { member: null, confidence: 'none' };
+    return { member: null, confidence: 'none', candidates: [] };
   }
 
   const members = await getWorkspaceMembers();
-  const normalizedName = name.toLowerCase().trim();
 
-  // Try exact match on username or email
-  const exactMatch = members.find(m =>
-    m.username.toLowerCase() === normalizedName ||
-    m.email.toLowerCase() === normalizedName
-  );
+  const learnedId = learnedAliases[normalizeName(name)];
+  const learned = members.find(m => m.id === learnedId);
+  if (learned) {
+    return { member: learned, confidence: 'exact', candidates: [learned] };
+  }
+
+  // People in the team mapping without a ClickUp account can't be assigned
+  const matches = rankTeamMembers(name, buildTeamDirectory(members)).filter(m => m.entry.member);
+  const candidates = matches.slice(0, MAX_CANDIDATES).map(m => m.entry.member!);
+
+  if (matches.length === 0) {
+    return { member: null, confidence: 'none', candidates };
+  }
+  if (isWeakMatch(matches) || isAmbiguousMatch(matches)) {
+    return { member: null, confidence: 'ambiguous', candidates };
+  }
 
-  if (exactMatch) {
-    return { member: exactMatch, confidence: 'exact' };
+  return { member: candidates[0], confidence: matches[0].score === 1 ? 'exact' : 'partial', candidates };
+}
+
+/**
+ * Guess who each generic speaker label ("Speaker 1") is from the people known to be in
+ * the meeting (names or emails, most likely first speaker first). Labels are numbered in
+ * order of first speaking, so they are paired with the people in order; reviewers
+ * correct the guesses on the approval card.
+ */
+export async function suggestSpeakerMapping(labels: string[], people: string[]): Promise<SpeakerMapping[]> {
+  if (labels.length === 0) {
+    return [];
   }
 
-  // Try partial match
-  const partialMatch = await findMemberByName(name);
-  if (partialMatch) {
-    return { member: partialMatch, confidence: 'partial' };
+  const directory = buildTeamDirectory(await getWorkspaceMembers());
+  const memberIds: number[] = [];
+  for (const person of people) {
+    const id = findTeamMember(person, directory)?.entry.member?.id;
+    if (id !== undefined && !memberIds.includes(id)) {
+      memberIds.push(id);
+    }
   }
 
-  return { member: null, confidence: 'none' };
+  return labels.map((label, i) => ({ label, memberId: memberIds[i] ?? null }));
 }
@@ -0,0 +1,48 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+
+// Page numbers exporters print as a running header or footer
+const PAGE_NUMBER_PATTERNS = [
+  /^(?:page\s+)?(\d+)\s*(?:of|\/)\s*(\d+)$/i,  // "Page 2 of 5", "2/5"
+  /^-?\s*(\d+)\s*-?$/                            // "2", "- 2 -"
+];
+
+/**
+ * Extract transcript text from a PDF export (Otter, Zoom, Teams "Download as PDF").
+ * Text keeps the line breaks of the layout, so speaker headers and timestamps stay
+ * on their own lines for parseTranscript. Scanned PDFs without a text layer give ''.
+ */
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+  try {
+    const { text: pages } = await extractText(pdf, { mergePages: false });
+
+    const lines = pages.map(page => page.trim().split('\n').map(line => line.trim()));
+    return stripPageNumbers(lines).flat().join('\n');
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Drop the page numbers from each page's lines. A first or last line only counts as
+ * a page number if every page has one in that place, counting up from 1 (and giving
+ * the page count, for "Page 2 of 5"). A spoken "5" or "2/5" elsewhere is kept.
+ */
+function stripPageNumbers(pages: string[][]): string[][] {
+  const numbered = (line: string | undefined, index: number) => {
+    const match = line && PAGE_NUMBER_PATTERNS.map(pattern => line.match(pattern)).find(Boolean);
+    return !!match
+      && Number(match[1]) === index + 1
+      && (match[2] === undefined || Number(match[2]) === pages.length);
+  };
+
+  let stripped = pages;
+  if (stripped.every((lines, i) => numbered(lines[0], i))) {
+    stripped = stripped.map(lines => lines.slice(1));
+  }
+  if (stripped.every((lines, i) => numbered(lines[lines.length - 1], i))) {
+    stripped = stripped.map(lines => lines.slice(0, -1));
+  }
+  return stripped;
+}
@@ -0,0 +1,91 @@
+import type { RecurrenceFrequency, TaskRecurrence, Weekday } from '../types/index.js';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const UNIT_NAMES: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+// Card dropdown value for a one-off task
+export const NO_RECURRENCE = 'none';
+
+/**
+ * Clean up a recurrence from the model or a card: whole interval of at least 1,
+ * weekday only on weekly tasks. Returns null for anything unusable.
+ */
+export function normalizeRecurrence(recurrence: TaskRecurrence | null | undefined): TaskRecurrence | null {
+  if (!recurrence || !FREQUENCIES.includes(recurrence.frequency)) {
+    return null;
+  }
+
+  const interval = Math.max(1, Math.floor(Number(recurrence.interval) || 1));
+  const weekday = recurrence.frequency === 'weekly' && WEEKDAYS.includes(recurrence.weekday as Weekday)
+    ? recurrence.weekday
+    : null;
+
+  return { frequency: recurrence.frequency, interval, weekday };
+}
+
+/**
+ * "Every Monday", "Every 2 weeks on Friday", "Daily", "Every 3 months".
+ */
+export function formatRecurrence(recurrence: TaskRecurrence): string {
+  const { frequency, interval, weekday } = recurrence;
+  const day = weekday ? weekday[0].toUpperCase() + weekday.slice(1) : null;
+
+  if (interval === 1) {
+    if (day) {
+      return `Every ${day}`;
+    }
+    return frequency[0].toUpperCase() + frequency.slice(1);
+  }
+  return `Every ${interval} ${UNIT_NAMES[frequency]}s${day ? ` on ${day}` : ''}`;
+}
+
+/**
+ * Encode a recurrence as a card dropdown value ("weekly:2:monday", "monthly:1", "none").
+ */
+export function toRecurrenceValue(recurrence: TaskRecurrence | null | undefined): string {
+  if (!recurrence) {
+    return NO_RECURRENCE;
+  }
+  const { frequency, interval, weekday } = recurrence;
+  return [frequency, interval, ...(weekday ? [weekday] : [])].join(':');
+}
+
+/**
+ * Decode a card dropdown value. "none" and unknown values give null.
+ */
+export function parseRecurrenceValue(value: string): TaskRecurrence | null {
+  const [frequency, interval, weekday] = value.split(':');
+  return normalizeRecurrence({
+    frequency: frequency as RecurrenceFrequency,
+    interval: parseInt(interval, 10),
+    weekday: (weekday as Weekday) || null
+  });
+}
+
+/**
+ * Choices for the card's "Repeats" dropdown: one-off, daily, weekly on each working
+ * weekday, every other week, monthly and yearly, plus the extracted recurrence if it
+ * isn't one of those.
+ */
+export function getRecurrenceOptions(current: TaskRecurrence | null | undefined): TaskRecurrence[] {
+  const weekday = current?.weekday || 'monday';
+  const options: TaskRecurrence[] = [
+    { frequency: 'daily', interval: 1, weekday: null },
+    ...WEEKDAYS.slice(1, 6).map(day => ({ frequency: 'weekly' as const, interval: 1, weekday: day })),
+    { frequency: 'weekly', interval: 2, weekday },
+    { frequency: 'monthly', interval: 1, weekday: null },
+    { frequency: 'yearly', interval: 1, weekday: null }
+  ];
+
+  if (current && !options.some(option => toRecurrenceValue(option) === toRecurrenceValue(current))) {
+    options.unshift(current);
+  }
+  return options;
+}
@@ -0,0 +1,111 @@
+import { normalizeName } from './teamDirectory.js';
+import type { ExtractedTask, SourceVerification } from '../types/index.js';
+
+// Share of a quote's words that must appear close together in the transcript
+const QUOTE_MATCH_THRESHOLD = 0.7;
+
+interface TranscriptWord {
+  word: string;
+  offset: number;  // Character offset in the transcript
+}
+
+/**
+ * Check a task the LLM extracted against the transcript it came from:
+ * - whether its source quote appears in the transcript, allowing for light paraphrasing,
+ *   and where the best match is
+ * - which suggested assignees were neither speakers nor attendees (knownNames) and
+ *   aren't mentioned anywhere in the transcript
+ */
+export function verifyTaskSource(
+  task: ExtractedTask,
+  transcript: string,
+  knownNames: string[]
+): SourceVerification {
+  const words = tokenize(transcript);
+  const { score, offset } = findQuote(task.source_quote, words);
+
+  const known = new Set(knownNames.map(normalizeName));
+  const mentioned = new Set(words.map(w => w.word));
+  const unknownAssignees = task.suggested_assignees.filter(name => {
+    const normalized = normalizeName(name);
+    return normalized && !known.has(normalized) && !normalized.split(' ').some(t => t.length > 1 && mentioned.has(t));
+  });
+
+  return {
+    quoteFound: score >= QUOTE_MATCH_THRESHOLD,
+    quoteScore: Math.round(score * 100) / 100,
+    quoteOffset: score >= QUOTE_MATCH_THRESHOLD ? offset : null,
+    unknownAssignees
+  };
+}
+
+/**
+ * Redo the assignee check of verifyTaskSource after a task's assignees were renamed
+ * (speaker labels mapped to people), without the transcript: a name that passed before
+ * was known or mentioned and still is, and a renamed one passes if it's in knownNames.
+ */
+export function recheckUnknownAssignees(
+  verification: SourceVerification,
+  assignees: string[],
+  knownNames: string[]
+): string[] {
+  const unknown = new Set(verification.unknownAssignees.map(normalizeName));
+  const known = new Set(knownNames.map(normalizeName));
+
+  return assignees.filter(name => {
+    const normalized = normalizeName(name);
+    return unknown.has(normalized) && !known.has(normalized);
+  });
+}
+
+/**
+ * Find the stretch of the transcript, as long as the quote, sharing the most words
+ * with it. Returns the share of the quote's words found there and where it starts.
+ */
+function findQuote(quote: string, words: TranscriptWord[]): { score: number; offset: number | null } {
+  const quoteWords = tokenize(quote).map(w => w.word);
+  if (quoteWords.length === 0 || words.length === 0) {
+    return { score: 0, offset: null };
+  }
+
+  const wanted = new Map<string, number>();
+  for (const word of quoteWords) {
+    wanted.set(word, (wanted.get(word) || 0) + 1);
+  }
+
+  // Slide a window over the transcript, counting how many quote words it holds
+  const size = Math.min(quoteWords.length, words.length);
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = 0;
+  let bestStart = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const added = words[i].word;
+    const addedCount = inWindow.get(added) || 0;
+    if (addedCount < (wanted.get(added) || 0)) {
+      matched++;
+    }
+    inWindow.set(added, addedCount + 1);
+
+    if (i >= size) {
+      const removed = words[i - size].word;
+      const removedCount = inWindow.get(removed)! - 1;
+      inWindow.set(removed, removedCount);
+      if (removedCount < (wanted.get(removed) || 0)) {
+        matched--;
+      }
+    }
+
+    if (matched > best) {
+      best = matched;
+      bestStart = Math.max(0, i - size + 1);
+    }
+  }
+
+  return { score: best / quoteWords.length, offset: best > 0 ? words[bestStart].offset : null };
+}
+
+function tokenize(text: string): TranscriptWord[] {
+  return [...text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)].map(m => ({ word: m[0], offset: m.index! }));
+}
@@ -0,0 +1,65 @@
+/**
+ * Normalize a task title for comparison.
+ * Strips folder prefixes like "[Meeting]", punctuation and extra whitespace.
+ */
+export function normalizeTaskTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/^\s*\[[^\]]*\]\s*/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Words that don't tell tasks apart: "Follow up with the client" and "Follow up
+// with the vendor" share everything but the word that matters
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'for', 'with', 'on', 'in', 'at', 'by',
+  'from', 'about', 'into', 'up', 'out', 'off', 'over', 'as', 'is', 'are', 'be', 'it', 'its',
+  'this', 'that', 'these', 'those', 'our', 'their', 'his', 'her', 'my', 'your', 'we', 'us',
+  'all', 'any', 'some', 'new'
+]);
+
+/**
+ * Score how similar two task titles are (0 = unrelated, 1 = identical).
+ * Uses the Dice coefficient over content words, so "send weekly report" and
+ * "send the weekly report to Khalid" score highly but titles sharing only
+ * filler words don't.
+ */
+export function titleSimilarity(title1: string, title2: string): number {
+  const a = normalizeTaskTitle(title1);
+  const b = normalizeTaskTitle(title2);
+
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const words1 = contentWords(a);
+  const words2 = contentWords(b);
+  if (words1.size === 0 || words2.size === 0) return 0;
+
+  const overlap = [...words1].filter(w => words2.has(w)).length;
+  return (2 * overlap) / (words1.size + words2.size);
+}
+
+function contentWords(normalizedTitle: string): Set<string> {
+  return new Set(normalizedTitle.split(' ').filter(w => !STOPWORDS.has(w)));
+}
+
+/**
+ * Check if two task titles are similar enough to be duplicates.
+ */
+export function areTitlesSimilar(title1: string, title2: string): boolean {
+  // Simple similarity check - could be improved with Levenshtein distance
+  if (title1 === title2) return true;
+
+  // Check if one contains the other
+  if (title1.includes(title2) || title2.includes(title1)) return true;
+
+  // Check word overlap
+  const words1 = new Set(title1.split(/\s+/));
+  const words2 = new Set(title2.split(/\s+/));
+  const overlap = [...words1].filter(w => words2.has(w)).length;
+  const minLength = Math.min(words1.size, words2.size);
+
+  return minLength > 0 && overlap / minLength > 0.7;
+}
@@ -0,0 +1,289 @@
+import { readFileSync } from 'fs';
+import { getConfigPath } from '../config/index.js';
+import type { ClickUpMember, TeamMapping, TeamMappingEntry } from '../types/index.js';
+
+/**
+ * A person the bot can assign tasks to: a ClickUp member merged with their
+ * config/team-mapping.json entry, if they have one.
+ */
+export interface TeamDirectoryEntry {
+  member: ClickUpMember | null;  // null for mapped people without a ClickUp account
+  name: string;
+  email: string;  // Canonical email (the mapping's, else ClickUp's)
+  aliases: string[];
+  chatUserId?: string;
+  timezone?: string;
+}
+
+export interface TeamMemberMatch {
+  entry: TeamDirectoryEntry;
+  score: number;  // 1 for an exact name, alias or email match
+}
+
+const TEAM_MAPPING_FILE = 'team-mapping.json';
+
+// Weakest match assigned without asking, weakest match offered as a candidate,
+// and how close a runner-up can be before the name is ambiguous
+const MIN_MATCH_SCORE = 0.8;
+const MIN_CANDIDATE_SCORE = 0.7;
+const AMBIGUITY_MARGIN = 0.02;
+
+// Forms of address dropped before matching ("Haseeb bhai", "Khalid sahab", "Mr. Omar")
+const HONORIFICS = new Set([
+  'bhai', 'bhaiya', 'bhaijan', 'sahab', 'sahib', 'saab', 'sb', 'ji', 'jee', 'baji', 'api', 'apa',
+  'mr', 'mrs', 'ms', 'miss', 'sir', 'madam', 'dr'
+]);
+
+// The mapping file is read once per instance
+let teamMappingCache: TeamMappingEntry[] | null = null;
+
+/**
+ * Load config/team-mapping.json. The file is optional: without it the
+ * directory is just the ClickUp workspace members.
+ */
+export function loadTeamMapping(): TeamMappingEntry[] {
+  if (teamMappingCache) {
+    return teamMappingCache;
+  }
+
+  let entries: TeamMappingEntry[] = [];
+  try {
+    const content = readFileSync(getConfigPath(TEAM_MAPPING_FILE), 'utf-8');
+    const mapping = JSON.parse(content) as TeamMapping;
+    entries = (mapping.members || []).filter(m => m.name && m.email);
+    console.log(`Loaded ${entries.length} people from ${TEAM_MAPPING_FILE}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Could not load ${TEAM_MAPPING_FILE}, matching ClickUp members only: ${(error as Error).message}`);
+    }
+  }
+
+  teamMappingCache = entries;
+  return entries;
+}
+
+/**
+ * Find the team mapping entry for a ClickUp member, by ClickUp ID or email.
+ */
+export function findTeamMappingEntry(member: { id?: number; email?: string }): TeamMappingEntry | undefined {
+  const email = member.email?.toLowerCase();
+  return loadTeamMapping().find(entry =>
+    (member.id !== undefined && entry.clickupId === member.id) ||
+    (!!email && entry.email.toLowerCase() === email)
+  );
+}
+
+/**
+ * Merge ClickUp members with the team mapping. Mapping entries are linked to
+ * members by ClickUp ID, then by email.
+ */
+export function buildTeamDirectory(members: ClickUpMember[]): TeamDirectoryEntry[] {
+  const mapping = loadTeamMapping();
+  const linked = new Set<TeamMappingEntry>();
+
+  const directory: TeamDirectoryEntry[] = members.map(member => {
+    const entry = mapping.find(e => !linked.has(e) && e.clickupId === member.id) ||
+      mapping.find(e => !linked.has(e) && e.clickupId === undefined && e.email.toLowerCase() === member.email.toLowerCase());
+    if (!entry) {
+      return { member, name: member.username, email: member.email, aliases: [] };
+    }
+
+    linked.add(entry);
+    return {
+      member,
+      name: entry.name,
+      email: entry.email,
+      aliases: [member.username, ...(entry.aliases || [])],
+      chatUserId: entry.chatUserId,
+      timezone: entry.timezone
+    };
+  });
+
+  for (const entry of mapping) {
+    if (!linked.has(entry)) {
+      directory.push({
+        member: null,
+        name: entry.name,
+        email: entry.email,
+        aliases: entry.aliases || [],
+        chatUserId: entry.chatUserId,
+        timezone: entry.timezone
+      });
+    }
+  }
+
+  return directory;
+}
+
+/**
+ * Rank the people a name from a transcript could refer to, best first. Each of
+ * their names (display name, aliases, email) is scored against it by exact
+ * match, initials ("HB"), spelling variants that sound alike ("Hasib"/"Haseeb")
+ * and edit distance, with first names counting slightly more than last names.
+ * People who don't score high enough to be a candidate are left out.
+ */
+export function rankTeamMembers(name: string, directory: TeamDirectoryEntry[]): TeamMemberMatch[] {
+  const query = normalizeName(name);
+  if (!query) {
+    return [];
+  }
+
+  return directory
+    .map(entry => ({ entry, score: scoreEntry(query, name, entry) }))
+    .filter(m => m.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Check whether the top two ranked matches score too closely to pick one.
+ */
+export function isAmbiguousMatch(matches: TeamMemberMatch[]): boolean {
+  return matches.length > 1 && matches[0].score - matches[1].score < AMBIGUITY_MARGIN;
+}
+
+/**
+ * Check whether the best ranked match is only a candidate: close enough to offer
+ * a reviewer ("Hana" for Hina), not to assign.
+ */
+export function isWeakMatch(matches: TeamMemberMatch[]): boolean {
+  return matches.length > 0 && matches[0].score < MIN_MATCH_SCORE;
+}
+
+/**
+ * Find the person a name from a transcript refers to (see rankTeamMembers).
+ * Returns null if nobody scores high enough, or if two people score about the same.
+ */
+export function findTeamMember(name: string, directory: TeamDirectoryEntry[]): TeamMemberMatch | null {
+  const matches = rankTeamMembers(name, directory);
+  if (matches.length === 0) {
+    return null;
+  }
+
+  if (isWeakMatch(matches)) {
+    console.log(`"${name}" only loosely matches ${matches[0].entry.name}, leaving it unmatched`);
+    return null;
+  }
+
+  if (isAmbiguousMatch(matches)) {
+    console.log(`"${name}" is ambiguous between ${matches[0].entry.name} and ${matches[1].entry.name}, leaving it unmatched`);
+    return null;
+  }
+
+  return matches[0];
+}
+
+function scoreEntry(query: string, rawQuery: string, entry: TeamDirectoryEntry): number {
+  if (rawQuery.trim().toLowerCase() === entry.email.toLowerCase()) {
+    return 1;
+  }
+
+  const names = [
+    entry.name,
+    ...entry.aliases,
+    entry.email.split('@')[0].replace(/[._-]+/g, ' ')
+  ];
+
+  return Math.max(...names.map(n => scoreName(query, normalizeName(n))));
+}
+
+/**
+ * Score a normalized query against one normalized name.
+ */
+function scoreName(query: string, name: string): number {
+  if (!name) {
+    return 0;
+  }
+  if (query === name) {
+    return 1;
+  }
+
+  const queryTokens = query.split(' ');
+  const nameTokens = name.split(' ');
+
+  // "HB" for "Haseeb Butt"
+  if (queryTokens.length === 1 && nameTokens.length > 1 && query === nameTokens.map(t => t[0]).join('')) {
+    return 0.9;
+  }
+
+  const total = queryTokens.reduce((sum, queryToken) => {
+    const best = Math.max(...nameTokens.map((nameToken, i) =>
+      scoreToken(queryToken, nameToken) * (i === 0 ? 1 : 0.95)
+    ));
+    return sum + best;
+  }, 0);
+
+  return total / queryTokens.length;
+}
+
+/**
+ * Score two name tokens: 1 if equal, otherwise their edit-distance similarity.
+ * Tokens that sound alike score at least 0.7, but stay below MIN_MATCH_SCORE
+ * unless their spelling is close too: different people share a consonant
+ * skeleton (Amir/Omar, Ali/Ola, Hana/Hina).
+ */
+function scoreToken(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const similarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  if (a.length >= 3 && b.length >= 3 && phoneticKey(a) === phoneticKey(b)) {
+    return Math.max(similarity, 0.7 + 0.09 * similarity);
+  }
+  return similarity;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and drop honorifics
+ * (unless the honorific is the whole name).
+ */
+export function normalizeName(name: string): string {
+  const tokens = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(t => t);
+
+  const withoutHonorifics = tokens.filter(t => !HONORIFICS.has(t));
+  return (withoutHonorifics.length > 0 ? withoutHonorifics : tokens).join(' ');
+}
+
+/**
+ * Consonant skeleton of a token, folding the usual variation in romanized
+ * Urdu/Arabic names: vowel spelling (Haseeb/Hasib, Usman/Osman), doubled
+ * letters (Ahmad/Ahmmad), q/k, ph/f, w/v and aspirated consonants (kh, gh, sh).
+ */
+function phoneticKey(token: string): string {
+  const key = token
+    .replace(/ph/g, 'f')
+    .replace(/q/g, 'k')
+    .replace(/c(?!h)/g, 'k')
+    .replace(/([bcdgjkpst])h/g, '$1')
+    .replace(/w/g, 'v');
+
+  const first = /[aeiouy]/.test(key[0]) ? 'a' : key[0];
+  return (first + key.slice(1).replace(/[aeiouy]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,110 @@
+/**
+ * Time zone helpers built on Intl, so IANA zones ("Asia/Karachi", "America/New_York")
+ * work without a tz database dependency. Calendar dates are returned as local-midnight
+ * Date objects, which is what date-fns arithmetic in dateResolver expects.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+interface ZonedParts {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a zone name is known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a zone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value])
+  );
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10)
+  };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in milliseconds (positive east of UTC).
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The calendar day a date string falls on in a zone.
+ * Strings with an offset ("...T23:30:00Z") are instants and are converted into the zone;
+ * date-only and offset-less strings are already local to the meeting and are taken as written.
+ */
+export function toCalendarDate(dateStr: string, timeZone: string): Date | null {
+  const local = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+)?$/);
+  if (local) {
+    return new Date(parseInt(local[1], 10), parseInt(local[2], 10) - 1, parseInt(local[3], 10));
+  }
+
+  const instant = new Date(dateStr);
+  if (isNaN(instant.getTime())) {
+    return null;
+  }
+
+  const p = getZonedParts(instant, timeZone);
+  return new Date(p.year, p.month - 1, p.day);
+}
+
+/**
+ * The instant at which a zone's clock shows the given date ("2026-10-20") and time ("17:00").
+ * Handles DST by re-checking the offset at the candidate instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(n => parseInt(n, 10));
+  const [hour, minute] = time.split(':').map(n => parseInt(n, 10));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute || 0);
+
+  let utc = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const offsetAtResult = getTimeZoneOffsetMs(new Date(utc), timeZone);
+  utc = wallClock - offsetAtResult;
+
+  return new Date(utc);
+}
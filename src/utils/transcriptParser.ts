@@ -3,7 +3,28 @@ import { extractAttendeesFromTranscript } from './memberMapper.js';
 /**
  * Supported transcript formats.
  */
-export type TranscriptFormat = 'vtt' | 'srt' | 'plain' | 'google_meet' | 'zoom' | 'teams';
+export type TranscriptFormat =
+  | 'vtt'
+  | 'srt'
+  | 'plain'
+  | 'google_meet'
+  | 'zoom'
+  | 'teams'
+  | 'otter'
+  | 'zoom_json'
+  | 'otter_json'
+  | 'fireflies_json';
+
+/**
+ * A single turn in a transcript: one cue, caption block or speaker paragraph.
+ */
+export interface Utterance {
+  id: string;              // Stable ID referenced by the LLM ("u1", "u2", ...)
+  speaker: string | null;
+  startTime?: string;      // Recording offset (HH:MM:SS) or clock time as written in the transcript
+  endTime?: string;
+  text: string;
+}
 
 /**
  * Parsed transcript with metadata.
@@ -12,14 +33,42 @@ export interface ParsedTranscript {
   content: string;
   format: TranscriptFormat;
   attendees: string[];
+  speakerLabels: string[];  // Generic diarization labels ("Speaker 1") in order of first appearance
+  utterances: Utterance[];  // Empty for plain text, which has no reliable turn boundaries
   duration?: string;
   startTime?: string;
 }
 
+type RawUtterance = Omit<Utterance, 'id'>;
+
+// "Name: text" where the name is one to four capitalized words or a numbered label ("Speaker 2")
+const SPEAKER_LINE_PATTERN = /^([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}|(?:Speaker|Participant|Guest)\s+\d{1,3}):\s+(.+)$/;
+// A line holding only a speaker name
+const SPEAKER_NAME_PATTERN = /^(?:[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}|(?:Speaker|Participant|Guest)\s+\d{1,3})$/;
+// Line labels that fit the name shape but are never speakers ("Task: ...", "Action Item: ...")
+const NON_SPEAKER_LABELS = new Set([
+  'action', 'action item', 'action items', 'actions', 'agenda', 'answer', 'attendees', 'date',
+  'decision', 'decisions', 'deadline', 'due', 'follow up', 'follow-up', 'fyi', 'location',
+  'meeting', 'next steps', 'note', 'notes', 'owner', 'participants', 'ps', 'priority',
+  'question', 'questions', 're', 'reminder', 'status', 'subject', 'summary', 'task', 'tasks',
+  'time', 'title', 'todo', 'to do', 'topic', 'update', 'updates'
+]);
+// Labels diarization assigns when it can't name a speaker ("Speaker 1", "Speaker B", "SPEAKER_00")
+const GENERIC_SPEAKER_PATTERN = /^(?:unknown\s+)?(?:speaker|participant|guest|spk)(?:[\s_-]*\d{1,3}|[\s_-]+[a-z])$/i;
+const CLOCK_TIME = '\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\s*[AP]M)?';
+
 /**
  * Detect the format of a transcript based on content patterns.
  */
 export function detectTranscriptFormat(content: string): TranscriptFormat {
+  const json = parseJson(content);
+  if (json !== undefined) {
+    const jsonFormat = detectJsonFormat(json);
+    if (jsonFormat) {
+      return jsonFormat;
+    }
+  }
+
   const firstLines = content.split('\n').slice(0, 10).join('\n');
 
   // WebVTT format
@@ -32,13 +81,22 @@ export function detectTranscriptFormat(content: string): TranscriptFormat {
     return 'srt';
   }
 
-  // Google Meet format (usually has specific patterns)
-  if (firstLines.includes('Google Meet') || /^\d{1,2}:\d{2}:\d{2}\s+[A-Z][a-z]+/.test(firstLines)) {
+  // Google Meet format: "HH:MM:SS Speaker" lines, or Gemini notes with "Speaker (10:00 AM)" headers
+  if (
+    firstLines.includes('Google Meet') ||
+    firstLines.includes('Notes by Gemini') ||
+    /^\d{1,2}:\d{2}:\d{2}\s+[A-Z][a-z]+/.test(firstLines) ||
+    new RegExp(`^[A-Z][^\\n(]*\\(${CLOCK_TIME}\\)\\s*$`, 'm').test(firstLines)
+  ) {
     return 'google_meet';
   }
 
   // Zoom format
-  if (firstLines.includes('ZOOM') || /^From\s+.+\s+to\s+Everyone:/m.test(content)) {
+  if (
+    firstLines.includes('ZOOM') ||
+    /^(?:\d{1,2}:\d{2}:\d{2}\s+)?From\s+.+\s+to\s+Everyone:/m.test(content) ||
+    /^\[[^\]]+\]\s+\d{1,2}:\d{2}:\d{2}\s*$/m.test(firstLines)
+  ) {
     return 'zoom';
   }
 
@@ -47,206 +105,498 @@ export function detectTranscriptFormat(content: string): TranscriptFormat {
     return 'teams';
   }
 
+  // Otter text/PDF exports: "Name  0:03" headers, signed "Transcribed by https://otter.ai"
+  if (/Transcribed by https?:\/\/otter\.ai/i.test(content)) {
+    return 'otter';
+  }
+
   return 'plain';
 }
 
 /**
- * Parse a transcript and extract clean text content.
+ * Parse a transcript into clean text and speaker-attributed utterances.
  */
 export function parseTranscript(rawContent: string): ParsedTranscript {
-  const format = detectTranscriptFormat(rawContent);
+  const normalized = rawContent.replace(/\r\n?/g, '\n');
+  const format = detectTranscriptFormat(normalized);
 
-  let content: string;
+  let raw: RawUtterance[];
   switch (format) {
     case 'vtt':
-      content = parseVTT(rawContent);
+      raw = parseCues(normalized, /^(\S+)\s*-->\s*(\S+)/);
       break;
     case 'srt':
-      content = parseSRT(rawContent);
+      raw = parseCues(normalized, /^(\d{2}:\d{2}:\d{2},\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2},\d{3})/);
       break;
     case 'google_meet':
-      content = parseGoogleMeet(rawContent);
+      raw = parseGoogleMeet(normalized);
       break;
     case 'zoom':
-      content = parseZoom(rawContent);
+      raw = parseZoom(normalized);
       break;
     case 'teams':
-      content = parseTeams(rawContent);
+    case 'otter':
+      raw = parseTeams(normalized, format);
+      break;
+    case 'zoom_json':
+    case 'otter_json':
+    case 'fireflies_json':
+      raw = parseJsonSegments(format, parseJson(normalized));
       break;
     default:
-      content = cleanPlainTranscript(rawContent);
+      raw = [];
   }
 
-  const attendees = extractAttendeesFromTranscript(content);
+  const utterances: Utterance[] = raw
+    .filter(u => u.text.length > 0)
+    .map((u, i) => ({ id: `u${i + 1}`, ...u }));
+
+  // Fall back to line cleaning when there is no structure (or it wasn't recognized)
+  const content = utterances.length > 0
+    ? utterances.map(u => (u.speaker ? `${u.speaker}: ${u.text}` : u.text)).join('\n')
+    : cleanPlainTranscript(normalized);
+
+  const speakers = [...new Set(utterances.map(u => u.speaker).filter((s): s is string => !!s))];
+  const attendees = speakers.length > 0 ? speakers : extractAttendeesFromTranscript(content);
+
+  // Plain text has no utterances, but its "Speaker 1: ..." lines still carry the labels
+  const labelled = speakers.length > 0
+    ? speakers
+    : content.split('\n').map(line => splitSpeaker(line.trim()).speaker).filter((s): s is string => !!s);
 
   return {
     content,
     format,
-    attendees
+    attendees: attendees.filter(name => !isGenericSpeakerLabel(name) && !isNonSpeakerLabel(name)),
+    speakerLabels: [...new Set(labelled.filter(isGenericSpeakerLabel))],
+    utterances,
+    ...(utterances[0]?.startTime && { startTime: utterances[0].startTime })
   };
 }
 
 /**
- * Parse WebVTT format.
+ * Check whether a speaker name is a diarization label ("Speaker 1") rather than a person's name.
  */
-function parseVTT(content: string): string {
-  const lines = content.split('\n');
-  const textLines: string[] = [];
+export function isGenericSpeakerLabel(name: string): boolean {
+  return GENERIC_SPEAKER_PATTERN.test(name.trim());
+}
 
-  let inCue = false;
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * Render a transcript for the LLM, tagging each utterance with its ID and start time
+ * (e.g. "[u12 00:14:05] Sara: ...") so tasks can point back at their source.
+ */
+export function formatTranscriptForPrompt(parsed: ParsedTranscript): string {
+  if (parsed.utterances.length === 0) {
+    return parsed.content;
+  }
 
-    // Skip header and empty lines
-    if (trimmed === 'WEBVTT' || trimmed === '' || trimmed.startsWith('NOTE')) {
-      inCue = false;
-      continue;
-    }
+  return parsed.utterances.map(u => {
+    const tag = u.startTime ? `${u.id} ${u.startTime}` : u.id;
+    return `[${tag}] ${u.speaker ? `${u.speaker}: ` : ''}${u.text}`;
+  }).join('\n');
+}
 
-    // Skip timestamp lines
-    if (/^\d{2}:\d{2}:\d{2}\.\d{3}\s*-->\s*\d{2}:\d{2}:\d{2}\.\d{3}/.test(trimmed)) {
-      inCue = true;
-      continue;
-    }
+/**
+ * Find the utterance a task's source quote came from.
+ * Trusts the model's utterance ID when that utterance contains the quote,
+ * otherwise searches all utterances for the quote text.
+ */
+export function findSourceUtterance(
+  utterances: Utterance[],
+  quote: string,
+  utteranceId?: string | null
+): Utterance | null {
+  const claimed = utteranceId ? utterances.find(u => u.id === utteranceId) : undefined;
+  const normalizedQuote = normalizeForMatch(quote);
+
+  if (!normalizedQuote) {
+    return claimed || null;
+  }
+  if (claimed && normalizeForMatch(claimed.text).includes(normalizedQuote)) {
+    return claimed;
+  }
 
-    // Skip cue identifiers (lines that are just numbers or IDs)
-    if (/^\d+$/.test(trimmed)) {
-      continue;
-    }
+  const containing = utterances.find(u => normalizeForMatch(u.text).includes(normalizedQuote));
+  if (containing) {
+    return containing;
+  }
 
-    // Add text content
-    if (inCue || (!isTimestampLine(trimmed) && trimmed.length > 0)) {
-      // Remove VTT tags like <v Speaker>
-      const cleanedLine = trimmed.replace(/<[^>]+>/g, '');
-      if (cleanedLine.length > 0) {
-        textLines.push(cleanedLine);
-      }
+  // Quotes are often lightly paraphrased - pick the utterance sharing the most words
+  const quoteWords = new Set(normalizedQuote.split(' '));
+  let best: Utterance | null = null;
+  let bestOverlap = 0;
+
+  for (const u of utterances) {
+    const words = new Set(normalizeForMatch(u.text).split(' '));
+    const overlap = [...quoteWords].filter(w => words.has(w)).length / quoteWords.size;
+    if (overlap > bestOverlap) {
+      best = u;
+      bestOverlap = overlap;
     }
   }
 
-  return textLines.join('\n');
+  return bestOverlap >= 0.6 ? best : claimed || null;
+}
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function isNonSpeakerLabel(name: string): boolean {
+  return NON_SPEAKER_LABELS.has(name.trim().toLowerCase());
+}
+
+function isSpeakerName(name: string): boolean {
+  return SPEAKER_NAME_PATTERN.test(name) && !isNonSpeakerLabel(name);
 }
 
 /**
- * Parse SRT format.
+ * Split "Name: text" into speaker and text, if the line has that shape.
+ * Label lines ("Task: ...", "Note: ...") stay text.
  */
-function parseSRT(content: string): string {
-  const lines = content.split('\n');
-  const textLines: string[] = [];
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const match = text.match(SPEAKER_LINE_PATTERN);
+  return match && !isNonSpeakerLabel(match[1])
+    ? { speaker: match[1], text: match[2].trim() }
+    : { speaker: null, text };
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * Normalize a cue timestamp ("00:01:02.500", "01:02.500", "00:01:02,500") to HH:MM:SS.
+ */
+function normalizeCueTime(time: string): string {
+  const withoutMs = time.replace(/[.,]\d+$/, '');
+  const parts = withoutMs.split(':').map(p => p.padStart(2, '0'));
+  while (parts.length < 3) {
+    parts.unshift('00');
+  }
+  return parts.join(':');
+}
 
-    // Skip sequence numbers
-    if (/^\d+$/.test(trimmed)) {
-      continue;
-    }
+/**
+ * Parse WebVTT or SRT cues. Speakers come from VTT voice tags (<v Name>) or a "Name:" prefix.
+ */
+function parseCues(content: string, timingPattern: RegExp): RawUtterance[] {
+  const utterances: RawUtterance[] = [];
 
-    // Skip timestamp lines
-    if (/^\d{2}:\d{2}:\d{2},\d{3}\s*-->\s*\d{2}:\d{2}:\d{2},\d{3}/.test(trimmed)) {
-      continue;
-    }
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => timingPattern.test(l));
 
-    // Skip empty lines
-    if (trimmed === '') {
+    // Header, NOTE and STYLE blocks have no timing line
+    if (timingIndex === -1) {
       continue;
     }
 
-    // Add text content
-    textLines.push(trimmed);
+    const [, start, end] = lines[timingIndex].match(timingPattern)!;
+    const rawText = lines.slice(timingIndex + 1).join(' ');
+
+    const voice = rawText.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    const plainText = rawText.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    const { speaker, text } = voice
+      ? { speaker: voice[1].trim(), text: plainText }
+      : splitSpeaker(plainText);
+
+    utterances.push({
+      speaker,
+      startTime: normalizeCueTime(start),
+      endTime: normalizeCueTime(end),
+      text
+    });
   }
 
-  return textLines.join('\n');
+  return utterances;
 }
 
 /**
- * Parse Google Meet transcript format.
+ * Collects utterances for formats where a header line ("Name (10:00 AM)", "[Name] 00:01:02")
+ * opens a turn and the following lines hold its text.
  */
-function parseGoogleMeet(content: string): string {
-  // Google Meet often has format: "HH:MM:SS Speaker Name"
-  // We want to convert to "Speaker Name: text"
-  const lines = content.split('\n');
-  const textLines: string[] = [];
+function createTurnCollector() {
+  const utterances: RawUtterance[] = [];
+  let current: { speaker: string | null; startTime?: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current && current.lines.length > 0) {
+      utterances.push({
+        speaker: current.speaker,
+        startTime: current.startTime,
+        text: current.lines.join(' ')
+      });
+    }
+    current = null;
+  };
 
-  for (const line of lines) {
+  return {
+    utterances,
+    get inTurn() {
+      return current !== null;
+    },
+    startTurn(speaker: string | null, startTime?: string) {
+      flush();
+      current = { speaker, startTime, lines: [] };
+    },
+    addLine(line: string) {
+      current?.lines.push(line);
+    },
+    addUtterance(utterance: RawUtterance) {
+      flush();
+      utterances.push(utterance);
+    },
+    finish() {
+      flush();
+      return utterances;
+    }
+  };
+}
+
+/**
+ * Parse Google Meet transcripts. Handles:
+ * - Gemini notes: "Speaker Name (10:00 AM)" followed by their text
+ * - "HH:MM:SS Speaker Name" followed by text, or "HH:MM:SS Speaker: text"
+ * - Standalone "HH:MM:SS" markers followed by "Speaker: text" paragraphs
+ */
+function parseGoogleMeet(content: string): RawUtterance[] {
+  const turns = createTurnCollector();
+  const headerPattern = new RegExp(`^(.+?)\\s*\\((${CLOCK_TIME})\\)\\s*$`, 'i');
+  let marker: string | undefined;
+
+  for (const line of content.split('\n')) {
     const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
 
-    // Match timestamp followed by speaker
-    const match = trimmed.match(/^(\d{1,2}:\d{2}(?::\d{2})?)\s+(.+)$/);
-    if (match) {
-      // Check if it's speaker: text or speaker with text on next line
-      const afterTimestamp = match[2];
-      if (afterTimestamp.includes(':')) {
-        textLines.push(afterTimestamp);
+    const header = trimmed.match(headerPattern);
+    if (header && isSpeakerName(header[1])) {
+      turns.startTurn(header[1], header[2]);
+      continue;
+    }
+
+    const timed = trimmed.match(/^(\d{1,2}:\d{2}(?::\d{2})?)\s+(.+)$/);
+    if (timed) {
+      if (isSpeakerName(timed[2])) {
+        turns.startTurn(timed[2], timed[1]);
       } else {
-        // Might be just the speaker name, or speaker with text
-        textLines.push(`${afterTimestamp}:`);
+        turns.addUtterance({ ...splitSpeaker(timed[2]), startTime: timed[1] });
       }
-    } else if (trimmed && !isTimestampLine(trimmed)) {
-      textLines.push(trimmed);
+      continue;
+    }
+
+    if (isTimestampLine(trimmed)) {
+      marker = trimmed;
+      continue;
+    }
+
+    if (turns.inTurn) {
+      turns.addLine(trimmed);
+      continue;
+    }
+
+    const spoken = splitSpeaker(trimmed);
+    // Title and date lines before the first speaker are metadata, not speech
+    if (spoken.speaker) {
+      turns.addUtterance({ ...spoken, startTime: marker });
     }
   }
 
-  return textLines.join('\n');
+  return turns.finish();
 }
 
 /**
- * Parse Zoom transcript format.
+ * Parse Zoom transcripts: "[Speaker] HH:MM:SS" headers, "HH:MM:SS Speaker: text" lines,
+ * and chat exports ("HH:MM:SS From X to Everyone: text").
  */
-function parseZoom(content: string): string {
-  const lines = content.split('\n');
-  const textLines: string[] = [];
+function parseZoom(content: string): RawUtterance[] {
+  const turns = createTurnCollector();
 
-  for (const line of lines) {
+  for (const line of content.split('\n')) {
     const trimmed = line.trim();
 
     // Skip Zoom metadata lines
-    if (trimmed.startsWith('ZOOM') || trimmed.startsWith('Recording')) {
+    if (!trimmed || trimmed.startsWith('ZOOM') || trimmed.startsWith('Recording') || isTimestampLine(trimmed)) {
       continue;
     }
 
     // Handle "From X to Everyone:" chat format
-    const chatMatch = trimmed.match(/^From\s+(.+?)\s+to\s+.+?:\s*(.*)$/);
+    const chatMatch = trimmed.match(/^(?:(\d{1,2}:\d{2}:\d{2})\s+)?From\s+(.+?)\s+to\s+.+?:\s*(.*)$/);
     if (chatMatch) {
-      textLines.push(`${chatMatch[1]}: ${chatMatch[2]}`);
+      turns.addUtterance({ speaker: chatMatch[2], startTime: chatMatch[1], text: chatMatch[3] });
       continue;
     }
 
-    // Regular transcript lines
-    if (trimmed && !isTimestampLine(trimmed)) {
-      textLines.push(trimmed);
+    const header = trimmed.match(/^\[([^\]]+)\]\s+(\d{1,2}:\d{2}:\d{2})$/);
+    if (header) {
+      turns.startTurn(header[1], header[2]);
+      continue;
+    }
+
+    const timed = trimmed.match(/^(\d{1,2}:\d{2}:\d{2})\s+(.+)$/);
+    if (timed) {
+      turns.addUtterance({ ...splitSpeaker(timed[2]), startTime: timed[1] });
+      continue;
+    }
+
+    if (turns.inTurn) {
+      turns.addLine(trimmed);
+    } else {
+      turns.addUtterance(splitSpeaker(trimmed));
     }
   }
 
-  return textLines.join('\n');
+  return turns.finish();
 }
 
 /**
- * Parse Microsoft Teams transcript format.
+ * Parse Microsoft Teams and Otter transcripts: "HH:MM AM Speaker" or "Speaker   0:03" headers
+ * followed by the speaker's text.
  */
-function parseTeams(content: string): string {
-  const lines = content.split('\n');
-  const textLines: string[] = [];
+function parseTeams(content: string, format: TranscriptFormat = 'teams'): RawUtterance[] {
+  const turns = createTurnCollector();
+  const trailingTime = new RegExp(`^(.+?)\\s+(${CLOCK_TIME})$`, 'i');
 
-  for (const line of lines) {
+  for (const line of content.split('\n')) {
     const trimmed = line.trim();
 
-    // Skip Teams metadata
-    if (trimmed.includes('Microsoft Teams') || trimmed.includes('Meeting recording')) {
+    // Skip Teams and Otter metadata
+    if (
+      !trimmed ||
+      trimmed.includes('Microsoft Teams') ||
+      trimmed.includes('Meeting recording') ||
+      /^Transcribed by\b/i.test(trimmed) ||
+      isTimestampLine(trimmed)
+    ) {
       continue;
     }
 
     // Match Teams format: "HH:MM AM/PM Speaker Name"
-    const match = trimmed.match(/^(\d{1,2}:\d{2})\s*(AM|PM)?\s*(.+)$/i);
-    if (match) {
-      const afterTimestamp = match[3];
-      textLines.push(afterTimestamp);
-    } else if (trimmed && !isTimestampLine(trimmed)) {
-      textLines.push(trimmed);
+    const leading = trimmed.match(/^(\d{1,2}:\d{2}(?:\s*[AP]M)?)\s+(.+)$/i);
+    if (leading) {
+      if (isSpeakerName(leading[2])) {
+        turns.startTurn(leading[2], leading[1]);
+      } else {
+        turns.addUtterance({ ...splitSpeaker(leading[2]), startTime: leading[1] });
+      }
+      continue;
+    }
+
+    const trailing = trimmed.match(trailingTime);
+    if (trailing && isSpeakerName(trailing[1])) {
+      turns.startTurn(trailing[1], trailing[2]);
+      continue;
+    }
+
+    if (turns.inTurn) {
+      turns.addLine(trimmed);
+    } else {
+      const spoken = splitSpeaker(trimmed);
+      // Otter puts the title, date and speaker list before the first header
+      if (spoken.speaker || format === 'teams') {
+        turns.addUtterance(spoken);
+      }
     }
   }
 
-  return textLines.join('\n');
+  return turns.finish();
+}
+
+function parseJson(content: string): unknown {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Recognize JSON exports by their segment arrays:
+ * - Zoom cloud recording transcript: { timeline: [{ ts, username | users, text }] }
+ * - Otter: { speakers: [{ id, name }], transcripts: [{ speaker_id, start_offset, transcript }] },
+ *   optionally wrapped in { speech: ... }
+ * - Fireflies: { sentences: [{ speaker_name, start_time, text }] }, a bare sentence array,
+ *   or the GraphQL response { data: { transcript: { sentences } } }
+ */
+function detectJsonFormat(json: any): TranscriptFormat | null {
+  if (Array.isArray(json?.timeline) && json.timeline.some((s: any) => typeof s?.text === 'string')) {
+    return 'zoom_json';
+  }
+  if (Array.isArray((json?.speech ?? json)?.transcripts)) {
+    return 'otter_json';
+  }
+  if (getFirefliesSentences(json)) {
+    return 'fireflies_json';
+  }
+  return null;
+}
+
+function getFirefliesSentences(json: any): any[] | null {
+  const sentences = Array.isArray(json) ? json : (json?.data?.transcript ?? json)?.sentences;
+  return Array.isArray(sentences) && sentences.some((s: any) => s && 'speaker_name' in s)
+    ? sentences
+    : null;
+}
+
+// Exports sometimes hold null or placeholder entries between segments
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Turn JSON export segments into utterances.
+ * Zoom timestamps are "HH:MM:SS.mmm" strings, Otter offsets are milliseconds
+ * and Fireflies times are seconds.
+ */
+function parseJsonSegments(format: TranscriptFormat, json: any): RawUtterance[] {
+  const text = (value: unknown) => (typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '');
+  const name = (value: unknown) => text(value) || null;
+
+  switch (format) {
+    case 'zoom_json':
+      return json.timeline.filter(isObject).map((segment: any) => ({
+        speaker: name(segment.username ?? segment.users?.[0]?.username),
+        startTime: segment.ts ? normalizeCueTime(String(segment.ts)) : undefined,
+        endTime: segment.end_ts ? normalizeCueTime(String(segment.end_ts)) : undefined,
+        text: text(segment.text)
+      }));
+
+    case 'otter_json': {
+      const speech = json.speech ?? json;
+      const speakers = new Map<unknown, string>(
+        (speech.speakers || []).filter(isObject).map((s: any) => [s.id, s.name ?? s.speaker_name])
+      );
+      return speech.transcripts.filter(isObject).map((segment: any) => ({
+        speaker: name(speakers.get(segment.speaker_id) ?? segment.speaker),
+        startTime: typeof segment.start_offset === 'number' ? formatOffset(segment.start_offset / 1000) : undefined,
+        endTime: typeof segment.end_offset === 'number' ? formatOffset(segment.end_offset / 1000) : undefined,
+        text: text(segment.transcript ?? segment.text)
+      }));
+    }
+
+    case 'fireflies_json':
+      return getFirefliesSentences(json)!.filter(isObject).map((sentence: any) => ({
+        speaker: name(sentence.speaker_name),
+        startTime: typeof sentence.start_time === 'number' ? formatOffset(sentence.start_time) : undefined,
+        endTime: typeof sentence.end_time === 'number' ? formatOffset(sentence.end_time) : undefined,
+        text: text(sentence.text ?? sentence.raw_text)
+      }));
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Format a recording offset in seconds as HH:MM:SS.
+ */
+function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
 }
 
 /**
@@ -0,0 +1,582 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDateExpression } from '../src/utils/dateResolver.js';
+import { loadBusinessCalendar } from '../src/utils/businessCalendar.js';
+
+// Thursday. Holidays from config/holidays/pk-2026.json: Mon Nov 9 (Iqbal Day), Fri Dec 25 (Quaid-e-Azam Day)
+const MEETING_DATE = '2026-10-15';
+const calendar = loadBusinessCalendar({
+  workingDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+  holidaysFile: 'holidays/pk-2026.json'
+});
+
+function resolve(expression: string, meetingDate = MEETING_DATE, options = { calendar }): string | null {
+  return resolveDateExpression(expression, meetingDate, { timeZone: 'UTC', ...options });
+}
+
+type Case = [expression: string, expected: string | null];
+
+const RELATIVE_DAYS: Case[] = [
+  ['today', '2026-10-15'],
+  ['now', '2026-10-15'],
+  ['tomorrow', '2026-10-16'],
+  ['tmrw', '2026-10-16'],
+  ['tmr', '2026-10-16'],
+  ['tomorow', '2026-10-16'],
+  ['day after tomorrow', '2026-10-19'],
+  ['the day after tomorrow', '2026-10-19'],
+  ['EOD', '2026-10-15'],
+  ['COB', '2026-10-15'],
+  ['end of day', '2026-10-15'],
+  ['end of the day', '2026-10-15'],
+  ['close of business', '2026-10-15'],
+  ['end of business day', '2026-10-15'],
+  ['tonight', '2026-10-15'],
+  ['this afternoon', '2026-10-15'],
+  ['5pm', '2026-10-15'],
+  ['by noon', '2026-10-15'],
+  ['COB tomorrow', '2026-10-16'],
+  ['tomorrow EOD', '2026-10-16'],
+  ['tomorrow morning', '2026-10-16'],
+  ['first thing tomorrow', '2026-10-16'],
+  ['by 3pm tomorrow', '2026-10-16'],
+  ['ASAP', '2026-10-16'],
+  ['as soon as possible', '2026-10-16'],
+  ['immediately', '2026-10-16'],
+  ['urgently', '2026-10-16'],
+  ['right away', '2026-10-16'],
+  ['right now', '2026-10-16'],
+  ['next day', '2026-10-16'],
+  ['next business day', '2026-10-16'],
+  ['next working day', '2026-10-16'],
+  ['the following day', '2026-10-16']
+];
+
+const WEEKDAYS: Case[] = [
+  ['monday', '2026-10-19'],
+  ['tuesday', '2026-10-20'],
+  ['wednesday', '2026-10-21'],
+  // Thursday on a Thursday is a week away; "this Thursday" is today
+  ['thursday', '2026-10-22'],
+  ['friday', '2026-10-16'],
+  ['saturday', '2026-10-19'],
+  ['sunday', '2026-10-19'],
+  ['Monday', '2026-10-19'],
+  ['FRIDAY', '2026-10-16'],
+  ['mon', '2026-10-19'],
+  ['tue', '2026-10-20'],
+  ['tues', '2026-10-20'],
+  ['wed', '2026-10-21'],
+  ['weds', '2026-10-21'],
+  ['thu', '2026-10-22'],
+  ['thur', '2026-10-22'],
+  ['thurs', '2026-10-22'],
+  ['fri', '2026-10-16'],
+  ['Friday, Oct 23', '2026-10-23'],
+  ['on friday', '2026-10-16'],
+  ['by friday', '2026-10-16'],
+  ['due friday', '2026-10-16'],
+  ['before friday', '2026-10-16'],
+  ['until wednesday', '2026-10-21'],
+  ['no later than friday', '2026-10-16'],
+  ['by monday morning', '2026-10-19'],
+  ['first thing monday', '2026-10-19'],
+  ['monday eod', '2026-10-19'],
+  ['friday 5pm', '2026-10-16'],
+  ['friday at 10:30', '2026-10-16'],
+  ['end of business friday', '2026-10-16'],
+  ['before the board meeting on thursday', '2026-10-22'],
+  ['when we meet again on tuesday', '2026-10-20']
+];
+
+// "next <day>" is the first one after the meeting, like a bare weekday
+const NEXT_AND_THIS: Case[] = [
+  ['next monday', '2026-10-19'],
+  ['next tuesday', '2026-10-20'],
+  ['next wednesday', '2026-10-21'],
+  ['next weds', '2026-10-21'],
+  ['next wed', '2026-10-21'],
+  ['next thursday', '2026-10-22'],
+  ['next thurs', '2026-10-22'],
+  ['next friday', '2026-10-16'],
+  ['next fri', '2026-10-16'],
+  ['coming monday', '2026-10-19'],
+  ['this coming friday', '2026-10-16'],
+  ['the following monday', '2026-10-19'],
+  ['upcoming wednesday', '2026-10-21'],
+  ['this monday', '2026-10-19'],
+  ['this wednesday', '2026-10-21'],
+  ['this thursday', '2026-10-15'],
+  ['this friday', '2026-10-16'],
+  ['friday this week', '2026-10-16'],
+  ['thursday this week', '2026-10-15'],
+  // Already past this week, so the next one
+  ['wednesday this week', '2026-10-21'],
+  ['monday next week', '2026-10-19'],
+  ['wednesday next week', '2026-10-21'],
+  ['thursday next week', '2026-10-22'],
+  ['friday next week', '2026-10-23'],
+  ['next week friday', '2026-10-23'],
+  ['next week monday', '2026-10-19'],
+  ['monday of next week', '2026-10-19'],
+  ['friday of next week', '2026-10-23'],
+  ['on friday next week', '2026-10-23'],
+  ['friday after next', '2026-10-23'],
+  ['monday after next', '2026-10-26'],
+  ['tuesday week after next', '2026-10-27']
+];
+
+const WEEKS: Case[] = [
+  ['this week', '2026-10-16'],
+  ['end of week', '2026-10-16'],
+  ['end of the week', '2026-10-16'],
+  ['EOW', '2026-10-16'],
+  ['by the end of this week', '2026-10-16'],
+  ['this weekend', '2026-10-16'],
+  ['the weekend', '2026-10-16'],
+  ['before the weekend', '2026-10-16'],
+  ['next weekend', '2026-10-23'],
+  // "next week" on its own is a week from the meeting
+  ['next week', '2026-10-22'],
+  ['the following week', '2026-10-22'],
+  ['end of next week', '2026-10-23'],
+  ['start of next week', '2026-10-19'],
+  ['beginning of next week', '2026-10-19'],
+  ['early next week', '2026-10-19'],
+  ['mid next week', '2026-10-21'],
+  ['middle of next week', '2026-10-21'],
+  ['late next week', '2026-10-23'],
+  ['next week end', '2026-10-23'],
+  // The middle of this week (Wednesday) has passed
+  ['midweek', '2026-10-15'],
+  ['week after next', '2026-10-29'],
+  ['the week after next', '2026-10-29'],
+  ['end of the week after next', '2026-10-30'],
+  ['week of the 19th', '2026-10-23'],
+  ['the week of november 9', '2026-11-13'],
+  ['week of oct 26', '2026-10-30'],
+  ['week of monday', '2026-10-23']
+];
+
+const OFFSETS: Case[] = [
+  ['in a day', '2026-10-16'],
+  ['in 1 day', '2026-10-16'],
+  ['in two days', '2026-10-19'],
+  ['in 2 days', '2026-10-19'],
+  ['in three days', '2026-10-19'],
+  ['in 3 days', '2026-10-19'],
+  ['in 4 days', '2026-10-19'],
+  ['in 5 days', '2026-10-20'],
+  ['in 10 days', '2026-10-26'],
+  ['in fourteen days', '2026-10-29'],
+  ['in twenty-one days', '2026-11-05'],
+  ['in thirty days', '2026-11-16'],
+  ['in a couple of days', '2026-10-19'],
+  ['in a couple days', '2026-10-19'],
+  ['in a few days', '2026-10-19'],
+  ['in several days', '2026-10-19'],
+  ['within 2 days', '2026-10-19'],
+  ['2 days later', '2026-10-19'],
+  ['two days from now', '2026-10-19'],
+  ['in a week', '2026-10-22'],
+  ['in 1 week', '2026-10-22'],
+  ['in one week', '2026-10-22'],
+  ['a week from today', '2026-10-22'],
+  ['in two weeks', '2026-10-29'],
+  ['in 2 weeks', '2026-10-29'],
+  ['in 2 wks', '2026-10-29'],
+  ['in three weeks', '2026-11-05'],
+  ['in 6 weeks', '2026-11-26'],
+  ['two weeks out', '2026-10-29'],
+  ['a fortnight', '2026-10-29'],
+  ['in a fortnight', '2026-10-29'],
+  ['in a month', '2026-11-16'],
+  ['in one month', '2026-11-16'],
+  ['in 2 months', '2026-12-15'],
+  ['in three months', '2027-01-15'],
+  ['in a year', '2027-10-15'],
+  ['1 month and 2 weeks', '2026-11-30'],
+  ['a week and 2 days', '2026-10-26'],
+  ['in 1 business day', '2026-10-16'],
+  ['in 2 business days', '2026-10-19'],
+  ['in 3 business days', '2026-10-20'],
+  ['in three working days', '2026-10-20'],
+  ['in 5 working days', '2026-10-22'],
+  ['in 10 business days', '2026-10-29'],
+  ['in 4 workdays', '2026-10-21'],
+  ['in 2 weekdays', '2026-10-19'],
+  ['a week from monday', '2026-10-26'],
+  ['a week from tomorrow', '2026-10-23'],
+  ['two weeks from friday', '2026-10-30'],
+  ['two days after friday', '2026-10-19'],
+  ['3 days before the 30th', '2026-10-27'],
+  ['a day before friday', '2026-10-15'],
+  ['2 business days before the end of the month', '2026-10-28'],
+  // Counted from Sunday Nov 1
+  ['2 business days after the 1st', '2026-11-03'],
+  ['a week before the end of november', '2026-11-23'],
+  ['three business days before the first monday of next month', '2026-10-28'],
+  ['the day after friday', '2026-10-19'],
+  ['day before the 20th', '2026-10-19']
+];
+
+// A month's end is its last working day: October 31 is a Saturday
+const MONTHS: Case[] = [
+  ['end of month', '2026-10-30'],
+  ['end of the month', '2026-10-30'],
+  ['EOM', '2026-10-30'],
+  ['by month end', '2026-10-30'],
+  ['this month', '2026-10-30'],
+  ['october', '2026-10-30'],
+  ['by the end of october', '2026-10-30'],
+  ['late october', '2026-10-30'],
+  // The middle of this month is the meeting day itself
+  ['mid month', '2026-10-15'],
+  ['mid-month', '2026-10-15'],
+  ['start of the month', '2026-10-15'],
+  ['next month', '2026-11-30'],
+  ['end of next month', '2026-11-30'],
+  ['start of next month', '2026-11-02'],
+  ['beginning of next month', '2026-11-02'],
+  ['early next month', '2026-11-02'],
+  ['mid next month', '2026-11-16'],
+  ['middle of next month', '2026-11-16'],
+  ['month after next', '2026-12-31'],
+  ['november', '2026-11-30'],
+  ['in november', '2026-11-30'],
+  ['next november', '2026-11-30'],
+  ['end of november', '2026-11-30'],
+  ['beginning of november', '2026-11-02'],
+  ['start of november', '2026-11-02'],
+  ['early november', '2026-11-02'],
+  ['mid november', '2026-11-16'],
+  ['mid-november', '2026-11-16'],
+  ['late november', '2026-11-30'],
+  ['december', '2026-12-31'],
+  ['early december', '2026-12-01'],
+  ['mid december', '2026-12-15'],
+  ['end of december', '2026-12-31'],
+  ['january', '2027-01-29'],
+  ['end of january', '2027-01-29'],
+  ['february', '2027-02-26'],
+  ['september', '2027-09-30'],
+  ['november 2027', '2027-11-30'],
+  ['end of november 2027', '2027-11-30']
+];
+
+// A quarter's or year's end is its last working day
+const QUARTERS_AND_YEARS: Case[] = [
+  ['Q4', '2026-12-31'],
+  ['q4', '2026-12-31'],
+  ['by Q4', '2026-12-31'],
+  ['end of Q4', '2026-12-31'],
+  ['start of Q4', '2026-10-15'],
+  ['mid Q4', '2026-11-16'],
+  ['the fourth quarter', '2026-12-31'],
+  ['end of quarter', '2026-12-31'],
+  ['end of the quarter', '2026-12-31'],
+  ['EOQ', '2026-12-31'],
+  ['this quarter', '2026-12-31'],
+  ['quarter end', '2026-12-31'],
+  ['next quarter', '2027-03-31'],
+  ['end of next quarter', '2027-03-31'],
+  ['start of next quarter', '2027-01-01'],
+  ['beginning of next quarter', '2027-01-01'],
+  ['Q1', '2027-03-31'],
+  ['q1', '2027-03-31'],
+  ['Q1 2027', '2027-03-31'],
+  ['end of Q1', '2027-03-31'],
+  ['start of Q1', '2027-01-01'],
+  ['the first quarter', '2027-03-31'],
+  ['Q2', '2027-06-30'],
+  ['Q3', '2027-09-30'],
+  ['Q3 2027', '2027-09-30'],
+  ['Q4 2027', '2027-12-31'],
+  ['end of year', '2026-12-31'],
+  ['end of the year', '2026-12-31'],
+  ['EOY', '2026-12-31'],
+  ['year end', '2026-12-31'],
+  ['this year', '2026-12-31'],
+  ['by the end of the year', '2026-12-31'],
+  ['next year', '2027-12-31'],
+  ['start of next year', '2027-01-01'],
+  ['mid next year', '2027-06-30'],
+  ['end of next year', '2027-12-31']
+];
+
+const EXPLICIT_DATES: Case[] = [
+  ['oct 23', '2026-10-23'],
+  ['october 23', '2026-10-23'],
+  ['October 23rd', '2026-10-23'],
+  ['oct 23rd', '2026-10-23'],
+  ['23 oct', '2026-10-23'],
+  ['23rd october', '2026-10-23'],
+  ['the 23rd of october', '2026-10-23'],
+  ['october 23 2026', '2026-10-23'],
+  ['October 23rd, 2026', '2026-10-23'],
+  ['oct 24', '2026-10-26'],
+  ['nov 15', '2026-11-16'],
+  ['15 nov', '2026-11-16'],
+  ['15th november', '2026-11-16'],
+  ['november 15th', '2026-11-16'],
+  ['the 15th of november', '2026-11-16'],
+  ['november 20', '2026-11-20'],
+  ['nov 9', '2026-11-10'],
+  ['december 3', '2026-12-03'],
+  ['the third of december', '2026-12-03'],
+  ['dec 24', '2026-12-24'],
+  ['december 25', '2026-12-28'],
+  ['dec 31', '2026-12-31'],
+  ['jan 5', '2027-01-05'],
+  ['january 5th', '2027-01-05'],
+  ['5 january 2027', '2027-01-05'],
+  ['november 15 2027', '2027-11-15'],
+  // A day already past this year means next year's
+  ['oct 3', '2027-10-04'],
+  ['october 3', '2027-10-04'],
+  ['3rd of october', '2027-10-04'],
+  ['oct 14', '2027-10-14'],
+  ['feb 29', '2028-02-29'],
+  ['oct 15', '2026-10-15'],
+  ['Friday, October 23', '2026-10-23']
+];
+
+// Month/day like parseFlexibleDate, or day/month when the first number can't be a month
+const NUMERIC_DATES: Case[] = [
+  ['12/25', '2026-12-28'],
+  ['12/25/2026', '2026-12-28'],
+  ['12/25/26', '2026-12-28'],
+  ['25/12', '2026-12-28'],
+  ['25/12/2026', '2026-12-28'],
+  ['11/20', '2026-11-20'],
+  ['11/20/26', '2026-11-20'],
+  ['by 11/20', '2026-11-20'],
+  ['due 10/23', '2026-10-23'],
+  ['10/23 EOD', '2026-10-23'],
+  ['friday 10/23', '2026-10-23'],
+  ['11/9', '2026-11-10'],
+  ['10/31', '2026-11-02'],
+  ['31/10', '2026-11-02'],
+  ['1/5', '2027-01-05'],
+  ['01/05/2027', '2027-01-05'],
+  ['10/14', '2027-10-14'],
+  ['10/14/2026', '2026-10-15'],
+  ['3/31/2027', '2027-03-31'],
+  ['12/31', '2026-12-31']
+];
+
+const DAYS_OF_MONTH: Case[] = [
+  ['the 15th', '2026-10-15'],
+  ['by the 15th', '2026-10-15'],
+  ['the 16th', '2026-10-16'],
+  ['the 20th', '2026-10-20'],
+  ['the 23rd', '2026-10-23'],
+  ['the 24th', '2026-10-26'],
+  ['the 30th', '2026-10-30'],
+  ['by the 31st', '2026-11-02'],
+  ['the twentieth', '2026-10-20'],
+  ['the twenty-first', '2026-10-21'],
+  ['the twenty first', '2026-10-21'],
+  ['the thirtieth', '2026-10-30'],
+  // Already past this month: next month's
+  ['the 1st', '2026-11-02'],
+  ['the first', '2026-11-02'],
+  ['the 2nd', '2026-11-02'],
+  ['the 3rd', '2026-11-03'],
+  ['the 9th', '2026-11-10'],
+  ['the 14th', '2026-11-16'],
+  ['the 3rd of next month', '2026-11-03'],
+  ['the 15th of next month', '2026-11-16'],
+  ['the 1st of december', '2026-12-01'],
+  ['twenty first of november', '2026-11-23'],
+  ['the 24th of december', '2026-12-24'],
+  ['the 25th of december', '2026-12-28']
+];
+
+const NTH_WEEKDAYS_AND_WEEKS: Case[] = [
+  ['first monday of november', '2026-11-02'],
+  ['the first monday of next month', '2026-11-02'],
+  ['second monday of november', '2026-11-10'],
+  ['second tuesday of november', '2026-11-10'],
+  ['2nd tuesday in november', '2026-11-10'],
+  ['third wednesday in december', '2026-12-16'],
+  ['fourth thursday of november', '2026-11-26'],
+  ['first friday of next month', '2026-11-06'],
+  ['last friday of the month', '2026-10-30'],
+  ['last friday of october', '2026-10-30'],
+  ['last monday of november', '2026-11-30'],
+  ['last friday of december', '2026-12-28'],
+  ['last thursday of december', '2026-12-31'],
+  ['first monday of january', '2027-01-04'],
+  ['first week of november', '2026-11-06'],
+  ['second week of november', '2026-11-13'],
+  ['last week of the month', '2026-10-30'],
+  ['last week of october', '2026-10-30'],
+  ['last week of november', '2026-11-27'],
+  ['second week of december', '2026-12-11'],
+  ['end of the first week of november', '2026-11-06'],
+  ['start of the second week of november', '2026-11-10'],
+  ['first week of next month', '2026-11-06']
+];
+
+// Dates before the meeting clamp to the meeting day; weekends and holidays roll forward
+const CLAMPING_AND_HOLIDAYS: Case[] = [
+  ['2026-10-15', '2026-10-15'],
+  ['2026-10-21', '2026-10-21'],
+  ['2026-10-24', '2026-10-26'],
+  ['2026-10-25', '2026-10-26'],
+  ['2026-10-01', '2026-10-15'],
+  ['2025-12-31', '2026-10-15'],
+  ['2026-11-09', '2026-11-10'],
+  ['2026-11-07', '2026-11-10'],
+  ['2026-12-25', '2026-12-28'],
+  ['2026-12-26', '2026-12-28'],
+  ['2027-01-01', '2027-01-01'],
+  ['yesterday', null],
+  ['in 22 days', '2026-11-06'],
+  ['in 25 days', '2026-11-10'],
+  ['in 3 business days after november 6', '2026-11-12'],
+  ['a week before dec 25', '2026-12-18'],
+  ['a day after dec 24', '2026-12-28']
+];
+
+// Without a date in it the task has no due date
+const NO_DATE: Case[] = [
+  ['', null],
+  ['sometime soon', null],
+  ['soon', null],
+  ['when possible', null],
+  ['when you get a chance', null],
+  ['eventually', null],
+  ['tbd', null],
+  ['TBD', null],
+  ['not mentioned', null],
+  ['n/a', null],
+  ['next sprint', null],
+  ['after the launch', null],
+  ['before the release', null],
+  ['ongoing', null],
+  ['the 32nd', null],
+  ['13/13', null],
+  ['0/5', null]
+];
+
+describe('resolveDateExpression on a Monday-Friday calendar with holidays', () => {
+  describe.each([
+    ['relative days', RELATIVE_DAYS],
+    ['weekdays', WEEKDAYS],
+    ['next and this', NEXT_AND_THIS],
+    ['weeks', WEEKS],
+    ['offsets', OFFSETS],
+    ['months', MONTHS],
+    ['quarters and years', QUARTERS_AND_YEARS],
+    ['explicit dates', EXPLICIT_DATES],
+    ['numeric dates', NUMERIC_DATES],
+    ['days of the month', DAYS_OF_MONTH],
+    ['nth weekdays and weeks', NTH_WEEKDAYS_AND_WEEKS],
+    ['clamping and holidays', CLAMPING_AND_HOLIDAYS],
+    ['no date', NO_DATE]
+  ] as Array<[string, Case[]]>)('%s', (_, cases) => {
+    it.each(cases)('"%s" → %s', (expression, expected) => {
+      expect(resolve(expression)).toBe(expected);
+    });
+  });
+});
+
+// Sunday-Thursday week; the meeting is on a Thursday, the last working day
+const SUNDAY_THURSDAY: Case[] = [
+  ['today', '2026-10-15'],
+  ['tomorrow', '2026-10-18'],
+  ['next working day', '2026-10-18'],
+  ['in 2 business days', '2026-10-19'],
+  ['end of week', '2026-10-15'],
+  ['this weekend', '2026-10-15'],
+  ['next week', '2026-10-22'],
+  ['end of next week', '2026-10-22'],
+  ['start of next week', '2026-10-18'],
+  ['friday', '2026-10-18'],
+  ['sunday', '2026-10-18'],
+  ['monday', '2026-10-19'],
+  ['friday next week', '2026-10-25'],
+  ['end of month', '2026-10-29'],
+  ['end of november', '2026-11-30'],
+  ['december', '2026-12-31'],
+  ['12/25', '2026-12-27'],
+  ['2026-10-24', '2026-10-25']
+];
+
+describe('resolveDateExpression on a Sunday-Thursday calendar', () => {
+  const sundayThursday = loadBusinessCalendar({
+    workingDays: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday'],
+    holidaysFile: 'holidays/pk-2026.json'
+  });
+
+  it.each(SUNDAY_THURSDAY)('"%s" → %s', (expression, expected) => {
+    expect(resolve(expression, MEETING_DATE, { calendar: sundayThursday })).toBe(expected);
+  });
+});
+
+// A Saturday meeting: the rest of its week is over
+const SATURDAY_MEETING: Case[] = [
+  ['today', '2026-10-19'],
+  ['tomorrow', '2026-10-19'],
+  ['monday', '2026-10-19'],
+  ['friday', '2026-10-23'],
+  ['this friday', '2026-10-23'],
+  ['next friday', '2026-10-23'],
+  ['end of week', '2026-10-23'],
+  ['next week', '2026-10-26'],
+  ['end of month', '2026-10-30'],
+  ['the 31st', '2026-11-02'],
+  ['in 3 business days', '2026-10-21']
+];
+
+describe('resolveDateExpression for a weekend meeting', () => {
+  it.each(SATURDAY_MEETING)('"%s" → %s', (expression, expected) => {
+    expect(resolve(expression, '2026-10-17')).toBe(expected);
+  });
+});
+
+// Dates at a period's end stay inside it unless nothing in it is left to work on
+describe('resolveDateExpression at period ends', () => {
+  it.each([
+    // Thursday Dec 24, before the Dec 25 holiday: this week's last working day is today
+    ['end of week', '2026-12-24', '2026-12-24'],
+    ['tomorrow', '2026-12-24', '2026-12-28'],
+    ['friday', '2026-12-24', '2026-12-28'],
+    ['end of month', '2026-12-24', '2026-12-31'],
+    ['end of year', '2026-12-31', '2026-12-31'],
+    ['end of month', '2026-10-31', '2026-11-02'],
+    ['end of february', '2027-02-01', '2027-02-26'],
+    ['end of month', '2027-02-10', '2027-02-26']
+  ])('"%s" in a meeting on %s → %s', (expression, meetingDate, expected) => {
+    expect(resolve(expression, meetingDate)).toBe(expected);
+  });
+});
+
+describe('resolveDateExpression with ISO dates', () => {
+  it('keeps an ISO working day as it is', () => {
+    expect(resolve('2026-10-21')).toBe('2026-10-21');
+  });
+
+  it('rolls an ISO weekend date forward to the next working day', () => {
+    expect(resolve('2026-10-24')).toBe('2026-10-26');
+  });
+
+  it('moves an ISO date before the meeting up to the meeting date', () => {
+    expect(resolve('2026-10-01')).toBe(MEETING_DATE);
+  });
+});
+
+describe('resolveDateExpression meeting date handling', () => {
+  it('resolves against the meeting day in the meeting time zone', () => {
+    // 23:30 UTC on Thursday is Friday in Karachi
+    expect(resolveDateExpression('tomorrow', '2026-10-15T23:30:00Z', { timeZone: 'Asia/Karachi', calendar }))
+      .toBe('2026-10-19');
+    expect(resolveDateExpression('tomorrow', '2026-10-15T23:30:00Z', { timeZone: 'UTC', calendar }))
+      .toBe('2026-10-16');
+  });
+
+  it('returns null for an invalid meeting date', () => {
+    expect(resolveDateExpression('tomorrow', 'not a date', { calendar })).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { extractDocxText } from '../src/utils/docxExtractor.js';
+import { getUnsupportedReason, isValidTranscript } from '../src/services/driveService.js';
+import type { DriveFileMetadata } from '../src/types/index.js';
+import { FIXTURES_DIR, runPipeline } from './helpers/pipeline.js';
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+function metadata(name: string, mimeType: string): DriveFileMetadata {
+  return { id: 'file-1', name, mimeType, createdTime: '', modifiedTime: '' };
+}
+
+describe('extractDocxText', () => {
+  const text = extractDocxText(readFileSync(join(FIXTURES_DIR, 'sample-vendor-review.docx')));
+  const lines = text.split('\n');
+
+  it('keeps the title and labelled header lines', () => {
+    expect(lines[0]).toBe('Vendor Onboarding Review');
+    expect(lines[1]).toBe('Date: 2026-02-10');
+  });
+
+  it('turns bold speaker runs and bold name paragraphs into "Name: text"', () => {
+    expect(lines).toContain(
+      'Noura Saleh: The contract template is still with legal. I\'ll chase them and send the signed version by Thursday.'
+    );
+    expect(lines).toContain(
+      'Omar: Action item for me: set up the vendor portal accounts before the kickoff on Monday.'
+    );
+  });
+
+  it('renders transcript table rows as "time Speaker: text" and decodes entities', () => {
+    expect(lines).toContain('10:14 Khalid: Noura, please share the pricing comparison with finance & procurement.');
+    expect(lines).toContain('10:15 Noura Saleh: Will do, I can have it ready tomorrow.');
+  });
+
+  it('rejects a zip that is not a Word document', () => {
+    // An empty zip: just the end-of-central-directory record
+    const emptyZip = Buffer.alloc(22);
+    emptyZip.writeUInt32LE(0x06054b50, 0);
+
+    expect(() => extractDocxText(emptyZip)).toThrow(/word\/document\.xml is missing/);
+  });
+
+  it('rejects bytes that are not a zip archive', () => {
+    expect(() => extractDocxText(Buffer.from('plain text, not a docx'))).toThrow(/Not a zip archive/);
+  });
+});
+
+describe('legacy .doc files', () => {
+  it('are reported unsupported by name or MIME type', () => {
+    expect(getUnsupportedReason(metadata('Standup.doc', 'application/octet-stream'))).toMatch(/\.doc files are not supported/);
+    expect(getUnsupportedReason(metadata('Standup', 'application/msword'))).toMatch(/\.doc files are not supported/);
+    expect(isValidTranscript(metadata('Standup.DOC', 'application/msword'))).toBe(false);
+  });
+
+  it('leave .docx files supported', () => {
+    const docx = metadata('Standup.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+
+    expect(getUnsupportedReason(docx)).toBeNull();
+    expect(isValidTranscript(docx)).toBe(true);
+  });
+
+  it('are skipped by processTranscript without storing tasks or sending a card', async () => {
+    const { env, pending, ownerCard } = await runPipeline('Standup.doc', { content: Buffer.from('legacy binary') });
+
+    expect(pending).toBeNull();
+    expect(ownerCard).toBeUndefined();
+    expect(env.chat.sent).toHaveLength(0);
+  });
+});
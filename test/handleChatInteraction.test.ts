@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from 'vitest';
+import { runPipeline, findWidgets, type PipelineRun } from './helpers/pipeline.js';
+import { clickButton } from './helpers/chat.js';
+import { resetAdapters } from '../src/adapters/index.js';
+import { appConfig, foldersConfig } from '../src/config/index.js';
+import { updateTaskDetails } from '../src/services/firestoreService.js';
+import type { PendingTasksData } from '../src/types/index.js';
+
+beforeAll(() => {
+  // Handler logging is noisy and not under test
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  resetAdapters();
+});
+
+describe('creating a task with watchers', () => {
+  it('lists the watchers in the description and says they were not added', async () => {
+    const { env, ownerCard } = await runPipeline('sample-launch-planning.txt');
+
+    // "Confirm the ad budget with finance" keeps Fahad informed
+    const reply = await clickButton(ownerCard, '✅ Create Task', { cardId: 'task_3' });
+
+    const [created] = [...env.clickup.state.tasks.values()];
+    expect(created.name).toBe('[Meeting] Confirm the ad budget with finance');
+    expect(created.description).toContain('👀 Keep informed: Fahad Malik');
+
+    const notice = findWidgets(reply.cardsV2, 'decoratedText').find(w => w.topLabel === '⚠️ Watchers not added');
+    expect(notice?.text).toContain('Fahad Malik');
+  });
+
+  it('flags the watchers of each task in a bulk creation', async () => {
+    const { ownerCard } = await runPipeline('sample-launch-planning.txt');
+
+    const reply = await clickButton(ownerCard, '✅ Create All Tasks');
+
+    const created = findWidgets(reply.cardsV2, 'decoratedText').filter(w => w.topLabel === '✅ Created');
+    expect(created).toHaveLength(4);
+    expect(created.filter(w => w.bottomLabel)).toEqual([
+      expect.objectContaining({ bottomLabel: '⚠️ Add watchers in ClickUp: Fahad Malik' })
+    ]);
+  });
+});
+
+describe('mapping speaker labels', () => {
+  const folder = foldersConfig.folders[0];
+
+  afterEach(() => {
+    delete folder.routingRules;
+  });
+
+  function getStored(env: PipelineRun['env']): { pendingId: string; pending: PendingTasksData } {
+    const [[pendingId, pending]] = Object.entries(env.firestore.dump()[appConfig.gcp.firestoreCollection]);
+    return { pendingId, pending: pending as PendingTasksData };
+  }
+
+  it('routes the tasks again with the mapped assignees', async () => {
+    folder.routingRules = [{ name: 'Sara', clickupListId: 'list-sara', match: { assignees: ['Sara Ali'] } }];
+    const { env, pending, ownerCard } = await runPipeline('sample-speaker-labels.txt');
+    env.clickup.addList('list-sara', 'Sara Tasks');
+    expect(pending!.tasks[0].clickupListId).toBe(foldersConfig.clickupListId);
+
+    // Speaker 2 sends the inventory list
+    const reply = await clickButton(ownerCard, '👥 Apply Speaker Names', { overrides: { speaker_1: ['1002'] } });
+
+    const [inventory] = getStored(env).pending.tasks;
+    expect(inventory).toMatchObject({ clickupListId: 'list-sara', clickupListName: 'Sara Tasks', routingRule: 'Sara' });
+
+    const lists = findWidgets(reply.cardsV2, 'decoratedText').filter(w => w.topLabel === 'ClickUp List');
+    expect(lists[0].text).toBe('Sara Tasks • rule: Sara');
+  });
+
+  it('stops flagging an assignee who turns out to be a speaker', async () => {
+    const { env, pending, ownerCard } = await runPipeline('sample-speaker-labels.txt');
+    const { pendingId } = getStored(env);
+
+    // The model named Sara, who isn't in the transcript until Speaker 2 is mapped to her
+    await updateTaskDetails(pendingId, 2, {
+      suggested_assignees: ['Sara Ali'],
+      sourceVerification: { ...pending!.tasks[2].sourceVerification!, unknownAssignees: ['Sara Ali'] }
+    });
+
+    const reply = await clickButton(ownerCard, '👥 Apply Speaker Names', { overrides: { speaker_1: ['1002'] } });
+
+    expect(getStored(env).pending.tasks[2].sourceVerification?.unknownAssignees).toEqual([]);
+    expect(findWidgets(reply.cardsV2, 'decoratedText').map(w => w.topLabel)).not.toContain('⚠️ Assignee Not in Meeting');
+  });
+});
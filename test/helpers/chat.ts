@@ -0,0 +1,121 @@
+/**
+ * Drives handleChatInteraction the way Google Chat does: button clicks on a card,
+ * with the card's form values submitted alongside. Mirrors `npm run dev:local`.
+ */
+import type { Request, Response } from 'express';
+import { handleChatInteraction } from '../../src/functions/handleChatInteraction.js';
+import { OWNER_EMAIL } from './pipeline.js';
+
+type FormInputs = Record<string, { stringInputs: { value: string[] } }>;
+
+export interface CardButton {
+  label: string;
+  parameters: Record<string, string>;
+}
+
+/**
+ * Click the button labelled `label` (on the card `cardId`, if given) and return the
+ * Chat message the handler replied with. Form inputs default to the card's own values;
+ * `overrides` replaces individual inputs.
+ */
+export async function clickButton(
+  message: any,
+  label: string,
+  options: { cardId?: string; overrides?: Record<string, string[]> } = {}
+): Promise<any> {
+  const cards = (message.cardsV2 || []).filter((c: any) => !options.cardId || c.cardId === options.cardId);
+  const button = findButtons(cards).find(b => b.label === label);
+  if (!button) {
+    throw new Error(`No "${label}" button${options.cardId ? ` on ${options.cardId}` : ''}`);
+  }
+
+  const formInputs = findFormInputs(message);
+  for (const [name, value] of Object.entries(options.overrides || {})) {
+    formInputs[name] = { stringInputs: { value } };
+  }
+
+  const response = await sendChatEvent({
+    chat: {
+      user: { name: 'users/owner', displayName: 'Owner', email: OWNER_EMAIL },
+      buttonClickedPayload: { space: { name: `spaces/dm-${OWNER_EMAIL}`, type: 'DM' }, message }
+    },
+    commonEventObject: { parameters: button.parameters, formInputs }
+  });
+
+  return response?.hostAppDataAction?.chatDataAction?.createMessageAction?.message ?? response;
+}
+
+/**
+ * Send a direct message ("tasks", "help") to the bot and return the Chat message it replied with.
+ */
+export async function sendMessage(text: string): Promise<any> {
+  const response = await sendChatEvent({
+    chat: {
+      user: { name: 'users/owner', displayName: 'Owner', email: OWNER_EMAIL },
+      messagePayload: { space: { name: `spaces/dm-${OWNER_EMAIL}`, type: 'DM' }, message: { text } }
+    }
+  });
+
+  return response?.hostAppDataAction?.chatDataAction?.createMessageAction?.message ?? response;
+}
+
+/**
+ * Collect the action buttons on a card, in display order.
+ */
+export function findButtons(node: any, buttons: CardButton[] = []): CardButton[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findButtons(child, buttons));
+  } else if (node && typeof node === 'object') {
+    const parameters = node.onClick?.action?.parameters;
+    if (typeof node.text === 'string' && Array.isArray(parameters)) {
+      buttons.push({
+        label: node.text,
+        parameters: Object.fromEntries(parameters.map((p: any) => [p.key, p.value]))
+      });
+    }
+    Object.values(node).forEach(child => findButtons(child, buttons));
+  }
+  return buttons;
+}
+
+function findFormInputs(node: any, inputs: FormInputs = {}): FormInputs {
+  if (Array.isArray(node)) {
+    node.forEach(child => findFormInputs(child, inputs));
+  } else if (node && typeof node === 'object') {
+    const { textInput, selectionInput, dateTimePicker } = node;
+
+    if (textInput?.name && textInput.value !== undefined) {
+      inputs[textInput.name] = { stringInputs: { value: [String(textInput.value)] } };
+    }
+    if (selectionInput?.name) {
+      const selected = (selectionInput.items || []).filter((i: any) => i.selected).map((i: any) => String(i.value));
+      if (selected.length > 0) {
+        inputs[selectionInput.name] = { stringInputs: { value: selected } };
+      }
+    }
+    if (dateTimePicker?.name && dateTimePicker.valueMsEpoch !== undefined) {
+      inputs[dateTimePicker.name] = { stringInputs: { value: [String(dateTimePicker.valueMsEpoch)] } };
+    }
+
+    Object.values(node).forEach(child => findFormInputs(child, inputs));
+  }
+  return inputs;
+}
+
+async function sendChatEvent(body: object): Promise<any> {
+  let responseBody: any;
+
+  const res = {
+    setHeader: () => res,
+    status: () => res,
+    json: (payload: any) => { responseBody = payload; return res; },
+    send: (payload: any) => { responseBody = payload; return res; }
+  };
+
+  await handleChatInteraction(
+    { body, headers: {}, query: {} } as unknown as Request,
+    res as unknown as Response
+  );
+
+  return responseBody;
+}
@@ -0,0 +1,98 @@
+/**
+ * Runs processTranscript end to end against the in-memory adapters, with LLM
+ * extraction replayed from test/fixtures/llm. Mirrors what `npm run dev:local` does.
+ */
+import { readFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { setAdapters } from '../../src/adapters/index.js';
+import { createMemoryEnvironment, type MemoryEnvironment } from '../../src/adapters/memory/index.js';
+import { processTranscript } from '../../src/functions/processTranscript.js';
+import { appConfig, foldersConfig } from '../../src/config/index.js';
+import type { ClickUpMember, PendingTasksData } from '../../src/types/index.js';
+
+export const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+// Same members as the local harness; names match the sample transcripts' speakers
+export const TEST_MEMBERS: ClickUpMember[] = [
+  { id: 1001, username: 'Ahmed Khan', email: 'ahmed@example.com' },
+  { id: 1002, username: 'Sara Ali', email: 'sara@example.com' },
+  { id: 1003, username: 'Fahad Malik', email: 'fahad@example.com' },
+  { id: 1004, username: 'Local Developer', email: 'dev@example.com' }
+];
+
+export const OWNER_EMAIL = 'dev@example.com';
+
+export interface PipelineRun {
+  env: MemoryEnvironment;
+  /** The stored pending-tasks document, if one was written */
+  pending: PendingTasksData | null;
+  /** The approval card DMed to the file owner, if one was sent */
+  ownerCard: any;
+}
+
+/**
+ * Process a sample transcript from test/fixtures in a fresh in-memory environment.
+ * Pass `content` to drop a file that isn't in test/fixtures under that name.
+ */
+export async function runPipeline(
+  sampleFile: string,
+  options: { folderId?: string; ownerEmail?: string; content?: Buffer | string } = {}
+): Promise<PipelineRun> {
+  process.env.LLM_MODE = 'replay';
+  process.env.CHAT_FUNCTION_URL ??= 'http://localhost:8080/handleChatInteraction';
+
+  const folderId = options.folderId ?? foldersConfig.folders[0].id;
+  const ownerEmail = options.ownerEmail ?? OWNER_EMAIL;
+
+  const env = createMemoryEnvironment({ workspaceId: appConfig.clickup.workspaceId, members: TEST_MEMBERS });
+  setAdapters(env.adapters);
+  env.clickup.addList(foldersConfig.clickupListId, 'Meeting Tasks');
+
+  const file = env.drive.addFile({
+    folderId,
+    name: basename(sampleFile),
+    content: options.content ?? readFileSync(join(FIXTURES_DIR, sampleFile)),
+    ownerEmail
+  });
+
+  await processTranscript(toPubSubCloudEvent({ fileId: file.id, folderId }));
+
+  const stored = Object.values(env.firestore.dump()[appConfig.gcp.firestoreCollection] || {});
+  const ownerCard = env.chat.sent.find(s => s.parent === `spaces/dm-${ownerEmail}`)?.message;
+
+  return {
+    env,
+    pending: (stored[0] as PendingTasksData | undefined) ?? null,
+    ownerCard
+  };
+}
+
+/**
+ * Collect every widget of a given type ("decoratedText", "textInput", ...) on a card.
+ */
+export function findWidgets(node: any, type: string, found: any[] = []): any[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findWidgets(child, type, found));
+  } else if (node && typeof node === 'object') {
+    if (node[type]) {
+      found.push(node[type]);
+    }
+    Object.values(node).forEach(child => findWidgets(child, type, found));
+  }
+  return found;
+}
+
+function toPubSubCloudEvent(data: object): CloudEvent<{ message: { data: string } }> {
+  return {
+    specversion: '1.0',
+    id: randomUUID(),
+    source: `//pubsub.googleapis.com/projects/local/topics/${appConfig.gcp.pubsubTopic}`,
+    type: 'google.cloud.pubsub.topic.v1.messagePublished',
+    data: {
+      message: { data: Buffer.from(JSON.stringify(data)).toString('base64') }
+    }
+  } as unknown as CloudEvent<{ message: { data: string } }>;
+}
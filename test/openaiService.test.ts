@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from 'vitest';
+import { extractTasks } from '../src/services/openaiService.js';
+import { SUMMARY_SYSTEM_PROMPT } from '../src/services/llm/prompts.js';
+import { appConfig } from '../src/config/index.js';
+import type { TranscriptChunkContext } from '../src/services/llm/index.js';
+import type { MeetingAnalysis, MeetingInfo } from '../src/types/index.js';
+
+// Records what each part was told about the parts before it
+const calls = vi.hoisted(() => ({ extracted: [] as TranscriptChunkContext[], summarized: [] as number[] }));
+
+vi.mock('../src/services/llm/index.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/llm/index.js')>(),
+  getLLMProvider: () => ({
+    name: 'fake',
+    async extract(_transcript: string, _meetingInfo: MeetingInfo, options: { chunk?: TranscriptChunkContext }) {
+      calls.extracted.push(options.chunk!);
+      return emptyAnalysis(`Extracted part ${options.chunk!.part}.`);
+    },
+    async complete(request: { systemPrompt: string; userPrompt: string }) {
+      if (request.systemPrompt !== SUMMARY_SYSTEM_PROMPT) {
+        return emptyAnalysis('Merged.');
+      }
+      const part = Number(request.userPrompt.match(/^Summarize part (\d+)/)![1]);
+      calls.summarized.push(part);
+      return emptyAnalysis(`Summary of part ${part}.`);
+    }
+  })
+}));
+
+function emptyAnalysis(summary: string): MeetingAnalysis {
+  return { tasks: [], meeting_summary: summary, decisions: [], risks: [], blockers: [], open_questions: [], parking_lot: [] };
+}
+
+const MEETING: MeetingInfo = {
+  title: 'Quarterly Planning',
+  date: '2026-10-15',
+  timeZone: 'Asia/Karachi',
+  attendees: ['Sara Ali', 'Ahmed Khan'],
+  folderId: 'unknown-folder',
+  folderName: 'Unknown Folder'
+};
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete appConfig.llm.models;
+  calls.extracted.length = 0;
+  calls.summarized.length = 0;
+});
+
+describe('extractTasks on a long transcript', () => {
+  it('tells every part the summaries of all the parts before it', async () => {
+    // Shrink both models' windows so a short transcript splits into several parts
+    const spec = { contextWindow: 9000, maxOutputTokens: 2000 };
+    appConfig.llm.models = { [appConfig.llm.model]: spec, [appConfig.llm.fallbackModel]: spec };
+    const transcript = Array.from({ length: 400 }, (_, i) =>
+      `${i % 2 === 0 ? 'Sara Ali' : 'Ahmed Khan'}: Item ${i} on the roadmap needs an owner, a budget and a review date before the quarter starts.`
+    ).join('\n');
+
+    // Skip the pauses between batches
+    vi.useFakeTimers();
+    const extraction = extractTasks(transcript, MEETING);
+    await vi.runAllTimersAsync();
+    const analysis = await extraction;
+
+    const total = calls.extracted.length;
+    expect(total).toBeGreaterThanOrEqual(4);
+    expect(calls.summarized.sort((a, b) => a - b)).toEqual(Array.from({ length: total - 1 }, (_, i) => i + 1));
+
+    const byPart = [...calls.extracted].sort((a, b) => a.part - b.part);
+    expect(byPart[0].earlierSummary).toBeNull();
+    byPart.slice(1).forEach(chunk => {
+      const earlier = Array.from({ length: chunk.part - 1 }, (_, i) => `Summary of part ${i + 1}.`);
+      expect(chunk.earlierSummary).toBe(earlier.join(' '));
+    });
+    expect(analysis.meeting_summary).toBe('Merged.');
+  });
+});
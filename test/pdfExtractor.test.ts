@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { extractPdfText } from '../src/utils/pdfExtractor.js';
+
+/**
+ * Build a PDF with one page per entry, each line of text below the last, and an
+ * optional footer line at the bottom of each page.
+ */
+function buildPdf(pages: Array<{ lines: string[]; footer?: string }>): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pages.forEach(({ lines, footer }, i) => {
+    const stream = [
+      'BT /F1 11 Tf 14 TL 72 740 Td',
+      ...lines.map(line => `(${line}) Tj T*`),
+      'ET',
+      ...(footer ? [`BT /F1 9 Tf 300 40 Td (${footer}) Tj ET`] : [])
+    ].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('extractPdfText', () => {
+  it('drops page numbers printed at the bottom of every page', async () => {
+    const pdf = buildPdf([
+      { lines: ['Sara Ali  0:03', 'How many vendors replied?'], footer: 'Page 1 of 2' },
+      { lines: ['Ahmed Khan  0:10', 'Three so far.'], footer: 'Page 2 of 2' }
+    ]);
+
+    expect(await extractPdfText(pdf)).toBe('Sara Ali 0:03\nHow many vendors replied?\nAhmed Khan 0:10\nThree so far.');
+  });
+
+  it('keeps a spoken answer that is only a number', async () => {
+    const pdf = buildPdf([
+      { lines: ['Sara Ali  0:03', 'How many vendors replied?', 'Ahmed Khan  0:10', '5'] },
+      { lines: ['Sara Ali  0:15', 'And when is the review?', 'Ahmed Khan  0:20', '2/5'] }
+    ]);
+
+    const text = await extractPdfText(pdf);
+
+    expect(text.split('\n')).toContain('5');
+    expect(text.split('\n')).toContain('2/5');
+  });
+
+  it('keeps number-only lines that do not count the pages', async () => {
+    const pdf = buildPdf([
+      { lines: ['Ahmed Khan  0:10', 'Which year are we planning for?'], footer: '2026' },
+      { lines: ['Sara Ali  0:15', 'Next year.'], footer: '2027' }
+    ]);
+
+    const text = await extractPdfText(pdf);
+
+    expect(text.split('\n')).toEqual(expect.arrayContaining(['2026', '2027']));
+  });
+});
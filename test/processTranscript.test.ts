@@ -0,0 +1,205 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from 'vitest';
+import { readdirSync } from 'fs';
+import { runPipeline, findWidgets, FIXTURES_DIR } from './helpers/pipeline.js';
+import { findButtons, sendMessage } from './helpers/chat.js';
+import { resetAdapters } from '../src/adapters/index.js';
+import { foldersConfig } from '../src/config/index.js';
+
+// A meeting that raises risks and questions but assigns no work
+const PRICING_RETRO = [
+  'Meeting: Pricing Retro',
+  'Date: 2026-10-12',
+  'Participants: Sara, Ahmed',
+  '',
+  "Sara: Quick retro on the price change. Refunds went up the week after, but it's too early to say why.",
+  '',
+  'Ahmed: If refunds keep climbing through November we could lose the margin we gained.',
+  '',
+  'Sara: Do we know whether the annual plans were affected, or only monthly?',
+  '',
+  "Ahmed: No idea yet. Let's leave the bundle pricing idea for the planning meeting.",
+  '',
+  "Sara: Agreed. That's all for today."
+].join('\n');
+
+beforeAll(() => {
+  // Pipeline logging is noisy and not under test
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  resetAdapters();
+});
+
+describe('processTranscript with replayed extraction', () => {
+  it.each(
+    readdirSync(FIXTURES_DIR).filter(f => f.startsWith('sample-'))
+  )('replays %s and sends an approval card', async sample => {
+    const { pending, ownerCard } = await runPipeline(sample);
+
+    expect(pending!.tasks.length).toBeGreaterThan(0);
+    expect(pending!.status).toBe('pending');
+    expect(ownerCard.cardsV2[0].cardId).toBe('header');
+  });
+
+  it('skips JSON that is not a known transcript export', async () => {
+    const { env, pending } = await runPipeline('export.json', {
+      content: JSON.stringify({ meeting: 'Weekly sync', items: [{ note: 'Ship the release' }] })
+    });
+
+    expect(pending).toBeNull();
+    expect(env.chat.sent).toHaveLength(0);
+  });
+
+  it('drops implicit tasks below the confidence threshold and keeps explicit ones', async () => {
+    const { pending } = await runPipeline('sample-transcript.txt');
+
+    const titles = pending!.tasks.map(t => t.title);
+    expect(titles).toHaveLength(5);
+    // 0.4-confidence implicit task is filtered, 0.85 implicit and explicit tasks are kept
+    expect(titles.some(t => t.includes('team lunch photos'))).toBe(false);
+    expect(titles.some(t => t.includes('Review API documentation'))).toBe(true);
+    expect(pending!.tasks.every(t => t.extraction_type === 'explicit' || t.confidence >= 0.7)).toBe(true);
+  });
+
+  it("prefixes task titles with the folder's taskPrefix", async () => {
+    const { pending } = await runPipeline('sample-transcript.txt');
+
+    expect(pending!.tasks.every(t => t.title.startsWith('[Meeting] '))).toBe(true);
+  });
+
+  it('uses the prefix of the folder the file was dropped in', async () => {
+    const folder = foldersConfig.folders[1];
+    const { pending } = await runPipeline('sample-transcript.txt', { folderId: folder.id });
+
+    expect(pending!.tasks.every(t => t.title.startsWith(`${folder.taskPrefix} `))).toBe(true);
+    expect(pending!.folderConfig.name).toBe(folder.name);
+  });
+
+  it('resolves assignees against the workspace members', async () => {
+    const { pending } = await runPipeline('sample-transcript.txt');
+
+    const schemaTask = pending!.tasks.find(t => t.title.includes('database schema'))!;
+    expect(schemaTask.assigneeResolutions).toEqual([{ name: 'Fahad', memberId: 1003, candidateIds: [] }]);
+  });
+
+  it('resolves spoken due dates against the meeting date on the business calendar', async () => {
+    // Meeting on Tuesday 2026-02-03; February 28th is a Saturday and the 5th a holiday
+    const { pending } = await runPipeline('sample-transcript.txt');
+
+    expect(pending!.tasks.map(t => t.suggested_due)).toEqual([
+      '2026-02-06',  // "friday"
+      '2026-02-04',  // "wednesday"
+      '2026-02-27',  // "end of month", the month's last working day
+      '2026-02-04',  // "tomorrow"
+      '2026-02-10'   // "next tuesday"
+    ]);
+  });
+
+  it('resolves a day of the month from the meeting date', async () => {
+    const { pending } = await runPipeline('sample-launch-planning.txt');
+
+    expect(pending!.tasks.find(t => t.title.endsWith('Prepare the launch email'))?.suggested_due).toBe('2026-10-27');
+  });
+
+  describe('confidential folders', () => {
+    const folder = foldersConfig.folders[0];
+
+    afterEach(() => {
+      delete folder.confidential;
+    });
+
+    it('redacts source quotes and descriptions in storage and on the card', async () => {
+      folder.confidential = true;
+      const { pending, ownerCard } = await runPipeline('sample-transcript.txt');
+
+      expect(pending!.tasks.every(t => t.source_quote === '[Confidential - see transcript]')).toBe(true);
+      expect(pending!.tasks.every(t => t.description === t.title)).toBe(true);
+
+      const labels = findWidgets(ownerCard, 'decoratedText').map(w => w.topLabel);
+      expect(labels).not.toContain('Source Quote');
+    });
+
+    it('redacts the quotes of risks, blockers and open questions', async () => {
+      folder.confidential = true;
+      const { pending } = await runPipeline('sample-ops-standup.txt');
+
+      const items = [...pending!.analysis.blockers!, ...pending!.analysis.open_questions!];
+      expect(items.length).toBeGreaterThan(0);
+      expect(items.every(item => item.source_quote === '[Confidential - see transcript]')).toBe(true);
+    });
+  });
+
+  describe('approval card', () => {
+    it('has a header card with the summary, a card per task and bulk actions', async () => {
+      const { pending, ownerCard } = await runPipeline('sample-transcript.txt');
+
+      const cardIds = ownerCard.cardsV2.map((c: any) => c.cardId);
+      expect(cardIds).toEqual(['header', 'task_0', 'task_1', 'task_2', 'task_3', 'task_4', 'footer']);
+
+      const header = ownerCard.cardsV2[0].card;
+      const headerTexts = findWidgets(header, 'decoratedText');
+      expect(headerTexts.find(w => w.topLabel === 'Meeting Summary')?.text).toBe(pending!.analysis.meeting_summary);
+      expect(headerTexts.find(w => w.topLabel === 'Tasks Found')?.text).toBe('5 tasks extracted from this meeting');
+    });
+
+    it('prefills each task card with the extracted title, assignee and priority', async () => {
+      const { pending, ownerCard } = await runPipeline('sample-transcript.txt');
+
+      const index = pending!.tasks.findIndex(t => t.title.includes('database schema'));
+      const card = ownerCard.cardsV2.find((c: any) => c.cardId === `task_${index}`).card;
+
+      const title = findWidgets(card, 'textInput').find(w => w.name === `title_${index}`);
+      expect(title.value).toBe(pending!.tasks[index].title);
+
+      const selections = findWidgets(card, 'selectionInput');
+      const assignees = selections.find(w => w.name === `assignee_${index}`);
+      expect(assignees.items.filter((i: any) => i.selected).map((i: any) => i.value)).toEqual(['1003']);
+      const priority = selections.find(w => w.name === `priority_${index}`);
+      expect(priority.items.find((i: any) => i.selected).value).toBe(pending!.tasks[index].priority);
+
+      const quote = findWidgets(card, 'decoratedText').find(w => w.topLabel?.startsWith('Source Quote'));
+      expect(quote.text).toBe(pending!.tasks[index].source_quote);
+    });
+
+    it('sends the header card for a meeting that raised open items but no tasks', async () => {
+
+      const { pending, ownerCard } = await runPipeline('pricing-retro.txt', { content: PRICING_RETRO });
+
+      expect(pending!.tasks).toEqual([]);
+      expect(pending!.analysis.open_questions).toHaveLength(1);
+      expect(ownerCard.cardsV2.map((c: any) => c.cardId)).toEqual(['header']);
+      const sections = ownerCard.cardsV2[0].card.sections.map((s: any) => s.header).filter(Boolean);
+      expect(sections).toEqual(['⚠️ Risks', '❓ Open Questions', '🅿️ Parking Lot']);
+    });
+
+    it('lists a meeting with open items and no tasks under the tasks command', async () => {
+      await runPipeline('pricing-retro.txt', { content: PRICING_RETRO });
+
+      const reply = await sendMessage('tasks');
+
+      expect(reply.cardsV2.map((c: any) => c.cardId)).toEqual(['header']);
+      const sections = reply.cardsV2[0].card.sections.map((s: any) => s.header).filter(Boolean);
+      expect(sections).toEqual(['⚠️ Risks', '❓ Open Questions', '🅿️ Parking Lot']);
+      expect(findButtons(reply.cardsV2).map(b => `${b.label}:${b.parameters.itemKind}`)).toEqual([
+        '➕ Create Task:open_questions'
+      ]);
+    });
+
+    it('shows risks, blockers, open questions and parking-lot items as header sections', async () => {
+      const { ownerCard } = await runPipeline('sample-ops-standup.txt');
+
+      const sections = ownerCard.cardsV2[0].card.sections.map((s: any) => s.header).filter(Boolean);
+      expect(sections).toEqual(['⚠️ Risks', '⛔ Blockers', '❓ Open Questions', '🅿️ Parking Lot']);
+
+      const buttons = findWidgets(ownerCard.cardsV2[0], 'button')
+        .filter(b => b.onClick?.action)
+        .map(b => Object.fromEntries(b.onClick.action.parameters.map((p: any) => [p.key, p.value])));
+      expect(buttons.map(b => `${b.actionName}:${b.itemKind}`)).toEqual([
+        'createTaskFromItem:blockers',
+        'createTaskFromItem:open_questions'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect, vi } from 'vitest';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { MeetingAnalysisSchema } from '../src/schemas/taskSchema.js';
+
+describe('MeetingAnalysisSchema as an OpenAI response format', () => {
+  it('converts without warnings, with every field required', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const schema: any = zodResponseFormat(MeetingAnalysisSchema, 'meeting_analysis').json_schema.schema;
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(schema.required).toEqual(Object.keys(schema.properties));
+
+    const task = schema.properties.tasks.items;
+    expect(task.required).toEqual(Object.keys(task.properties));
+    warn.mockRestore();
+  });
+});
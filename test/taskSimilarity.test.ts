@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { titleSimilarity, normalizeTaskTitle } from '../src/utils/taskSimilarity.js';
+import { DUPLICATE_SIMILARITY_THRESHOLD } from '../src/utils/duplicateDetector.js';
+
+describe('normalizeTaskTitle', () => {
+  it('strips the folder prefix and punctuation', () => {
+    expect(normalizeTaskTitle('[Meeting] Send the Q3 deck!')).toBe('send the q3 deck');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('scores identical titles 1, ignoring prefix and case', () => {
+    expect(titleSimilarity('[Meeting] Send weekly report', 'send weekly report')).toBe(1);
+  });
+
+  it('scores a longer wording of the same task as a duplicate', () => {
+    expect(titleSimilarity('Send weekly report', 'Send the weekly report to Khalid'))
+      .toBeGreaterThanOrEqual(DUPLICATE_SIMILARITY_THRESHOLD);
+  });
+
+  it.each([
+    ['Follow up with the client', 'Follow up with the vendor'],
+    ['Update the pricing page', 'Update the careers page'],
+    ['Call the supplier about labels', 'Call the bank about the loan']
+  ])('keeps "%s" and "%s" apart', (a, b) => {
+    expect(titleSimilarity(a, b)).toBeLessThan(DUPLICATE_SIMILARITY_THRESHOLD);
+  });
+
+  it('ignores titles made only of stopwords', () => {
+    expect(titleSimilarity('Follow up', 'Set up')).toBeLessThan(DUPLICATE_SIMILARITY_THRESHOLD);
+    expect(titleSimilarity('the', 'the one')).toBe(0);
+  });
+
+  it('scores unrelated titles 0', () => {
+    expect(titleSimilarity('Book the photographer', 'Renew the domain')).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import {
+  findTeamMember,
+  isWeakMatch,
+  rankTeamMembers,
+  type TeamDirectoryEntry
+} from '../src/utils/teamDirectory.js';
+
+beforeAll(() => {
+  // Unmatched names are logged
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+function person(id: number, name: string, aliases: string[] = []): TeamDirectoryEntry {
+  const username = name.toLowerCase().replace(/ /g, '.');
+  return {
+    member: { id, username: name, email: `${username}@example.com` },
+    name,
+    email: `${username}@example.com`,
+    aliases
+  };
+}
+
+describe('findTeamMember', () => {
+  it.each([
+    ['Amir', 'Omar Farooq'],
+    ['Ammar', 'Omar'],
+    ['Ali', 'Ola'],
+    ['Hana', 'Hina Shah']
+  ])('offers %s -> %s as a candidate without assigning it', (name, member) => {
+    const directory = [person(1, member)];
+
+    const matches = rankTeamMembers(name, directory);
+
+    expect(matches.map(m => m.entry.name)).toEqual([member]);
+    expect(isWeakMatch(matches)).toBe(true);
+    expect(findTeamMember(name, directory)).toBeNull();
+  });
+
+  it.each([
+    ['Usman', 'Osman Tariq'],
+    ['Ahmmad', 'Ahmad Raza'],
+    ['Khaled', 'Khalid Mehmood'],
+    ['Hasib Butt', 'Haseeb Butt'],
+    ['HB', 'Haseeb Butt']
+  ])('assigns the spelling variant %s to %s', (name, member) => {
+    expect(findTeamMember(name, [person(1, member)])?.entry.name).toBe(member);
+  });
+
+  it('assigns a variant listed as an alias', () => {
+    expect(findTeamMember('Hasib', [person(1, 'Haseeb Butt', ['Hasib'])])?.score).toBe(1);
+  });
+
+  it('prefers the exact name over one that only sounds alike', () => {
+    const directory = [person(1, 'Omar Farooq'), person(2, 'Amir Khan')];
+
+    expect(findTeamMember('Amir', directory)?.entry.name).toBe('Amir Khan');
+  });
+});
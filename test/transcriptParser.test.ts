@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import { parseTranscript } from '../src/utils/transcriptParser.js';
+import { FIXTURES_DIR } from './helpers/pipeline.js';
+
+describe('parseTranscript speaker labels', () => {
+  it('keeps header labels out of the attendees of a plain transcript', () => {
+    const parsed = parseTranscript(readFileSync(join(FIXTURES_DIR, 'sample-transcript.txt'), 'utf-8'));
+
+    expect(parsed.attendees).toEqual(expect.arrayContaining(['Khalid', 'Ahmed', 'Sara', 'Fahad']));
+    expect(parsed.attendees).not.toContain('Meeting');
+    expect(parsed.attendees).not.toContain('Date');
+    expect(parsed.attendees).not.toContain('Participants');
+  });
+
+  it('treats "Task:", "Note:" and "Action Item:" lines in a VTT as text, not speakers', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:04.000',
+      'Sara: We need the vendor contract signed.',
+      '',
+      '00:00:05.000 --> 00:00:08.000',
+      'Task: Sign the vendor contract',
+      '',
+      '00:00:09.000 --> 00:00:12.000',
+      'Note: Legal has the latest draft',
+      '',
+      '00:00:13.000 --> 00:00:16.000',
+      'Action Item: Fahad to chase legal'
+    ].join('\n');
+
+    const parsed = parseTranscript(vtt);
+
+    expect(parsed.attendees).toEqual(['Sara']);
+    expect(parsed.utterances.map(u => u.speaker)).toEqual(['Sara', null, null, null]);
+    expect(parsed.utterances[1].text).toBe('Task: Sign the vendor contract');
+  });
+
+  it('does not start a Teams turn for a timestamped label line', () => {
+    const teams = [
+      'Microsoft Teams',
+      '10:00 AM Sara Ali',
+      'Morning all.',
+      '10:01 AM Summary',
+      '10:02 AM Ahmed Khan',
+      'Release is on track.'
+    ].join('\n');
+
+    const parsed = parseTranscript(teams);
+
+    expect(parsed.attendees).toEqual(['Sara Ali', 'Ahmed Khan']);
+  });
+});
+
+describe('parseTranscript JSON exports', () => {
+  it('skips null segments in a Zoom timeline', () => {
+    const zoom = JSON.stringify({
+      timeline: [
+        { ts: '00:00:01.000', username: 'Sara Ali', text: 'Morning all.' },
+        null,
+        { ts: '00:00:05.000', username: 'Ahmed Khan', text: 'Release is on track.' }
+      ]
+    });
+
+    const parsed = parseTranscript(zoom);
+
+    expect(parsed.format).toBe('zoom_json');
+    expect(parsed.utterances.map(u => u.speaker)).toEqual(['Sara Ali', 'Ahmed Khan']);
+  });
+
+  it('skips null Otter segments and speakers', () => {
+    const otter = JSON.stringify({
+      speakers: [null, { id: 1, name: 'Sara Ali' }],
+      transcripts: [null, { speaker_id: 1, start_offset: 2000, transcript: 'Morning all.' }]
+    });
+
+    const parsed = parseTranscript(otter);
+
+    expect(parsed.utterances).toEqual([
+      expect.objectContaining({ speaker: 'Sara Ali', startTime: '00:00:02', text: 'Morning all.' })
+    ]);
+  });
+
+  it('skips null Fireflies sentences', () => {
+    const fireflies = JSON.stringify({
+      sentences: [{ speaker_name: 'Sara Ali', start_time: 1, text: 'Morning all.' }, null]
+    });
+
+    expect(parseTranscript(fireflies).utterances).toHaveLength(1);
+  });
+});